@@ -839,6 +839,7 @@ export type ArgType = {
     hyperlink: URL;
     integer: number;
     member: GuildMember;
+    mentionable: User | Role;
     message: Message;
     number: number;
     role: Role;
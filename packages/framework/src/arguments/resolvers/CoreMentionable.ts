@@ -0,0 +1,23 @@
+import type { Role, User } from 'discord.js';
+
+import { resolveMentionable } from '../../resolvers/mentionable.js';
+import { Argument } from '../Argument.js';
+import type { ArgumentContext, AsyncArgumentResult } from '../types.js';
+
+export class CoreMentionable extends Argument<User | Role> {
+    public constructor() {
+        super({ name: 'mentionable' });
+    }
+
+    public async run(parameter: string, context: ArgumentContext): AsyncArgumentResult<User | Role> {
+        const resolved = await resolveMentionable(parameter, context.message.guild);
+        return resolved.mapErrInto((identifier) =>
+            this.error({
+                parameter,
+                identifier,
+                message: 'The given argument did not resolve to a user or role.',
+                context,
+            }),
+        );
+    }
+}
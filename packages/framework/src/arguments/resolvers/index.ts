@@ -20,6 +20,7 @@ import { CoreGuildVoiceChannel } from './CoreGuildVoiceChannel.js';
 import { CoreHyperlink } from './CoreHyperlink.js';
 import { CoreInteger } from './CoreInteger.js';
 import { CoreMember } from './CoreMember.js';
+import { CoreMentionable } from './CoreMentionable.js';
 import { CoreMessage } from './CoreMessage.js';
 import { CoreNumber } from './CoreNumber.js';
 import { CoreRole } from './CoreRole.js';
@@ -46,6 +47,7 @@ export const argumentResolvers: Record<keyof ArgType, IArgument<unknown>> = {
     hyperlink: new CoreHyperlink(),
     integer: new CoreInteger(),
     member: new CoreMember(),
+    mentionable: new CoreMentionable(),
     message: new CoreMessage(),
     number: new CoreNumber(),
     role: new CoreRole(),
@@ -30,6 +30,7 @@ export enum Identifiers {
     ArgumentIntegerTooSmall = 'integerTooSmall',
     ArgumentMemberError = 'memberError',
     ArgumentMemberMissingGuild = 'memberMissingGuild',
+    ArgumentMentionableError = 'mentionableError',
     ArgumentMessageError = 'messageError',
     ArgumentNumberError = 'numberError',
     ArgumentNumberTooLarge = 'numberTooLarge',
@@ -44,6 +45,13 @@ export enum Identifiers {
 
     CommandDisabled = 'commandDisabled',
 
+    ComponentExpired = 'componentExpired',
+    ComponentStateUnavailable = 'componentStateUnavailable',
+
+    HandlerTimeout = 'handlerTimeout',
+
+    ModalFormInvalid = 'modalFormInvalid',
+
     PreconditionCooldown = 'preconditionCooldown',
     PreconditionNSFW = 'preconditionNsfw',
     PreconditionClientPermissions = 'preconditionClientPermissions',
@@ -0,0 +1,38 @@
+import { UserError } from './UserError.js';
+
+/**
+ * Errors reported by a precondition listed in a handler definition.
+ * The identifier and context are the ones reported by the precondition, the name of the precondition is kept in {@link PreconditionError.precondition}.
+ * @since 0.4.0
+ * @property name This will be `'PreconditionError'` and can be used to distinguish the type of error when any error gets thrown
+ */
+export class PreconditionError extends UserError {
+    /**
+     * The name of the precondition that denied the handler.
+     */
+    public readonly precondition: string;
+
+    public constructor(options: PreconditionError.Options) {
+        super(options);
+        this.precondition = options.precondition;
+    }
+
+    public override get name(): string {
+        return 'PreconditionError';
+    }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export namespace PreconditionError {
+    /**
+     * The options for {@link PreconditionError}.
+     * @since 0.4.0
+     */
+    export type Options = {
+        /**
+         * The name of the precondition that denied the handler.
+         * @since 0.4.0
+         */
+        precondition: string;
+    } & UserError.Options;
+}
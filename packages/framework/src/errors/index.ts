@@ -1,3 +1,4 @@
 export * from './ArgumentError.js';
 export * from './Identifiers.js';
+export * from './PreconditionError.js';
 export * from './UserError.js';
@@ -4,31 +4,38 @@ import {
     ButtonInteraction,
     ChatInputCommandInteraction,
     Client,
-    Colors,
+    type ClientEvents,
     ContextMenuCommandInteraction,
-    EmbedBuilder,
     Events as DJSEvents,
     ModalSubmitInteraction,
     type SelectMenuType,
 } from 'discord.js';
 import type { Logger } from 'pino';
 
+import { Identifiers } from '../errors/Identifiers.js';
 import { UserError } from '../errors/UserError.js';
 import type { TextCommandMessage } from '../handlers/TextCommand.js';
 import type {
     ButtonComponent as PeridotButtonComponent,
+    ClientEvent,
     ContextMenuCommand,
     ModalComponent,
     SelectMenuComponent,
     SlashCommand,
     TextCommand,
 } from '../index.js';
+import type { ApplicationCommandSyncReport } from '../structures/applicationCommands.js';
+import type { AutocompleteFocusedOption } from '../structures/autocomplete.js';
 import { container } from '../structures/container.js';
+import type { HandlerExport } from '../structures/loaders.js';
+import { _replyModalFormInvalid, type ModalForm, type ModalFormValues } from '../structures/modalForms.js';
 import type { PluginHook } from '../structures/plugins.js';
+import { _sendResponse } from '../structures/responses.js';
 import {
     onButtonInteractionAccepted,
     onContextMenuCommandAccepted,
     onModalSubmitInteractionAccepted,
+    onPossibleAutocompleteInteraction,
     onPossibleButtonInteraction,
     onPossibleContextMenuCommand,
     onPossibleModalSubmitInteraction,
@@ -197,6 +204,12 @@ export const Events = {
      * @param {TextCommandErrorPayload} payload The contextual payload
      */
     TextCommandError: 'textCommandError' as const,
+    /**
+     * Emitted when the typing indicator of a text command fails to be sent, the command keeps running without it.
+     * @param {*} error The error that was thrown
+     * @param {TextCommandTypingErrorPayload} payload The contextual payload
+     */
+    TextCommandTypingError: 'textCommandTypingError' as const,
     /**
      * Emitted directly after a text command finished running, regardless of the outcome.
      * @param {TextCommandMessage} message The message that executed the command
@@ -505,6 +518,48 @@ export const Events = {
     ModalSubmitInteractionFinish: 'ModalSubmitInteractionFinish' as const,
     // #endregion Modal Component chain
 
+    // #region Application command sync
+    /**
+     * Emitted after the application commands were synced with Discord.
+     * @param {ApplicationCommandSyncReport} report The changes that were made, or would have been made on a dry run
+     */
+    ApplicationCommandSyncFinish: 'applicationCommandSyncFinish' as const,
+    /**
+     * Emitted when the automatic application command sync fails.
+     * @param {*} error The error that was thrown
+     */
+    ApplicationCommandSyncError: 'applicationCommandSyncError' as const,
+    // #endregion Application command sync
+
+    // #region Handler reloading
+    /**
+     * Emitted after a handler file was reloaded and its handlers were swapped in the registries.
+     * @param {string} path The path of the reloaded file
+     * @param {HandlerExport} handlerExport The newly registered handler export
+     */
+    HandlerExportReloaded: 'handlerExportReloaded' as const,
+    /**
+     * Emitted after a handler file was removed and its handlers were unregistered.
+     * @param {string} path The path of the removed file
+     */
+    HandlerExportUnloaded: 'handlerExportUnloaded' as const,
+    /**
+     * Emitted when a handler file failed to (re)load. The previously registered handlers of the file are kept.
+     * @param {*} error The error that was thrown
+     * @param {string} path The path of the file that failed to load
+     */
+    HandlerExportLoadError: 'handlerExportLoadError' as const,
+    // #endregion Handler reloading
+
+    // #region Client events
+    /**
+     * Emitted when a client event handler throws, and it has no `onError` hook or the hook threw too.
+     * @param {*} error The error that was thrown
+     * @param {ClientEventErrorPayload} payload The contextual payload
+     */
+    ClientEventError: 'clientEventError' as const,
+    // #endregion Client events
+
     PluginLoaded: 'pluginLoaded' as const,
 
     // #endregion Custom events
@@ -594,6 +649,7 @@ export interface SlashCommandErrorPayload extends ISlashCommandPayload {
 export interface AutocompleteInteractionPayload {
     interaction: AutocompleteInteraction;
     command: SlashCommand;
+    focused: AutocompleteFocusedOption;
     logger: Logger;
 }
 
@@ -656,7 +712,9 @@ export interface PreButtonInteractionRunPayload extends IButtonInteractionPayloa
 
 export interface ButtonInteractionDeniedPayload extends IButtonInteractionPayload {}
 
-export interface ButtonInteractionAcceptedPayload extends PreButtonInteractionRunPayload {}
+export interface ButtonInteractionAcceptedPayload extends PreButtonInteractionRunPayload {
+    state: unknown;
+}
 
 export interface ButtonInteractionRunPayload extends ButtonInteractionAcceptedPayload {}
 
@@ -690,7 +748,9 @@ export interface PreSelectMenuInteractionRunPayload extends ISelectMenuInteracti
 
 export interface SelectMenuInteractionDeniedPayload extends ISelectMenuInteractionPayload {}
 
-export interface SelectMenuInteractionAcceptedPayload extends PreSelectMenuInteractionRunPayload {}
+export interface SelectMenuInteractionAcceptedPayload extends PreSelectMenuInteractionRunPayload {
+    state: unknown;
+}
 
 export interface SelectMenuInteractionRunPayload extends SelectMenuInteractionAcceptedPayload {}
 
@@ -725,7 +785,10 @@ export interface PreModalSubmitInteractionRunPayload extends IModalSubmitInterac
 
 export interface ModalSubmitInteractionDeniedPayload extends IModalSubmitInteractionPayload {}
 
-export interface ModalSubmitInteractionAcceptedPayload extends PreModalSubmitInteractionRunPayload {}
+export interface ModalSubmitInteractionAcceptedPayload extends PreModalSubmitInteractionRunPayload {
+    state: unknown;
+    fields: ModalFormValues<ModalForm>;
+}
 
 export interface ModalSubmitInteractionRunPayload extends ModalSubmitInteractionAcceptedPayload {}
 
@@ -744,6 +807,13 @@ export interface ModalSubmitInteractionErrorPayload extends IModalSubmitInteract
 }
 // #endregion Modal component payloads
 
+// #region Client event payloads
+export interface ClientEventErrorPayload {
+    handler: ClientEvent<keyof ClientEvents>;
+    duration: number;
+}
+// #endregion Client event payloads
+
 declare const PeridotEvents: typeof Events;
 
 declare module 'discord.js' {
@@ -762,6 +832,7 @@ declare module 'discord.js' {
         [PeridotEvents.TextCommandSuccess]: [payload: TextCommandSuccessPayload];
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         [PeridotEvents.TextCommandError]: [error: any, payload: TextCommandErrorPayload];
+        [PeridotEvents.TextCommandTypingError]: [error: unknown, payload: TextCommandTypingErrorPayload];
         [PeridotEvents.TextCommandFinish]: [message: TextCommandMessage, command: TextCommand, payload: TextCommandFinishPayload];
 
         [PeridotEvents.PossibleAutocompleteInteraction]: [interaction: AutocompleteInteraction];
@@ -865,6 +936,15 @@ declare module 'discord.js' {
             payload: ModalSubmitInteractionFinishPayload,
         ];
 
+        [PeridotEvents.ApplicationCommandSyncFinish]: [report: ApplicationCommandSyncReport];
+        [PeridotEvents.ApplicationCommandSyncError]: [error: unknown];
+
+        [PeridotEvents.HandlerExportReloaded]: [path: string, handlerExport: HandlerExport];
+        [PeridotEvents.HandlerExportUnloaded]: [path: string];
+        [PeridotEvents.HandlerExportLoadError]: [error: unknown, path: string];
+
+        [PeridotEvents.ClientEventError]: [error: unknown, payload: ClientEventErrorPayload];
+
         [PeridotEvents.PluginLoaded]: [hook: PluginHook, name: string | undefined];
     }
 }
@@ -887,6 +967,7 @@ export const _registerCoreEventHandlers = (client: Client) => {
     client.on(Events.PossibleSlashCommand, onPossibleSlashCommand);
     client.on(Events.PreSlashCommandRun, onPreSlashCommandRun);
     client.on(Events.SlashCommandAccepted, onSlashCommandAccepted);
+    client.on(Events.PossibleAutocompleteInteraction, onPossibleAutocompleteInteraction);
 
     // - Context menu command events
     client.on(Events.PossibleContextMenuCommand, onPossibleContextMenuCommand);
@@ -923,25 +1004,21 @@ export const registerDefaultEventLoggers = () => {
     });
 
     // #region Text command events
-    client.on(Events.TextCommandDenied, (error, { logger }) => {
+    client.on(Events.TextCommandDenied, (error, { message, logger }) => {
         logger.debug({ err: error }, 'TextCommandDenied');
+        void _sendResponse(message, error, 'denied', logger);
     });
     client.on(Events.TextCommandSuccess, ({ duration, logger }) => {
         logger.debug({ duration }, 'TextCommandSuccess');
     });
     client.on(Events.TextCommandError, (error, { message, parameters, duration, logger }) => {
-        if (error instanceof UserError) {
-            message
-                .reply({
-                    embeds: [new EmbedBuilder().setTitle('An error occurred').setDescription(error.message).setColor(Colors.Red)],
-                })
-                .catch((err) => {
-                    logger.error({ err, message: error.message }, 'Failed to send error message');
-                });
-        }
+        if (error instanceof UserError) void _sendResponse(message, error, 'error', logger);
 
         logger.error({ err: error, parameters, duration }, 'TextCommandError');
     });
+    client.on(Events.TextCommandTypingError, (error, { logger }) => {
+        logger.warn({ err: error }, 'TextCommandTypingError');
+    });
     client.on(Events.UnknownTextCommandName, ({ message, commandPrefix, prefix }) => {
         container.logger.trace({ src: message.id, commandPrefix, prefix }, 'UnknownTextCommandName');
     });
@@ -957,28 +1034,19 @@ export const registerDefaultEventLoggers = () => {
     // #endregion Text command events
 
     // #region Slash command events
-    client.on(Events.SlashCommandDenied, (error, { logger }) => {
+    client.on(Events.SlashCommandDenied, (error, { interaction, logger }) => {
         logger.debug({ err: error }, 'SlashCommandDenied');
+        void _sendResponse(interaction, error, 'denied', logger);
     });
     client.on(Events.SlashCommandSuccess, ({ duration, logger }) => {
         logger.debug({ duration }, 'SlashCommandSuccess');
     });
     client.on(Events.SlashCommandError, (error, { interaction, duration, logger }) => {
         if (error instanceof UserError) {
-            try {
-                const embed = new EmbedBuilder().setTitle('Error').setDescription(error.message).setColor(Colors.Red);
-                if (interaction.replied) {
-                    void interaction.followUp({ embeds: [embed], ephemeral: interaction.ephemeral ?? false });
-                } else {
-                    void interaction.reply({ embeds: [embed], ephemeral: interaction.ephemeral ?? false });
-                }
-
-                logger.error({ err: error }, 'UserError');
-
-                return;
-            } catch (err) {
-                logger.error({ err }, 'Failed to handle user error');
-            }
+            void _sendResponse(interaction, error, 'error', logger);
+            logger.error({ err: error }, 'UserError');
+
+            return;
         }
 
         logger.error({ err: error, duration }, 'Unknown Error');
@@ -986,31 +1054,28 @@ export const registerDefaultEventLoggers = () => {
     client.on(Events.UnknownSlashCommand, ({ interaction }) => {
         container.logger.trace({ src: interaction.id }, 'UnknownSlashCommand');
     });
+    client.on(Events.AutocompleteInteractionSuccess, ({ focused, duration, logger }) => {
+        logger.trace({ option: focused.path, duration }, 'AutocompleteInteractionSuccess');
+    });
+    client.on(Events.AutocompleteInteractionError, (error, { focused, logger }) => {
+        logger.warn({ err: error, option: focused.path }, 'AutocompleteInteractionError');
+    });
     // #endregion Slash command events
 
     // #region Context menu command events
-    client.on(Events.ContextMenuCommandDenied, (error, { logger }) => {
+    client.on(Events.ContextMenuCommandDenied, (error, { interaction, logger }) => {
         logger.debug({ err: error }, 'ContextMenuCommandDenied');
+        void _sendResponse(interaction, error, 'denied', logger);
     });
     client.on(Events.ContextMenuCommandSuccess, ({ duration, logger }) => {
         logger.debug({ duration }, 'ContextMenuCommandSuccess');
     });
     client.on(Events.ContextMenuCommandError, (error, { interaction, duration, logger }) => {
         if (error instanceof UserError) {
-            try {
-                const embed = new EmbedBuilder().setTitle('Error').setDescription(error.message).setColor(Colors.Red);
-                if (interaction.replied) {
-                    void interaction.followUp({ embeds: [embed], ephemeral: interaction.ephemeral ?? false });
-                } else {
-                    void interaction.reply({ embeds: [embed], ephemeral: interaction.ephemeral ?? false });
-                }
-
-                logger.error({ err: error }, 'UserError');
-
-                return;
-            } catch (err) {
-                logger.error({ err }, 'Failed to handle user error');
-            }
+            void _sendResponse(interaction, error, 'error', logger);
+            logger.error({ err: error }, 'UserError');
+
+            return;
         }
 
         logger.error({ err: error, duration }, 'Unknown Error');
@@ -1021,28 +1086,19 @@ export const registerDefaultEventLoggers = () => {
     // #endregion Context menu command events
 
     // #region Button component events
-    client.on(Events.ButtonInteractionDenied, (error, { logger }) => {
+    client.on(Events.ButtonInteractionDenied, (error, { interaction, logger }) => {
         logger.debug({ err: error }, 'ButtonInteractionDenied');
+        void _sendResponse(interaction, error, 'denied', logger);
     });
     client.on(Events.ButtonInteractionSuccess, ({ duration, logger }) => {
         logger.debug({ duration }, 'ButtonInteractionSuccess');
     });
     client.on(Events.ButtonInteractionError, (error, { interaction, duration, logger }) => {
         if (error instanceof UserError) {
-            try {
-                const embed = new EmbedBuilder().setTitle('Error').setDescription(error.message).setColor(Colors.Red);
-                if (interaction.replied) {
-                    void interaction.followUp({ embeds: [embed], ephemeral: interaction.ephemeral ?? false });
-                } else {
-                    void interaction.reply({ embeds: [embed], ephemeral: interaction.ephemeral ?? false });
-                }
-
-                logger.error({ err: error }, 'UserError');
-
-                return;
-            } catch (err) {
-                logger.error({ err }, 'Failed to handle user error');
-            }
+            void _sendResponse(interaction, error, 'error', logger);
+            logger.error({ err: error }, 'UserError');
+
+            return;
         }
 
         logger.error({ err: error, duration }, 'Unknown Error');
@@ -1053,28 +1109,19 @@ export const registerDefaultEventLoggers = () => {
     // #endregion Button component events
 
     // #region Select menu component events
-    client.on(Events.SelectMenuInteractionDenied, (error, { logger }) => {
+    client.on(Events.SelectMenuInteractionDenied, (error, { interaction, logger }) => {
         logger.debug({ err: error }, 'SelectMenuInteractionDenied');
+        void _sendResponse(interaction, error, 'denied', logger);
     });
     client.on(Events.SelectMenuInteractionSuccess, ({ duration, logger }) => {
         logger.debug({ duration }, 'SelectMenuInteractionSuccess');
     });
     client.on(Events.SelectMenuInteractionError, (error, { interaction, duration, logger }) => {
         if (error instanceof UserError) {
-            try {
-                const embed = new EmbedBuilder().setTitle('Error').setDescription(error.message).setColor(Colors.Red);
-                if (interaction.replied) {
-                    void interaction.followUp({ embeds: [embed], ephemeral: interaction.ephemeral ?? false });
-                } else {
-                    void interaction.reply({ embeds: [embed], ephemeral: interaction.ephemeral ?? false });
-                }
-
-                logger.error({ err: error }, 'UserError');
-
-                return;
-            } catch (err) {
-                logger.error({ err }, 'Failed to handle user error');
-            }
+            void _sendResponse(interaction, error, 'error', logger);
+            logger.error({ err: error }, 'UserError');
+
+            return;
         }
 
         logger.error({ err: error, duration }, 'Unknown Error');
@@ -1085,28 +1132,25 @@ export const registerDefaultEventLoggers = () => {
     // #endregion Select menu component events
 
     // #region Modal component events
-    client.on(Events.ModalSubmitInteractionDenied, (error, { logger }) => {
+    client.on(Events.ModalSubmitInteractionDenied, (error, { interaction, logger }) => {
         logger.debug({ err: error }, 'ModalSubmitInteractionDenied');
+        if (error.identifier === Identifiers.ModalFormInvalid) {
+            _replyModalFormInvalid(interaction, error).catch((err: unknown) => {
+                logger.error({ err, message: error.message }, 'Failed to send invalid form message');
+            });
+        } else {
+            void _sendResponse(interaction, error, 'denied', logger);
+        }
     });
     client.on(Events.ModalSubmitInteractionSuccess, ({ duration, logger }) => {
         logger.debug({ duration }, 'ModalSubmitInteractionSuccess');
     });
     client.on(Events.ModalSubmitInteractionError, (error, { interaction, duration, logger }) => {
         if (error instanceof UserError) {
-            try {
-                const embed = new EmbedBuilder().setTitle('Error').setDescription(error.message).setColor(Colors.Red);
-                if (interaction.replied) {
-                    void interaction.followUp({ embeds: [embed], ephemeral: interaction.ephemeral ?? false });
-                } else {
-                    void interaction.reply({ embeds: [embed], ephemeral: interaction.ephemeral ?? false });
-                }
-
-                logger.error({ err: error }, 'UserError');
-
-                return;
-            } catch (err) {
-                logger.error({ err }, 'Failed to handle user error');
-            }
+            void _sendResponse(interaction, error, 'error', logger);
+            logger.error({ err: error }, 'UserError');
+
+            return;
         }
 
         logger.error({ err: error, duration }, 'Unknown Error');
@@ -1115,4 +1159,37 @@ export const registerDefaultEventLoggers = () => {
         container.logger.trace({ src: interaction.id }, 'UnknownModalSubmitInteraction');
     });
     // #endregion Modal component events
+
+    // #region Application command sync events
+    client.on(Events.ApplicationCommandSyncFinish, (report) => {
+        for (const { scope, changes } of report.scopes) {
+            const count = (action: string) => changes.filter((change) => change.action === action).length;
+            container.logger.info(
+                { scope, dryRun: report.dryRun, created: count('create'), updated: count('update'), deleted: count('delete') },
+                'ApplicationCommandSyncFinish',
+            );
+        }
+    });
+    client.on(Events.ApplicationCommandSyncError, (error) => {
+        container.logger.error({ err: error }, 'ApplicationCommandSyncError');
+    });
+    // #endregion Application command sync events
+
+    // #region Handler reloading events
+    client.on(Events.HandlerExportReloaded, (path) => {
+        container.logger.info({ path }, 'HandlerExportReloaded');
+    });
+    client.on(Events.HandlerExportUnloaded, (path) => {
+        container.logger.info({ path }, 'HandlerExportUnloaded');
+    });
+    client.on(Events.HandlerExportLoadError, (error, path) => {
+        container.logger.error({ err: error, path }, 'HandlerExportLoadError');
+    });
+    // #endregion Handler reloading events
+
+    // #region Client events
+    client.on(Events.ClientEventError, (error, { handler, duration }) => {
+        container.logger.error({ err: error, event: handler.name, duration }, 'ClientEventError');
+    });
+    // #endregion Client events
 };
@@ -2,14 +2,26 @@ import { Result } from '@sapphire/result';
 import { Stopwatch } from '@sapphire/stopwatch';
 import { type AutocompleteInteraction } from 'discord.js';
 
+import { _getFocusedOption, _runAutocompleteOption } from '../../../structures/autocomplete.js';
+import { PeridotClient } from '../../../structures/client.js';
 import { container } from '../../../structures/index.js';
+import { _checkPermissionLevel, _getInteractionPermissionLevel } from '../../../structures/permissions.js';
+import { _runInInvocationScope } from '../../../structures/scope.js';
+import { _createHandlerTimeout } from '../../../structures/timeouts.js';
 import { Events } from '../../index.js';
 
 export async function onPossibleAutocompleteInteraction(interaction: AutocompleteInteraction) {
     const { client, handlers } = container;
 
     const command = handlers.getRegistry('slashCommands').unwrap().getHandler(interaction.commandName).unwrapOr(undefined);
-    if (!command || !command.autocomplete) {
+    if (!command) {
+        return;
+    }
+
+    // Options with a value provider use it, the others fall back to the command's handler
+    const focused = _getFocusedOption(interaction);
+    const option = command.autocompletes?.[focused.path];
+    if (!option && !command.autocomplete) {
         return;
     }
     const logger = container.logger.child({
@@ -19,31 +31,48 @@ export async function onPossibleAutocompleteInteraction(interaction: Autocomplet
         cmd: interaction.commandName,
     });
 
-    const result = await Result.fromAsync(async () => {
-        const stopwatch = new Stopwatch();
+    await _runInInvocationScope('autocomplete', interaction, command, logger, async () => {
+        // Users that can't run the command don't get suggestions either
+        const permissionResult = _checkPermissionLevel(await _getInteractionPermissionLevel(interaction), command.permission);
+        if (permissionResult.isErr()) {
+            logger.trace({ err: permissionResult.unwrapErr() }, 'AutocompleteInteractionDenied');
+            // Answer with no suggestions, as Discord shows unanswered autocompletes as failed
+            await interaction.respond([]).catch((err: unknown) => logger.error({ err }, 'Failed to respond to denied autocomplete interaction'));
+            return;
+        }
 
-        const result = await command.autocomplete!(interaction, {
-            logger,
-        });
-        const { duration } = stopwatch.stop();
-
-        interaction.client.emit(Events.AutocompleteInteractionSuccess, {
-            command,
-            interaction,
-            logger,
-            duration,
-            result,
+        const result = await Result.fromAsync(async () => {
+            const stopwatch = new Stopwatch();
+
+            const handlerTimeout = _createHandlerTimeout(command.timeout);
+            const ctx = { logger, signal: handlerTimeout.signal, focused };
+            const result = await handlerTimeout.race(() =>
+                PeridotClient.plugins.runPreHandlerRunHooks({ type: 'autocomplete', trigger: interaction, handler: command, ctx }, () =>
+                    option ? _runAutocompleteOption(interaction, ctx, option) : command.autocomplete!(interaction, ctx),
+                ),
+            );
+            const { duration } = stopwatch.stop();
+
+            interaction.client.emit(Events.AutocompleteInteractionSuccess, {
+                command,
+                interaction,
+                focused,
+                logger,
+                duration,
+                result,
+            });
+
+            return duration;
         });
 
-        return duration;
+        result.inspectErr((error) =>
+            interaction.client.emit(Events.AutocompleteInteractionError, error, {
+                command,
+                interaction,
+                focused,
+                logger,
+                duration: -1,
+            }),
+        );
     });
-
-    result.inspectErr((error) =>
-        interaction.client.emit(Events.AutocompleteInteractionError, error, {
-            command,
-            interaction,
-            logger,
-            duration: -1,
-        }),
-    );
 }
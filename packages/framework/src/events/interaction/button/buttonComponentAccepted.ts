@@ -1,20 +1,40 @@
 import { Result } from '@sapphire/result';
 import { Stopwatch } from '@sapphire/stopwatch';
 
+import { _startAutoDefer } from '../../../structures/autoDefer.js';
+import { _createInteractiveContext } from '../../../structures/awaiters.js';
+import { PeridotClient } from '../../../structures/client.js';
+import { _splitComponentStateKey } from '../../../structures/componentState.js';
+import { _getCustomIdParams } from '../../../structures/customIds.js';
+import { _createHandlerTimeout } from '../../../structures/timeouts.js';
 import { type ButtonInteractionAcceptedPayload, Events } from '../../index.js';
 
 export async function onButtonInteractionAccepted(payload: ButtonInteractionAcceptedPayload) {
-    const { interaction, component, logger } = payload;
+    const { interaction, component, logger, state } = payload;
 
     logger.trace('ButtonInteractionAccepted');
 
+    const { customId, key } = _splitComponentStateKey(interaction.customId);
+    const handlerTimeout = _createHandlerTimeout(component.timeout);
+    const ctx = {
+        logger,
+        signal: handlerTimeout.signal,
+        params: _getCustomIdParams(component.customId, customId),
+        state,
+        stateKey: key,
+        ..._createInteractiveContext(interaction),
+    };
+    const stopwatch = new Stopwatch();
+    const cancelAutoDefer = _startAutoDefer(interaction, component.autoDefer, logger);
+
     const result = await Result.fromAsync(async () => {
         interaction.client.emit(Events.ButtonInteractionRun, interaction, component, payload);
 
-        const stopwatch = new Stopwatch();
-        const result = await component.run(interaction, {
-            logger,
-        });
+        const result = await handlerTimeout.race(() =>
+            PeridotClient.plugins.runPreHandlerRunHooks({ type: 'buttonComponent', trigger: interaction, handler: component, ctx }, () =>
+                component.run(interaction, ctx),
+            ),
+        );
         const { duration } = stopwatch.stop();
 
         interaction.client.emit(Events.ButtonInteractionSuccess, {
@@ -26,12 +46,31 @@ export async function onButtonInteractionAccepted(payload: ButtonInteractionAcce
         return duration;
     });
 
-    result.inspectErr((error) =>
+    cancelAutoDefer();
+
+    // Handle errors with component.onError if it exists, otherwise emit error event
+    result.inspectErr(async (error) => {
+        const { duration } = stopwatch.stop();
+
+        if (component.onError) {
+            try {
+                await component.onError(error, ctx);
+            } catch (handlerError) {
+                // If the error handler throws, emit that as the error instead
+                interaction.client.emit(Events.ButtonInteractionError, handlerError, {
+                    ...payload,
+                    duration,
+                });
+            }
+            return;
+        }
+
+        // No custom error handler, emit the standard error event
         interaction.client.emit(Events.ButtonInteractionError, error, {
             ...payload,
-            duration: -1,
-        }),
-    );
+            duration,
+        });
+    });
 
     interaction.client.emit(Events.ButtonInteractionFinish, interaction, component, {
         ...payload,
@@ -1,6 +1,10 @@
 import { Result } from '@sapphire/result';
 import { Stopwatch } from '@sapphire/stopwatch';
 
+import { _startAutoDefer } from '../../../structures/autoDefer.js';
+import { _createInteractiveContext } from '../../../structures/awaiters.js';
+import { PeridotClient } from '../../../structures/client.js';
+import { _createHandlerTimeout } from '../../../structures/timeouts.js';
 import { type ContextMenuCommandAcceptedPayload, Events } from '../../index.js';
 
 export async function onContextMenuCommandAccepted(payload: ContextMenuCommandAcceptedPayload) {
@@ -8,18 +12,23 @@ export async function onContextMenuCommandAccepted(payload: ContextMenuCommandAc
 
     logger.trace('ContextMenuCommandAccepted');
 
+    const handlerTimeout = _createHandlerTimeout(command.timeout);
+    const ctx = { logger, signal: handlerTimeout.signal, ..._createInteractiveContext(interaction) };
+    const stopwatch = new Stopwatch();
+    const cancelAutoDefer = _startAutoDefer(interaction, command.autoDefer, logger);
+
     const result = await Result.fromAsync(async () => {
         interaction.client.emit(Events.ContextMenuCommandRun, interaction, command, payload);
         if (command.type !== interaction.commandType) {
             throw new Error(`Expected command type ${command.type}, got ${interaction.commandType}`);
         }
 
-        const stopwatch = new Stopwatch();
-
-        // @ts-expect-error Typescript breaks since user and message context menus have different types
-        const result = await command.run(interaction, {
-            logger,
-        });
+        const result = await handlerTimeout.race(() =>
+            PeridotClient.plugins.runPreHandlerRunHooks({ type: 'contextMenuCommand', trigger: interaction, handler: command, ctx }, () =>
+                // @ts-expect-error Typescript breaks since user and message context menus have different types
+                command.run(interaction, ctx),
+            ),
+        );
         const { duration } = stopwatch.stop();
 
         interaction.client.emit(Events.ContextMenuCommandSuccess, {
@@ -31,12 +40,31 @@ export async function onContextMenuCommandAccepted(payload: ContextMenuCommandAc
         return duration;
     });
 
-    result.inspectErr((error) =>
+    cancelAutoDefer();
+
+    // Handle errors with command.onError if it exists, otherwise emit error event
+    result.inspectErr(async (error) => {
+        const { duration } = stopwatch.stop();
+
+        if (command.onError) {
+            try {
+                await command.onError(error, ctx);
+            } catch (handlerError) {
+                // If the error handler throws, emit that as the error instead
+                interaction.client.emit(Events.ContextMenuCommandError, handlerError, {
+                    ...payload,
+                    duration,
+                });
+            }
+            return;
+        }
+
+        // No custom error handler, emit the standard error event
         interaction.client.emit(Events.ContextMenuCommandError, error, {
             ...payload,
-            duration: -1,
-        }),
-    );
+            duration,
+        });
+    });
 
     interaction.client.emit(Events.ContextMenuCommandFinish, interaction, command, {
         ...payload,
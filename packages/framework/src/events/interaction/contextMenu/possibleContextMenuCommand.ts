@@ -1,6 +1,7 @@
 import type { ClientEvents } from 'discord.js';
 
 import { container } from '../../../structures/index.js';
+import { _runInInvocationScope } from '../../../structures/scope.js';
 import { Events } from '../../index.js';
 
 export const onPossibleContextMenuCommand = ((interaction) => {
@@ -19,5 +20,7 @@ export const onPossibleContextMenuCommand = ((interaction) => {
         cmd: interaction.commandName,
     });
 
-    client.emit(Events.PreContextMenuCommandRun, { interaction, command, logger: cmdLogger });
+    _runInInvocationScope('contextMenuCommand', interaction, command, cmdLogger, () =>
+        client.emit(Events.PreContextMenuCommandRun, { interaction, command, logger: cmdLogger }),
+    );
 }) satisfies (...args: ClientEvents[typeof Events.PossibleContextMenuCommand]) => void;
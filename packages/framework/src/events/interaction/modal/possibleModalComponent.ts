@@ -1,12 +1,19 @@
 import type { ClientEvents } from 'discord.js';
 
+import { _claimAwaitedInteraction } from '../../../structures/awaiters.js';
+import { _splitComponentStateKey } from '../../../structures/componentState.js';
 import { container } from '../../../structures/index.js';
+import { _runInInvocationScope } from '../../../structures/scope.js';
 import { Events } from '../../index.js';
 
 export const onPossibleModalSubmitInteraction = ((interaction) => {
     const { client, logger, handlers } = container;
 
-    const component = handlers.getRegistry('modalComponents').unwrap().getHandler(interaction.customId).unwrapOr(undefined);
+    // Interactions awaited by a running handler don't go through the registry
+    if (_claimAwaitedInteraction(interaction)) return;
+
+    const { customId } = _splitComponentStateKey(interaction.customId);
+    const component = handlers.getRegistry('modalComponents').unwrap().getHandler(customId).unwrapOr(undefined);
 
     if (!component) {
         client.emit(Events.UnknownModalSubmitInteraction, { interaction });
@@ -21,5 +28,7 @@ export const onPossibleModalSubmitInteraction = ((interaction) => {
         cmp: interaction.customId,
     });
 
-    client.emit(Events.PreModalSubmitInteractionRun, { interaction, component, logger: cmpLogger });
+    _runInInvocationScope('modalComponent', interaction, component, cmpLogger, () =>
+        client.emit(Events.PreModalSubmitInteractionRun, { interaction, component, logger: cmpLogger }),
+    );
 }) satisfies (...args: ClientEvents[typeof Events.PossibleModalSubmitInteraction]) => void;
@@ -1,10 +1,13 @@
 import { Result } from '@sapphire/result';
 
 import { UserError } from '../../../errors/UserError.js';
+import { _loadComponentState } from '../../../structures/componentState.js';
+import { container } from '../../../structures/container.js';
+import { _checkPermissionLevel, _getInteractionPermissionLevel } from '../../../structures/permissions.js';
 import { Events, type PreModalSubmitInteractionRunPayload } from '../../index.js';
 
 export async function onPreModalSubmitInteractionRun(payload: PreModalSubmitInteractionRunPayload) {
-    const { interaction, logger } = payload;
+    const { interaction, component, logger } = payload;
 
     logger.trace('PreModalSubmitInteractionRun');
 
@@ -15,29 +18,37 @@ export async function onPreModalSubmitInteractionRun(payload: PreModalSubmitInte
         return;
     }
 
-    // // Run command-specific preconditions:
-    // const localResult = await command.preconditions.messageRun(message, command, payload as any);
-    // if (localResult.isErr()) {
-    //     message.client.emit(Events.TextCommandDenied, localResult.unwrapErr(), payload);
-    //     return;
-    // }
+    // Load the state attached to the custom ID:
+    const stateResult = await _loadComponentState(interaction.customId);
+    if (stateResult.isErr()) {
+        interaction.client.emit(Events.ModalSubmitInteractionDenied, stateResult.unwrapErr(), payload);
+        return;
+    }
+
+    // Parse the fields of the form:
+    const fieldsResult = component.form ? component.form.parse(interaction) : Result.ok({});
+    if (fieldsResult.isErr()) {
+        interaction.client.emit(Events.ModalSubmitInteractionDenied, fieldsResult.unwrapErr(), payload);
+        return;
+    }
 
-    interaction.client.emit(Events.ModalSubmitInteractionAccepted, payload);
+    // Run handler-specific preconditions last, so their side effects only apply once every other check passed:
+    const localResult = await container.preconditions.run(component.preconditions, {
+        type: 'modalComponent',
+        trigger: interaction,
+        handler: component,
+        logger,
+    });
+    if (localResult.isErr()) {
+        interaction.client.emit(Events.ModalSubmitInteractionDenied, localResult.unwrapErr(), payload);
+        return;
+    }
+
+    interaction.client.emit(Events.ModalSubmitInteractionAccepted, { ...payload, state: stateResult.unwrap(), fields: fieldsResult.unwrap() });
 }
 
-async function globalPreconditions(_payload: PreModalSubmitInteractionRunPayload): Promise<Result<unknown, UserError>> {
-    // const { interaction, component } = payload;
-
-    // if (Array.isArray(command.guilds)) {
-    //     if (!command.guilds.includes(interaction.guildId ?? '')) {
-    //         return Result.err(
-    //             new UserError({
-    //                 identifier: 'Preconditions.GuildOnly',
-    //                 message: 'This command can only be used in specific servers.',
-    //             }),
-    //         );
-    //     }
-    // }
-
-    return Result.ok(undefined);
+async function globalPreconditions(payload: PreModalSubmitInteractionRunPayload): Promise<Result<unknown, UserError>> {
+    const { interaction, component } = payload;
+
+    return _checkPermissionLevel(await _getInteractionPermissionLevel(interaction), component.permission, 'modal');
 }
@@ -1,10 +1,13 @@
 import { Result } from '@sapphire/result';
 
 import { UserError } from '../../../errors/UserError.js';
+import { _loadComponentState } from '../../../structures/componentState.js';
+import { container } from '../../../structures/container.js';
+import { _checkPermissionLevel, _getInteractionPermissionLevel } from '../../../structures/permissions.js';
 import { Events, type PreSelectMenuInteractionRunPayload } from '../../index.js';
 
 export async function onPreSelectMenuInteractionRun(payload: PreSelectMenuInteractionRunPayload) {
-    const { interaction, logger } = payload;
+    const { interaction, component, logger } = payload;
 
     logger.trace('PreSelectMenuInteractionRun');
 
@@ -15,29 +18,30 @@ export async function onPreSelectMenuInteractionRun(payload: PreSelectMenuIntera
         return;
     }
 
-    // // Run command-specific preconditions:
-    // const localResult = await command.preconditions.messageRun(message, command, payload as any);
-    // if (localResult.isErr()) {
-    //     message.client.emit(Events.TextCommandDenied, localResult.unwrapErr(), payload);
-    //     return;
-    // }
+    // Load the state attached to the custom ID:
+    const stateResult = await _loadComponentState(interaction.customId);
+    if (stateResult.isErr()) {
+        interaction.client.emit(Events.SelectMenuInteractionDenied, stateResult.unwrapErr(), payload);
+        return;
+    }
+
+    // Run handler-specific preconditions last, so their side effects only apply once every other check passed:
+    const localResult = await container.preconditions.run(component.preconditions, {
+        type: 'selectMenuComponent',
+        trigger: interaction,
+        handler: component,
+        logger,
+    });
+    if (localResult.isErr()) {
+        interaction.client.emit(Events.SelectMenuInteractionDenied, localResult.unwrapErr(), payload);
+        return;
+    }
 
-    interaction.client.emit(Events.SelectMenuInteractionAccepted, payload);
+    interaction.client.emit(Events.SelectMenuInteractionAccepted, { ...payload, state: stateResult.unwrap() });
 }
 
-async function globalPreconditions(_payload: PreSelectMenuInteractionRunPayload): Promise<Result<unknown, UserError>> {
-    // const { interaction, component } = payload;
-
-    // if (Array.isArray(command.guilds)) {
-    //     if (!command.guilds.includes(interaction.guildId ?? '')) {
-    //         return Result.err(
-    //             new UserError({
-    //                 identifier: 'Preconditions.GuildOnly',
-    //                 message: 'This command can only be used in specific servers.',
-    //             }),
-    //         );
-    //     }
-    // }
-
-    return Result.ok(undefined);
+async function globalPreconditions(payload: PreSelectMenuInteractionRunPayload): Promise<Result<unknown, UserError>> {
+    const { interaction, component } = payload;
+
+    return _checkPermissionLevel(await _getInteractionPermissionLevel(interaction), component.permission, 'select menu');
 }
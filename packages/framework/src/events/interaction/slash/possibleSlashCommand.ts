@@ -1,6 +1,7 @@
 import type { ClientEvents } from 'discord.js';
 
 import { container } from '../../../structures/index.js';
+import { _runInInvocationScope } from '../../../structures/scope.js';
 import { Events } from '../../index.js';
 
 export const onPossibleSlashCommand = ((interaction) => {
@@ -19,5 +20,7 @@ export const onPossibleSlashCommand = ((interaction) => {
         cmd: interaction.commandName,
     });
 
-    client.emit(Events.PreSlashCommandRun, { interaction, command, logger: cmdLogger });
+    _runInInvocationScope('slashCommand', interaction, command, cmdLogger, () =>
+        client.emit(Events.PreSlashCommandRun, { interaction, command, logger: cmdLogger }),
+    );
 }) satisfies (...args: ClientEvents[typeof Events.PossibleSlashCommand]) => void;
@@ -1,10 +1,12 @@
 import { Result } from '@sapphire/result';
 
 import { UserError } from '../../../errors/UserError.js';
+import { container } from '../../../structures/container.js';
+import { _checkPermissionLevel, _getInteractionPermissionLevel } from '../../../structures/permissions.js';
 import { Events, type PreSlashCommandRunPayload } from '../../index.js';
 
 export async function onPreSlashCommandRun(payload: PreSlashCommandRunPayload) {
-    const { interaction, logger } = payload;
+    const { interaction, command, logger } = payload;
 
     logger.trace('PreSlashCommandRun');
 
@@ -15,12 +17,17 @@ export async function onPreSlashCommandRun(payload: PreSlashCommandRunPayload) {
         return;
     }
 
-    // // Run command-specific preconditions:
-    // const localResult = await command.preconditions.messageRun(message, command, payload as any);
-    // if (localResult.isErr()) {
-    //     message.client.emit(Events.TextCommandDenied, localResult.unwrapErr(), payload);
-    //     return;
-    // }
+    // Run handler-specific preconditions:
+    const localResult = await container.preconditions.run(command.preconditions, {
+        type: 'slashCommand',
+        trigger: interaction,
+        handler: command,
+        logger,
+    });
+    if (localResult.isErr()) {
+        interaction.client.emit(Events.SlashCommandDenied, localResult.unwrapErr(), payload);
+        return;
+    }
 
     interaction.client.emit(Events.SlashCommandAccepted, payload);
 }
@@ -28,6 +35,9 @@ export async function onPreSlashCommandRun(payload: PreSlashCommandRunPayload) {
 async function globalPreconditions(payload: PreSlashCommandRunPayload): Promise<Result<unknown, UserError>> {
     const { interaction, command } = payload;
 
+    const permissionResult = _checkPermissionLevel(await _getInteractionPermissionLevel(interaction), command.permission);
+    if (permissionResult.isErr()) return permissionResult;
+
     if (Array.isArray(command.guilds)) {
         if (!command.guilds.includes(interaction.guildId ?? '')) {
             return Result.err(
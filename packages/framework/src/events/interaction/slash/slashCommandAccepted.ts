@@ -1,6 +1,10 @@
 import { Result } from '@sapphire/result';
 import { Stopwatch } from '@sapphire/stopwatch';
 
+import { _startAutoDefer } from '../../../structures/autoDefer.js';
+import { _createInteractiveContext } from '../../../structures/awaiters.js';
+import { PeridotClient } from '../../../structures/client.js';
+import { _createHandlerTimeout } from '../../../structures/timeouts.js';
 import { Events, type SlashCommandAcceptedPayload } from '../../index.js';
 
 export async function onSlashCommandAccepted(payload: SlashCommandAcceptedPayload) {
@@ -8,13 +12,19 @@ export async function onSlashCommandAccepted(payload: SlashCommandAcceptedPayloa
 
     logger.trace('SlashCommandAccepted');
 
+    const handlerTimeout = _createHandlerTimeout(command.timeout);
+    const ctx = { logger, signal: handlerTimeout.signal, ..._createInteractiveContext(interaction) };
+    const stopwatch = new Stopwatch();
+    const cancelAutoDefer = _startAutoDefer(interaction, command.autoDefer, logger);
+
     const result = await Result.fromAsync(async () => {
         interaction.client.emit(Events.SlashCommandRun, interaction, command, payload);
 
-        const stopwatch = new Stopwatch();
-        const result = await command.run(interaction, {
-            logger,
-        });
+        const result = await handlerTimeout.race(() =>
+            PeridotClient.plugins.runPreHandlerRunHooks({ type: 'slashCommand', trigger: interaction, handler: command, ctx }, () =>
+                command.run(interaction, ctx),
+            ),
+        );
         const { duration } = stopwatch.stop();
 
         interaction.client.emit(Events.SlashCommandSuccess, {
@@ -26,12 +36,31 @@ export async function onSlashCommandAccepted(payload: SlashCommandAcceptedPayloa
         return duration;
     });
 
-    result.inspectErr((error) =>
+    cancelAutoDefer();
+
+    // Handle errors with command.onError if it exists, otherwise emit error event
+    result.inspectErr(async (error) => {
+        const { duration } = stopwatch.stop();
+
+        if (command.onError) {
+            try {
+                await command.onError(error, ctx);
+            } catch (handlerError) {
+                // If the error handler throws, emit that as the error instead
+                interaction.client.emit(Events.SlashCommandError, handlerError, {
+                    ...payload,
+                    duration,
+                });
+            }
+            return;
+        }
+
+        // No custom error handler, emit the standard error event
         interaction.client.emit(Events.SlashCommandError, error, {
             ...payload,
-            duration: -1,
-        }),
-    );
+            duration,
+        });
+    });
 
     interaction.client.emit(Events.SlashCommandFinish, interaction, command, {
         ...payload,
@@ -2,12 +2,12 @@ import { Result } from '@sapphire/result';
 
 import { UserError } from '../../errors/UserError.js';
 import { container } from '../../structures/container.js';
-import { getPermissionLevel, PermissionLevel } from '../../structures/permissions.js';
+import { _checkPermissionLevel, getPermissionLevel, PermissionLevel } from '../../structures/permissions.js';
 import type { PreTextCommandRunPayload } from '../index.js';
 import { Events } from '../index.js';
 
 export async function preTextCommandRun(payload: PreTextCommandRunPayload) {
-    const { message, logger } = payload;
+    const { message, command, logger } = payload;
 
     logger.trace('PreTextCommandRun');
 
@@ -18,12 +18,12 @@ export async function preTextCommandRun(payload: PreTextCommandRunPayload) {
         return;
     }
 
-    // // Run command-specific preconditions:
-    // const localResult = await command.preconditions.messageRun(message, command, payload as any);
-    // if (localResult.isErr()) {
-    //     message.client.emit(Events.TextCommandDenied, localResult.unwrapErr(), payload);
-    //     return;
-    // }
+    // Run handler-specific preconditions:
+    const localResult = await container.preconditions.run(command.preconditions, { type: 'textCommand', trigger: message, handler: command, logger });
+    if (localResult.isErr()) {
+        message.client.emit(Events.TextCommandDenied, localResult.unwrapErr(), payload);
+        return;
+    }
 
     message.client.emit(Events.TextCommandAccepted, payload);
 }
@@ -41,16 +41,10 @@ async function globalPreconditions(payload: PreTextCommandRunPayload): Promise<R
     }
 
     const member = await message.member?.fetch();
-    const memberPermissionLevel = getPermissionLevel(member ?? null, container.permissionConfig);
+    const memberPermissionLevel = await getPermissionLevel(member ?? message.author);
 
-    if (memberPermissionLevel < command.data.permission) {
-        return Result.err(
-            new UserError({
-                identifier: 'Preconditions.PermissionLevel',
-                message: `You need to be at least level ${PermissionLevel[command.data.permission]} to use this command.`,
-            }),
-        );
-    }
+    const permissionResult = _checkPermissionLevel(memberPermissionLevel, command.data.permission);
+    if (permissionResult.isErr()) return permissionResult;
 
     if (Array.isArray(command.data.guilds)) {
         if (!command.data.guilds.includes(message.guildId ?? '') && memberPermissionLevel < PermissionLevel.ADMINISTRATOR) {
@@ -1,5 +1,6 @@
 import type { TextCommandMessage } from '../../handlers/TextCommand.js';
 import { container } from '../../structures/container.js';
+import { _runInInvocationScope } from '../../structures/scope.js';
 import { Events } from '../index.js';
 
 export function onPrefixedMessage(message: TextCommandMessage, prefix: string | RegExp) {
@@ -35,12 +36,14 @@ export function onPrefixedMessage(message: TextCommandMessage, prefix: string |
         cmd: commandName,
     });
 
-    client.emit(Events.PreTextCommandRun, {
-        message,
-        command,
-        parameters,
-        logger: cmdLogger,
-    });
+    _runInInvocationScope('textCommand', message, command, cmdLogger, () =>
+        client.emit(Events.PreTextCommandRun, {
+            message,
+            command,
+            parameters,
+            logger: cmdLogger,
+        }),
+    );
 }
 
 function getCommandPrefix(content: string, prefix: string | RegExp): string {
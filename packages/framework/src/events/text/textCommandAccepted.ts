@@ -6,6 +6,10 @@ import { Stopwatch } from '@sapphire/stopwatch';
 import { FlagUnorderedStrategy } from '../../arguments/FlagStrategy.js';
 import { Args } from '../../arguments/Parser.js';
 import type { TextCommandMessage } from '../../handlers/TextCommand.js';
+import { _createInteractiveContext } from '../../structures/awaiters.js';
+import { PeridotClient } from '../../structures/client.js';
+import { _createHandlerTimeout } from '../../structures/timeouts.js';
+import { _shouldType, _startTyping } from '../../structures/typing.js';
 import type { TextCommandAcceptedPayload } from '../index.js';
 import { Events } from '../index.js';
 
@@ -15,18 +19,24 @@ export async function onTextCommandAccepted(payload: TextCommandAcceptedPayload)
 
     logger.trace('TextCommandAccepted');
 
+    const handlerTimeout = _createHandlerTimeout(command.timeout);
+    const ctx = { args, logger, signal: handlerTimeout.signal, ..._createInteractiveContext(message) };
+    const stopwatch = new Stopwatch();
+    const stopTyping = _shouldType(command)
+        ? _startTyping(message, (error) => message.client.emit(Events.TextCommandTypingError, error, { ...payload, args }))
+        : null;
+
     const result = await Result.fromAsync(async () => {
         message.client.emit(Events.TextCommandRun, message, command, {
             ...payload,
             args,
         });
 
-        const stopwatch = new Stopwatch();
-
-        const result = await command.run(message, {
-            args,
-            logger,
-        });
+        const result = await handlerTimeout.race(() =>
+            PeridotClient.plugins.runPreHandlerRunHooks({ type: 'textCommand', trigger: message, handler: command, ctx }, () =>
+                command.run(message, ctx),
+            ),
+        );
         const { duration } = stopwatch.stop();
 
         message.client.emit(Events.TextCommandSuccess, {
@@ -39,17 +49,21 @@ export async function onTextCommandAccepted(payload: TextCommandAcceptedPayload)
         return duration;
     });
 
+    stopTyping?.();
+
     // Handle errors with command.onError if it exists, otherwise emit error event
     result.inspectErr(async (error) => {
+        const { duration } = stopwatch.stop();
+
         if (command.onError) {
             try {
-                await command.onError(error, { args, logger });
+                await command.onError(error, ctx);
             } catch (handlerError) {
                 // If the error handler throws, emit that as the error instead
                 message.client.emit(Events.TextCommandError, handlerError, {
                     ...payload,
                     args,
-                    duration: -1,
+                    duration,
                 });
             }
             return;
@@ -59,7 +73,7 @@ export async function onTextCommandAccepted(payload: TextCommandAcceptedPayload)
         message.client.emit(Events.TextCommandError, error, {
             ...payload,
             args,
-            duration: -1,
+            duration,
         });
     });
 
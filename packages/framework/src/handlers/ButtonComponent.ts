@@ -1,5 +1,10 @@
 import type { ButtonInteraction } from 'discord.js';
 
+import type { AutoDeferConfig } from '../structures/autoDefer.js';
+import type { InteractiveContext } from '../structures/awaiters.js';
+import type { CustomIdMatcher, CustomIdParams } from '../structures/customIds.js';
+import type { PermissionLevel } from '../structures/permissions.js';
+import type { PreconditionEntry } from '../structures/preconditions.js';
 import type { CommonContext } from './index.js';
 
 /**
@@ -8,7 +13,7 @@ import type { CommonContext } from './index.js';
  * @category Components
  * @template T - Additional context properties specific to this button handler
  */
-export type ButtonComponentContext<T extends Record<string, unknown> = Record<string, unknown>> = CommonContext & T;
+export type ButtonComponentContext<T extends Record<string, unknown> = Record<string, unknown>> = CommonContext & InteractiveContext & T;
 
 /**
  * Function signature for button component handlers.
@@ -32,6 +37,8 @@ export type ButtonComponentRun<T extends Record<string, unknown> = Record<string
  * Represents a button component handler.
  * @since 0.2.6
  * @category Components
+ * @template Params - The parameters of the custom ID, when matched by a route
+ * @template State - The state attached to the custom ID, see {@link ComponentStateManager.attach}
  * @example
  * ```typescript
  * const button: ButtonComponent = {
@@ -44,18 +51,60 @@ export type ButtonComponentRun<T extends Record<string, unknown> = Record<string
  * @requires Discord.js v14 or higher
  * @see {@link https://discord.js.org/#/docs/discord.js/main/class/ButtonInteraction}
  */
-export type ButtonComponent = {
+export type ButtonComponent<Params extends CustomIdParams = CustomIdParams, State = unknown> = {
     /**
-     * The custom ID of the button or a regex pattern to match against custom IDs.
-     * Can be a string for exact matches or a RegExp for pattern matching.
+     * The custom ID of the button, a regex pattern or a route to match against custom IDs.
+     * Can be a string for exact matches, a RegExp for pattern matching, or a {@link CustomIdRoute} to parse parameters into `ctx.params`.
      * @example 'confirm-button'
-     * @example /^delete-\d+$/
+     * @example /^delete-(?<id>\d+)$/
+     * @example createCustomIdRoute('delete:{id:number}')
      */
-    customId: string | RegExp;
+    customId: CustomIdMatcher<Params>;
+
+    /**
+     * The permission level required to use this button.
+     * @see {@link PermissionLevel}
+     * @default PermissionLevel.REGULAR
+     */
+    permission?: PermissionLevel;
+
+    /**
+     * Preconditions that must pass before the button handler runs, checked in order.
+     * @see {@link PreconditionEntry}
+     */
+    preconditions?: PreconditionEntry[];
+
+    /**
+     * Whether to defer the interaction if the button handler hasn't responded within a threshold.
+     * @default The `autoDefer` client option
+     * @see {@link AutoDeferOptions}
+     */
+    autoDefer?: AutoDeferConfig;
+
+    /**
+     * The time in milliseconds the button handler has to finish, after which `ctx.signal` is aborted and it fails with a timeout error.
+     * @default No timeout
+     * @see {@link HandlerTimeout}
+     */
+    timeout?: number;
 
     /**
      * The function to execute when the button is clicked.
      * @see {@link ButtonComponentRun}
      */
-    run: ButtonComponentRun;
+    run(
+        interaction: ButtonInteraction,
+        ctx: ButtonComponentContext<{ params: Params; state: State | undefined; stateKey: string | null }>,
+    ): void | Promise<void>;
+
+    /**
+     * A function to handle errors that occur while handling the button.
+     * Errors that aren't handled are emitted as {@link Events.ButtonInteractionError}.
+     * @param error The error that occurred
+     * @param ctx The button context
+     */
+    onError?(
+        error: unknown,
+        ctx: ButtonComponentContext<{ params: Params; state: State | undefined; stateKey: string | null }>,
+    ): void | Promise<void>;
 };
@@ -51,4 +51,12 @@ export type ClientEvent<T extends keyof ClientEvents> = {
      * @see {@link ClientEventRun}
      */
     run: ClientEventRun<T>;
+
+    /**
+     * A function to handle errors thrown by the event handler.
+     * Errors that aren't handled are emitted as {@link Events.ClientEventError}.
+     * @param error The error that occurred
+     * @param args The arguments of the event
+     */
+    onError?: (error: unknown, ...args: ClientEvents[T]) => Promise<void> | void;
 };
@@ -7,6 +7,10 @@ import type {
     UserContextMenuCommandInteraction,
 } from 'discord.js';
 
+import type { AutoDeferConfig } from '../structures/autoDefer.js';
+import type { InteractiveContext } from '../structures/awaiters.js';
+import type { PermissionLevel } from '../structures/permissions.js';
+import type { PreconditionEntry } from '../structures/preconditions.js';
 import type { CommonContext } from './index.js';
 
 /**
@@ -15,7 +19,7 @@ import type { CommonContext } from './index.js';
  * @category Commands
  * @template T - Additional context properties specific to this context menu command
  */
-export type ContextMenuCommandContext<T extends Record<string, unknown> = Record<string, unknown>> = CommonContext & T;
+export type ContextMenuCommandContext<T extends Record<string, unknown> = Record<string, unknown>> = CommonContext & InteractiveContext & T;
 
 /**
  * Represents a context menu command handler.
@@ -75,11 +79,46 @@ export type ContextMenuCommand =
            */
           guilds: Snowflake[] | 'global';
 
+          /**
+           * The permission level required to use this command.
+           * @see {@link PermissionLevel}
+           * @default PermissionLevel.REGULAR
+           */
+          permission?: PermissionLevel;
+
+          /**
+           * Preconditions that must pass before the command runs, checked in order.
+           * @see {@link PreconditionEntry}
+           */
+          preconditions?: PreconditionEntry[];
+
+          /**
+           * Whether to defer the interaction if the command handler hasn't responded within a threshold.
+           * @default The `autoDefer` client option
+           * @see {@link AutoDeferOptions}
+           */
+          autoDefer?: AutoDeferConfig;
+
+          /**
+           * The time in milliseconds the command handler has to finish, after which `ctx.signal` is aborted and it fails with a timeout error.
+           * @default No timeout
+           * @see {@link HandlerTimeout}
+           */
+          timeout?: number;
+
           /**
            * The function to execute when the user context menu command is used.
            * @see {@link UserContextMenuCommandRun}
            */
           run: UserContextMenuCommandRun;
+
+          /**
+           * A function to handle errors that occur during the command execution.
+           * Errors that aren't handled are emitted as {@link Events.ContextMenuCommandError}.
+           * @param error The error that occurred
+           * @param ctx The command context
+           */
+          onError?: (error: unknown, ctx: ContextMenuCommandContext) => Promise<void> | void;
       }
     | {
           /**
@@ -100,11 +139,46 @@ export type ContextMenuCommand =
            */
           guilds: Snowflake[] | 'global';
 
+          /**
+           * The permission level required to use this command.
+           * @see {@link PermissionLevel}
+           * @default PermissionLevel.REGULAR
+           */
+          permission?: PermissionLevel;
+
+          /**
+           * Preconditions that must pass before the command runs, checked in order.
+           * @see {@link PreconditionEntry}
+           */
+          preconditions?: PreconditionEntry[];
+
+          /**
+           * Whether to defer the interaction if the command handler hasn't responded within a threshold.
+           * @default The `autoDefer` client option
+           * @see {@link AutoDeferOptions}
+           */
+          autoDefer?: AutoDeferConfig;
+
+          /**
+           * The time in milliseconds the command handler has to finish, after which `ctx.signal` is aborted and it fails with a timeout error.
+           * @default No timeout
+           * @see {@link HandlerTimeout}
+           */
+          timeout?: number;
+
           /**
            * The function to execute when the message context menu command is used.
            * @see {@link MessageContextMenuCommandRun}
            */
           run: MessageContextMenuCommandRun;
+
+          /**
+           * A function to handle errors that occur during the command execution.
+           * Errors that aren't handled are emitted as {@link Events.ContextMenuCommandError}.
+           * @param error The error that occurred
+           * @param ctx The command context
+           */
+          onError?: (error: unknown, ctx: ContextMenuCommandContext) => Promise<void> | void;
       };
 
 /**
@@ -0,0 +1,514 @@
+import type { Awaitable } from '@sapphire/utilities';
+import {
+    type ApplicationCommandOptionData,
+    ApplicationCommandOptionType,
+    type BaseMessageOptions,
+    type ChatInputCommandInteraction,
+    type Guild,
+    type GuildBasedChannel,
+    type GuildMember,
+    InteractionContextType,
+    type Role,
+    type Snowflake,
+    type User,
+} from 'discord.js';
+
+import type { FlagStrategyOptions } from '../arguments/FlagStrategy.js';
+import type { Args, ArgType } from '../arguments/Parser.js';
+import { argumentResolvers } from '../arguments/resolvers/index.js';
+import { ArgumentError } from '../errors/ArgumentError.js';
+import { Identifiers } from '../errors/Identifiers.js';
+import type { AutoDeferConfig } from '../structures/autoDefer.js';
+import type { InteractiveContext } from '../structures/awaiters.js';
+import { PermissionLevel } from '../structures/permissions.js';
+import type { PreconditionEntry } from '../structures/preconditions.js';
+import type { CommonContext } from './index.js';
+import type { SlashCommand } from './SlashCommand.js';
+import { _parseArguments, type SubCommandArgument, type TextCommand, type TextCommandMessage } from './TextCommand.js';
+
+/**
+ * The types of the values of hybrid command options, keyed by option type.
+ * @since 0.4.0
+ * @category Commands
+ */
+export interface HybridOptionTypes {
+    string: string;
+    integer: number;
+    number: number;
+    boolean: boolean;
+    user: User;
+    role: Role;
+    channel: GuildBasedChannel;
+}
+
+/**
+ * An option of a hybrid command, declared once for both the slash command and the text command.
+ * Text commands take the options as positional arguments, in the order they are declared.
+ * A `string` option declared last takes the rest of the message, other `string` options take a single word unless quoted.
+ * @since 0.4.0
+ * @category Commands
+ * @template TType - The type of the option
+ */
+export interface HybridCommandOption<TType extends keyof HybridOptionTypes = keyof HybridOptionTypes> {
+    /**
+     * The name of the option.
+     * @example 'target'
+     */
+    name: string;
+
+    /**
+     * The type of the option.
+     * @example 'user'
+     */
+    type: TType;
+
+    /**
+     * A description of what the option is for.
+     */
+    description: string;
+
+    /**
+     * Whether this option must be provided.
+     * @default true
+     */
+    required?: boolean;
+
+    /**
+     * The values the option is restricted to, only used by `string`, `integer` and `number` options.
+     */
+    choices?: { name: string; value: HybridOptionTypes[TType] }[];
+
+    /**
+     * The minimum value of `integer` and `number` options, or the minimum length of `string` options.
+     */
+    min?: number;
+
+    /**
+     * The maximum value of `integer` and `number` options, or the maximum length of `string` options.
+     */
+    max?: number;
+}
+
+/**
+ * The values of the options of a hybrid command, keyed by option name.
+ * @since 0.4.0
+ * @category Commands
+ * @template TOptions - The declared options
+ */
+export type HybridOptionValues<TOptions extends readonly HybridCommandOption[]> = {
+    [TOption in TOptions[number] as TOption['name']]: TOption extends { required: false }
+        ? HybridOptionTypes[TOption['type']] | undefined
+        : HybridOptionTypes[TOption['type']];
+};
+
+/**
+ * The content of a reply of a hybrid command.
+ * `ephemeral` is only used by slash commands.
+ * @since 0.4.0
+ * @category Commands
+ */
+export type HybridReplyOptions = string | (BaseMessageOptions & { ephemeral?: boolean });
+
+/**
+ * Context object passed to hybrid command handlers, the same for both text and slash invocations.
+ * Use `source` to access the message or the interaction.
+ * @since 0.4.0
+ * @category Commands
+ * @template TOptions - The declared options
+ */
+export type HybridCommandContext<TOptions extends readonly HybridCommandOption[] = readonly HybridCommandOption[]> = CommonContext &
+    InteractiveContext & {
+        /**
+         * The resolved values of the options.
+         */
+        options: HybridOptionValues<TOptions>;
+
+        /**
+         * The user that invoked the command.
+         */
+        user: User;
+
+        /**
+         * The member that invoked the command, `null` outside of cached guilds.
+         */
+        member: GuildMember | null;
+
+        /**
+         * The guild the command was invoked in, `null` outside of cached guilds.
+         */
+        guild: Guild | null;
+
+        /**
+         * Replies to the invocation.
+         * Slash commands follow up if the interaction was already replied to or deferred.
+         * @param options - The content of the reply
+         */
+        reply(options: HybridReplyOptions): Promise<void>;
+    } & (
+        | {
+              /** The command was invoked as a text command */
+              source: 'text';
+              /** The message that invoked the command */
+              message: TextCommandMessage;
+              /** The arguments of the message, after the options */
+              args: Args;
+          }
+        | {
+              /** The command was invoked as a slash command */
+              source: 'slash';
+              /** The interaction that invoked the command */
+              interaction: ChatInputCommandInteraction;
+          }
+    );
+
+/**
+ * Represents a hybrid command, a command that can be used both as a text command and as a slash command.
+ * Use {@link createHybridCommand} to create the text and slash command handlers.
+ * @since 0.4.0
+ * @category Commands
+ * @template TOptions - The declared options
+ */
+export interface HybridCommand<TOptions extends readonly HybridCommandOption[] = readonly HybridCommandOption[]> {
+    /**
+     * The name of the command, used for both the text and the slash command.
+     * @example 'ban'
+     */
+    name: string;
+
+    /**
+     * A brief description of what the command does.
+     */
+    description: string;
+
+    /**
+     * Alternative names of the text command.
+     */
+    aliases?: string[];
+
+    /**
+     * The options of the command.
+     */
+    options?: TOptions;
+
+    /**
+     * Whether the command can be used in DMs.
+     * @default false
+     */
+    dm?: boolean;
+
+    /**
+     * Configuration for parsing the flags of the text command.
+     * @see {@link FlagStrategyOptions}
+     */
+    strategy?: FlagStrategyOptions;
+
+    /**
+     * Specifies which guilds this command is available in.
+     * - 'global': Available in all guilds
+     * - Snowflake[]: Only available in the specified guilds
+     */
+    guilds: Snowflake[] | 'global';
+
+    /**
+     * The permission level required to use this command.
+     * @see {@link PermissionLevel}
+     * @default PermissionLevel.REGULAR
+     */
+    permission?: PermissionLevel;
+
+    /**
+     * Preconditions that must pass before the command runs, checked in order.
+     * @see {@link PreconditionEntry}
+     */
+    preconditions?: PreconditionEntry[];
+
+    /**
+     * Whether to show the typing indicator while the text command runs.
+     * @default The `typing` client option
+     */
+    typing?: boolean;
+
+    /**
+     * Whether to defer the interaction if the slash command hasn't responded within a threshold.
+     * @default The `autoDefer` client option
+     * @see {@link AutoDeferOptions}
+     */
+    autoDefer?: AutoDeferConfig;
+
+    /**
+     * The time in milliseconds the command has to finish, after which `ctx.signal` is aborted and it fails with a timeout error.
+     * @default No timeout
+     * @see {@link HandlerTimeout}
+     */
+    timeout?: number;
+
+    /**
+     * The function to execute when the command is used, either as a text or a slash command.
+     * @param ctx - The command context
+     */
+    run(ctx: HybridCommandContext<TOptions>): Awaitable<void>;
+
+    /**
+     * A function to handle errors that occur during the command execution, either as a text or a slash command.
+     * Errors that aren't handled, and errors resolving the options, are emitted as the error event of the text or slash command.
+     * @param error The error that occurred
+     * @param ctx The command context
+     */
+    onError?(error: unknown, ctx: HybridCommandContext<TOptions>): Awaitable<void>;
+}
+
+/**
+ * The handlers created from a hybrid command, to be listed in a handler export.
+ * @since 0.4.0
+ * @category Commands
+ */
+export interface HybridCommandHandlers {
+    /** The text command */
+    textCommand: TextCommand;
+    /** The slash command */
+    slashCommand: SlashCommand;
+}
+
+const SlashOptionTypes = {
+    string: ApplicationCommandOptionType.String,
+    integer: ApplicationCommandOptionType.Integer,
+    number: ApplicationCommandOptionType.Number,
+    boolean: ApplicationCommandOptionType.Boolean,
+    user: ApplicationCommandOptionType.User,
+    role: ApplicationCommandOptionType.Role,
+    channel: ApplicationCommandOptionType.Channel,
+} as const satisfies Record<keyof HybridOptionTypes, ApplicationCommandOptionType>;
+
+const TextArgumentTypes = {
+    string: 'string',
+    integer: 'integer',
+    number: 'number',
+    boolean: 'boolean',
+    user: 'user',
+    role: 'role',
+    channel: 'guildChannel',
+} as const satisfies Record<keyof HybridOptionTypes, keyof ArgType>;
+
+/**
+ * Converts a hybrid command option to a slash command option.
+ */
+const toSlashOption = (option: HybridCommandOption): ApplicationCommandOptionData => {
+    const { name, description, required = true, choices, min, max } = option;
+
+    switch (option.type) {
+        case 'string':
+            return {
+                type: SlashOptionTypes.string,
+                name,
+                description,
+                required,
+                choices: choices as { name: string; value: string }[],
+                minLength: min,
+                maxLength: max,
+            };
+        case 'integer':
+        case 'number':
+            return {
+                type: SlashOptionTypes[option.type],
+                name,
+                description,
+                required,
+                choices: choices as { name: string; value: number }[],
+                minValue: min,
+                maxValue: max,
+            };
+        default:
+            return { type: SlashOptionTypes[option.type], name, description, required };
+    }
+};
+
+/**
+ * Converts a hybrid command option to a text command argument.
+ * Options with choices of type `string` are parsed as an `enum` argument, while the last `string` option consumes the rest of the message.
+ */
+const toTextArgument = (option: HybridCommandOption, index: number, options: readonly HybridCommandOption[]): SubCommandArgument => {
+    const { name, description, required = true, choices, min, max } = option;
+
+    if (option.type === 'string' && choices) {
+        return { name, description, required, type: 'enum', options: { enum: choices.map((choice) => String(choice.value)), caseInsensitive: true } };
+    }
+
+    const rest = option.type === 'string' && index === options.length - 1;
+    return { name, description, required, type: TextArgumentTypes[option.type], options: { minimum: min, maximum: max }, rest };
+};
+
+/**
+ * Parses the options of a text invocation.
+ * @throws {ArgumentError} If an option is missing or fails to resolve, or a number is not one of the choices
+ */
+const parseTextOptions = async (options: readonly HybridCommandOption[], args: Args): Promise<Record<string, unknown>> => {
+    const parsed: Record<string, unknown> = await _parseArguments(options.map(toTextArgument), args);
+
+    for (const { name, type, choices } of options) {
+        const value = parsed[name];
+        if (type === 'string' && value !== undefined && choices) {
+            // The enum resolver keeps the case of the input, use the value of the matching choice
+            parsed[name] = choices.find((choice) => String(choice.value).toLowerCase() === String(value).toLowerCase())?.value;
+        } else if (value !== undefined && choices && !choices.some((choice) => choice.value === value)) {
+            throw new ArgumentError({
+                argument: argumentResolvers[TextArgumentTypes[type]],
+                parameter: String(value),
+                identifier: Identifiers.ArgumentEnumError,
+                message: `Invalid \`${name}\` argument: The argument must have one of the following values: ${choices.map((choice) => choice.value).join(', ')}`,
+                context: { name },
+            });
+        }
+    }
+
+    return parsed;
+};
+
+/**
+ * Reads the options of a slash invocation.
+ * Role and channel options can only be resolved in cached guilds.
+ */
+const readSlashOptions = (options: readonly HybridCommandOption[], interaction: ChatInputCommandInteraction): Record<string, unknown> => {
+    const values: Record<string, unknown> = {};
+
+    for (const { name, type } of options) {
+        const option = interaction.options.get(name);
+        if (!option) continue;
+
+        switch (type) {
+            case 'user':
+                values[name] = option.user;
+                break;
+            case 'role':
+                values[name] = interaction.inCachedGuild() ? (interaction.options.getRole(name) ?? undefined) : undefined;
+                break;
+            case 'channel':
+                values[name] = interaction.inCachedGuild() ? (interaction.options.getChannel(name) ?? undefined) : undefined;
+                break;
+            default:
+                values[name] = option.value;
+        }
+    }
+
+    return values;
+};
+
+/**
+ * Runs a hybrid command, handing its errors to its `onError` hook if it has one.
+ */
+const runHybridCommand = async <TOptions extends readonly HybridCommandOption[]>(
+    command: HybridCommand<TOptions>,
+    ctx: HybridCommandContext<TOptions>,
+) => {
+    try {
+        await command.run(ctx);
+    } catch (error) {
+        if (!command.onError) throw error;
+        await command.onError(error, ctx);
+    }
+};
+
+/**
+ * Creates a text command and a slash command from a single hybrid command definition.
+ * The options are declared once: they are turned into slash command options, and parsed as positional arguments by the text command.
+ * Each invocation goes through the chain of its own handler type, emitting the events of text or slash commands.
+ * @since 0.4.0
+ * @category Commands
+ * @param command - The hybrid command
+ * @returns The text and slash command handlers
+ * @example
+ * ```typescript
+ * const { textCommand, slashCommand } = createHybridCommand({
+ *   name: 'echo',
+ *   description: 'Repeats your input',
+ *   guilds: 'global',
+ *   options: [{ name: 'input', type: 'string', description: 'The text to repeat' }],
+ *   async run(ctx) {
+ *     await ctx.reply(ctx.options.input);
+ *   },
+ * });
+ *
+ * export default createHandlerExport({
+ *   textCommands: [textCommand],
+ *   slashCommands: [slashCommand],
+ * });
+ * ```
+ */
+export const createHybridCommand = <const TOptions extends readonly HybridCommandOption[]>(
+    command: HybridCommand<TOptions>,
+): HybridCommandHandlers => {
+    const {
+        name,
+        description,
+        aliases,
+        dm = false,
+        strategy,
+        guilds,
+        permission = PermissionLevel.REGULAR,
+        preconditions,
+        typing,
+        autoDefer,
+        timeout,
+    } = command;
+    const options: readonly HybridCommandOption[] = command.options ?? [];
+
+    const textCommand: TextCommand = {
+        data: { name, description, aliases, dm, typing, strategy, guilds, permission },
+        preconditions,
+        timeout,
+        async run(message, ctx) {
+            const values = await parseTextOptions(options, ctx.args);
+
+            await runHybridCommand(command, {
+                // Keep the fields added to the context by middleware
+                ...ctx,
+                options: values as HybridOptionValues<TOptions>,
+                user: message.author,
+                member: message.member,
+                guild: message.guild,
+                async reply(reply) {
+                    if (typeof reply === 'string') {
+                        await message.reply(reply);
+                        return;
+                    }
+
+                    const { ephemeral: _ephemeral, ...rest } = reply;
+                    await message.reply(rest);
+                },
+                source: 'text',
+                message,
+            });
+        },
+    };
+
+    const slashCommand: SlashCommand = {
+        data: {
+            name,
+            description,
+            options: options.map(toSlashOption),
+            contexts: dm ? [InteractionContextType.Guild, InteractionContextType.BotDM] : [InteractionContextType.Guild],
+        },
+        guilds,
+        permission,
+        preconditions,
+        autoDefer,
+        timeout,
+        async run(interaction, ctx) {
+            await runHybridCommand(command, {
+                ...ctx,
+                options: readSlashOptions(options, interaction) as HybridOptionValues<TOptions>,
+                user: interaction.user,
+                member: interaction.inCachedGuild() ? interaction.member : null,
+                guild: interaction.guild,
+                async reply(reply) {
+                    const payload = typeof reply === 'string' ? { content: reply } : reply;
+                    if (interaction.replied || interaction.deferred) await interaction.followUp(payload);
+                    else await interaction.reply(payload);
+                },
+                source: 'slash',
+                interaction,
+            });
+        },
+    };
+
+    return { textCommand, slashCommand };
+};
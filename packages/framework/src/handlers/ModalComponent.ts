@@ -1,5 +1,11 @@
 import type { ModalSubmitInteraction } from 'discord.js';
 
+import type { AutoDeferConfig } from '../structures/autoDefer.js';
+import type { InteractiveContext } from '../structures/awaiters.js';
+import type { CustomIdMatcher, CustomIdParams } from '../structures/customIds.js';
+import type { ModalForm, ModalFormValues } from '../structures/modalForms.js';
+import type { PermissionLevel } from '../structures/permissions.js';
+import type { PreconditionEntry } from '../structures/preconditions.js';
 import type { CommonContext } from './index.js';
 
 /**
@@ -8,7 +14,7 @@ import type { CommonContext } from './index.js';
  * @category Components
  * @template T - Additional context properties specific to this modal handler
  */
-export type ModalComponentContext<T extends Record<string, unknown> = Record<string, unknown>> = CommonContext & T;
+export type ModalComponentContext<T extends Record<string, unknown> = Record<string, unknown>> = CommonContext & InteractiveContext & T;
 
 /**
  * Function signature for modal component handlers.
@@ -35,6 +41,9 @@ export type ModalComponentRun<T extends Record<string, unknown> = Record<string,
  * Represents a modal component handler.
  * @since 0.2.6
  * @category Components
+ * @template Params - The parameters of the custom ID, when matched by a route
+ * @template State - The state attached to the custom ID, see {@link ComponentStateManager.attach}
+ * @template Form - The form parsing the submission into `ctx.fields`, see {@link ModalForm}
  * @example
  * ```typescript
  * const modal: ModalComponent = {
@@ -49,19 +58,68 @@ export type ModalComponentRun<T extends Record<string, unknown> = Record<string,
  * @requires Discord.js v14 or higher
  * @see {@link https://discord.js.org/#/docs/discord.js/main/class/ModalSubmitInteraction}
  */
-export type ModalComponent = {
+export type ModalComponent<Params extends CustomIdParams = CustomIdParams, State = unknown, Form extends ModalForm = ModalForm> = {
     /**
-     * The custom ID of the modal or a regex pattern to match against custom IDs.
-     * Can be a string for exact matches or a RegExp for pattern matching.
+     * The custom ID of the modal, a regex pattern or a route to match against custom IDs.
+     * Can be a string for exact matches, a RegExp for pattern matching, or a {@link CustomIdRoute} to parse parameters into `ctx.params`.
      * @example 'feedback-form'
-     * @example /^edit-profile-\d+$/
+     * @example /^edit-profile-(?<userId>\d+)$/
+     * @example createCustomIdRoute('edit-profile:{userId}')
      */
-    customId: string | RegExp;
+    customId: CustomIdMatcher<Params>;
+
+    /**
+     * The permission level required to use this modal.
+     * @see {@link PermissionLevel}
+     * @default PermissionLevel.REGULAR
+     */
+    permission?: PermissionLevel;
+
+    /**
+     * Preconditions that must pass before the modal handler runs, checked in order.
+     * @see {@link PreconditionEntry}
+     */
+    preconditions?: PreconditionEntry[];
+
+    /**
+     * Whether to defer the interaction if the modal handler hasn't responded within a threshold.
+     * @default The `autoDefer` client option
+     * @see {@link AutoDeferOptions}
+     */
+    autoDefer?: AutoDeferConfig;
+
+    /**
+     * The time in milliseconds the modal handler has to finish, after which `ctx.signal` is aborted and it fails with a timeout error.
+     * @default No timeout
+     * @see {@link HandlerTimeout}
+     */
+    timeout?: number;
+
+    /**
+     * The form of the modal, parsing the submission into `ctx.fields` before the handler runs.
+     * Invalid submissions are denied with {@link Identifiers.ModalFormInvalid}, and the user can reopen the modal filled with their answers.
+     * @see {@link createModalForm}
+     */
+    form?: Form;
 
     /**
      * The function to execute when the modal is submitted.
      * @returns A boolean indicating whether the modal submission was handled successfully
      * @see {@link ModalComponentRun}
      */
-    run: ModalComponentRun;
+    run(
+        interaction: ModalSubmitInteraction,
+        ctx: ModalComponentContext<{ params: Params; state: State | undefined; stateKey: string | null; fields: ModalFormValues<Form> }>,
+    ): boolean | Promise<boolean>;
+
+    /**
+     * A function to handle errors that occur while handling the submission.
+     * Errors that aren't handled are emitted as {@link Events.ModalSubmitInteractionError}.
+     * @param error The error that occurred
+     * @param ctx The modal context
+     */
+    onError?(
+        error: unknown,
+        ctx: ModalComponentContext<{ params: Params; state: State | undefined; stateKey: string | null; fields: ModalFormValues<Form> }>,
+    ): void | Promise<void>;
 };
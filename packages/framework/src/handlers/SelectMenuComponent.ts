@@ -1,5 +1,10 @@
 import type { AnySelectMenuInteraction, SelectMenuType } from 'discord.js';
 
+import type { AutoDeferConfig } from '../structures/autoDefer.js';
+import type { InteractiveContext } from '../structures/awaiters.js';
+import type { CustomIdMatcher, CustomIdParams } from '../structures/customIds.js';
+import type { PermissionLevel } from '../structures/permissions.js';
+import type { PreconditionEntry } from '../structures/preconditions.js';
 import type { CommonContext } from './index.js';
 
 /**
@@ -8,7 +13,7 @@ import type { CommonContext } from './index.js';
  * @category Components
  * @template T - Additional context properties specific to this select menu handler
  */
-export type SelectMenuComponentContext<T extends Record<string, unknown> = Record<string, unknown>> = CommonContext & T;
+export type SelectMenuComponentContext<T extends Record<string, unknown> = Record<string, unknown>> = CommonContext & InteractiveContext & T;
 
 /**
  * Function signature for select menu component handlers.
@@ -35,6 +40,8 @@ export type SelectMenuComponentRun<T extends SelectMenuType, C extends Record<st
  * @since 0.2.6
  * @category Components
  * @template T - The type of select menu (String, User, Role, etc.)
+ * @template Params - The parameters of the custom ID, when matched by a route
+ * @template State - The state attached to the custom ID, see {@link ComponentStateManager.attach}
  * @example
  * ```typescript
  * const menu: SelectMenuComponent<'STRING'> = {
@@ -49,14 +56,15 @@ export type SelectMenuComponentRun<T extends SelectMenuType, C extends Record<st
  * @requires Discord.js v14 or higher
  * @see {@link https://discord.js.org/#/docs/discord.js/main/typedef/AnySelectMenuInteraction}
  */
-export type SelectMenuComponent<T extends SelectMenuType> = {
+export type SelectMenuComponent<T extends SelectMenuType, Params extends CustomIdParams = CustomIdParams, State = unknown> = {
     /**
-     * The custom ID of the select menu or a regex pattern to match against custom IDs.
-     * Can be a string for exact matches or a RegExp for pattern matching.
+     * The custom ID of the select menu, a regex pattern or a route to match against custom IDs.
+     * Can be a string for exact matches, a RegExp for pattern matching, or a {@link CustomIdRoute} to parse parameters into `ctx.params`.
      * @example 'role-selector'
-     * @example /^team-select-\d+$/
+     * @example /^team-select-(?<teamId>\d+)$/
+     * @example createCustomIdRoute('team-select:{teamId}')
      */
-    customId: string | RegExp;
+    customId: CustomIdMatcher<Params>;
 
     /**
      * The type of select menu this handler is for.
@@ -65,9 +73,50 @@ export type SelectMenuComponent<T extends SelectMenuType> = {
      */
     type: T;
 
+    /**
+     * The permission level required to use this select menu.
+     * @see {@link PermissionLevel}
+     * @default PermissionLevel.REGULAR
+     */
+    permission?: PermissionLevel;
+
+    /**
+     * Preconditions that must pass before the select menu handler runs, checked in order.
+     * @see {@link PreconditionEntry}
+     */
+    preconditions?: PreconditionEntry[];
+
+    /**
+     * Whether to defer the interaction if the select menu handler hasn't responded within a threshold.
+     * @default The `autoDefer` client option
+     * @see {@link AutoDeferOptions}
+     */
+    autoDefer?: AutoDeferConfig;
+
+    /**
+     * The time in milliseconds the select menu handler has to finish, after which `ctx.signal` is aborted and it fails with a timeout error.
+     * @default No timeout
+     * @see {@link HandlerTimeout}
+     */
+    timeout?: number;
+
     /**
      * The function to execute when an option is selected from the menu.
      * @see {@link SelectMenuComponentRun}
      */
-    run: SelectMenuComponentRun<T>;
+    run(
+        interaction: Extract<AnySelectMenuInteraction, { componentType: T }>,
+        ctx: SelectMenuComponentContext<{ params: Params; state: State | undefined; stateKey: string | null }>,
+    ): void | Promise<void>;
+
+    /**
+     * A function to handle errors that occur while handling the select menu.
+     * Errors that aren't handled are emitted as {@link Events.SelectMenuInteractionError}.
+     * @param error The error that occurred
+     * @param ctx The select menu context
+     */
+    onError?(
+        error: unknown,
+        ctx: SelectMenuComponentContext<{ params: Params; state: State | undefined; stateKey: string | null }>,
+    ): void | Promise<void>;
 };
@@ -1,8 +1,5 @@
 import type {
-    ApplicationCommandOption,
     ApplicationCommandOptionData,
-    ApplicationCommandSubCommand,
-    ApplicationCommandSubGroup,
     AutocompleteInteraction,
     CacheType,
     ChannelType,
@@ -14,6 +11,12 @@ import type {
 } from 'discord.js';
 import type { ApplicationCommandOptionType } from 'discord.js';
 
+import { UserError } from '../errors/UserError.js';
+import type { AutocompleteOption } from '../structures/autocomplete.js';
+import type { AutoDeferConfig } from '../structures/autoDefer.js';
+import type { InteractiveContext } from '../structures/awaiters.js';
+import type { PermissionLevel } from '../structures/permissions.js';
+import type { PreconditionEntry } from '../structures/preconditions.js';
 import type { CommonContext } from './index.js';
 
 /**
@@ -22,7 +25,7 @@ import type { CommonContext } from './index.js';
  * @category Commands
  * @template T - Additional context properties specific to this slash command
  */
-export type SlashCommandContext<T extends Record<string, unknown> = Record<string, unknown>> = CommonContext & T;
+export type SlashCommandContext<T extends Record<string, unknown> = Record<string, unknown>> = CommonContext & InteractiveContext & T;
 
 /**
  * Function signature for slash command handlers.
@@ -115,6 +118,34 @@ export type SlashCommand = {
      */
     guilds: Snowflake[] | 'global';
 
+    /**
+     * The permission level required to use this command.
+     * @see {@link PermissionLevel}
+     * @default PermissionLevel.REGULAR
+     */
+    permission?: PermissionLevel;
+
+    /**
+     * Preconditions that must pass before the command runs, checked in order.
+     * @see {@link PreconditionEntry}
+     */
+    preconditions?: PreconditionEntry[];
+
+    /**
+     * Whether to defer the interaction if the command handler hasn't responded within a threshold.
+     * @default The `autoDefer` client option
+     * @see {@link AutoDeferOptions}
+     */
+    autoDefer?: AutoDeferConfig;
+
+    /**
+     * The time in milliseconds the command handler has to finish, after which `ctx.signal` is aborted and it fails with a timeout error.
+     * Autocomplete handlers of the command have the same timeout.
+     * @default No timeout
+     * @see {@link HandlerTimeout}
+     */
+    timeout?: number;
+
     /**
      * The function to execute when the command is used.
      * @see {@link SlashCommandRun}
@@ -122,57 +153,99 @@ export type SlashCommand = {
     run: SlashCommandRun;
 
     /**
-     * Optional handler for autocomplete interactions.
+     * A function to handle errors that occur during the command execution.
+     * Errors that aren't handled are emitted as {@link Events.SlashCommandError}.
+     * @param error The error that occurred
+     * @param ctx The command context
+     */
+    onError?: (error: unknown, ctx: SlashCommandContext) => Promise<void> | void;
+
+    /**
+     * Value providers of the options declared with `autocomplete: true`.
+     * Keyed by option path: `option`, `subcommand/option` or `group/subcommand/option`.
+     * @see {@link AutocompleteOption}
+     */
+    autocompletes?: Record<string, AutocompleteOption>;
+
+    /**
+     * Optional handler for autocomplete interactions, used for the options without a value provider in {@link autocompletes}.
      * @see {@link AutoCompleteRun}
      */
     autocomplete?: AutoCompleteRun;
 };
 
 /**
- * Extracts option types from command data for type-safe option access.
+ * Extracts the names of the options of each type, for type-safe option access.
  * @internal
  * @category Types
  */
-type ExtractSlashCommandOptions<T extends ApplicationCommandOption[]> = {
+type ExtractSlashCommandOptions<T extends readonly ApplicationCommandOptionData[]> = {
     [K in ApplicationCommandOptionType]: Extract<T[number], { type: K }>['name'];
 };
 
 /**
- * Helper type for handling readonly arrays.
+ * Extracts the options nested in a command, subcommand group or subcommand.
+ * Declarations that aren't `const` fall back to any option, literal declarations without options have none.
+ * @internal
+ * @category Types
+ */
+type ExtractNestedOptions<T> = T extends { options: infer O extends readonly ApplicationCommandOptionData[] }
+    ? O
+    : T extends { name: infer N }
+      ? string extends N
+          ? readonly ApplicationCommandOptionData[]
+          : readonly []
+      : readonly [];
+
+/**
+ * Extracts valid subcommand paths from command structure, `subcommand` or `group/subcommand`.
  * @internal
  * @category Types
  */
-type MaybeReadonly<T> = Readonly<T> | T;
+type ExtractSlashCommandPaths<T extends readonly ApplicationCommandOptionData[]> = T[number] extends infer O
+    ? O extends { type: ApplicationCommandOptionType.SubcommandGroup; name: infer G extends string }
+        ? `${G}/${Extract<ExtractNestedOptions<O>[number], { type: ApplicationCommandOptionType.Subcommand }>['name']}`
+        : O extends { type: ApplicationCommandOptionType.Subcommand; name: infer S extends string }
+          ? S
+          : never
+    : never;
 
 /**
- * Extracts valid subcommand paths from command structure.
+ * Extracts the options of a subcommand path.
  * @internal
  * @category Types
  */
-type ExtractSlashCommandPaths<T extends MaybeReadonly<ApplicationCommandOptionData[]>> =
-    T extends MaybeReadonly<[infer F, ...infer R]>
-        ? F extends MaybeReadonly<ApplicationCommandSubGroup>
-            ? F['options'] extends MaybeReadonly<ApplicationCommandSubCommand[]>
-                ?
-                      | `${F['name']}/${F['options'] extends readonly ApplicationCommandSubCommand[]
-                            ? ExtractSlashCommandPaths<F['options']>
-                            : never}`
-                      | (R extends ApplicationCommandOptionData[] ? ExtractSlashCommandPaths<R> : never)
-                : false
-            : F extends ApplicationCommandSubCommand
-              ? F['name'] | (R extends ApplicationCommandOptionData[] ? ExtractSlashCommandPaths<R> : never)
-              : never
-        : never;
+type ExtractSlashCommandPathOptions<T extends readonly ApplicationCommandOptionData[], Path extends string> = Path extends `${infer G}/${infer S}`
+    ? ExtractNestedOptions<Extract<ExtractNestedOptions<Extract<T[number], { name: G }>>[number], { name: S }>>
+    : ExtractNestedOptions<Extract<T[number], { name: Path }>>;
+
+/**
+ * Extracts the paths of the options declared with `autocomplete: true`, `option`, `subcommand/option` or `group/subcommand/option`.
+ * @internal
+ * @category Types
+ */
+type ExtractAutocompletePaths<T extends readonly ApplicationCommandOptionData[], Prefix extends string = ''> = T[number] extends infer O
+    ? O extends { type: ApplicationCommandOptionType.SubcommandGroup; name: infer G extends string }
+        ? Prefix extends ''
+            ? ExtractAutocompletePaths<ExtractNestedOptions<O>, `${G}/`>
+            : never
+        : O extends { type: ApplicationCommandOptionType.Subcommand; name: infer S extends string }
+          ? `${Prefix}${S}/${Extract<ExtractNestedOptions<O>[number], { autocomplete: true }>['name']}`
+          : O extends { autocomplete: true; name: infer N extends string }
+            ? `${Prefix}${N}`
+            : never
+    : never;
 
 /**
  * Type-safe wrapper for Discord.js option resolver with improved type inference.
+ * Option names are checked against the declared options.
  * @since 0.2.6
  * @category Types
  * @template Options - Array of command options to type against
  * @template Cached - Cache type for the interaction
  * @see {@link https://discord.js.org/#/docs/discord.js/main/class/CommandInteractionOptionResolver}
  */
-type SlashCommandOptionsResolver<Options extends ApplicationCommandOption[], Cached extends CacheType = CacheType> = {
+export type SlashCommandOptionsResolver<Options extends readonly ApplicationCommandOptionData[], Cached extends CacheType = CacheType> = {
     getSubcommand(required?: true): ExtractSlashCommandOptions<Options>[ApplicationCommandOptionType.Subcommand];
     getSubcommand(required: boolean): ExtractSlashCommandOptions<Options>[ApplicationCommandOptionType.Subcommand] | null;
     getSubcommandGroup(required: true): ExtractSlashCommandOptions<Options>[ApplicationCommandOptionType.SubcommandGroup];
@@ -244,7 +317,23 @@ type SlashCommandOptionsResolver<Options extends ApplicationCommandOption[], Cac
         name: ExtractSlashCommandOptions<Options>[ApplicationCommandOptionType.Mentionable],
         required?: boolean,
     ): NonNullable<CommandInteractionOption<Cached>['member' | 'role' | 'user']> | null;
-} & Omit<CommandInteractionOptionResolver<Cached>, 'getMessage' | 'getFocused'>;
+} & Omit<
+    CommandInteractionOptionResolver<Cached>,
+    | 'getMessage'
+    | 'getFocused'
+    | 'getSubcommand'
+    | 'getSubcommandGroup'
+    | 'getBoolean'
+    | 'getChannel'
+    | 'getString'
+    | 'getInteger'
+    | 'getNumber'
+    | 'getUser'
+    | 'getMember'
+    | 'getRole'
+    | 'getAttachment'
+    | 'getMentionable'
+>;
 
 /**
  * Type-safe wrapper for Discord.js slash command interaction.
@@ -254,6 +343,136 @@ type SlashCommandOptionsResolver<Options extends ApplicationCommandOption[], Cac
  * @template Cached - Cache type for the interaction
  * @see {@link https://discord.js.org/#/docs/discord.js/main/class/ChatInputCommandInteraction}
  */
-type SlashCommandInteraction<Options extends ApplicationCommandOption[], Cached extends CacheType = CacheType> = {
+export type SlashCommandInteraction<Options extends readonly ApplicationCommandOptionData[], Cached extends CacheType = CacheType> = {
     options: SlashCommandOptionsResolver<Options, Cached>;
-} & ChatInputCommandInteraction<Cached>;
+} & Omit<ChatInputCommandInteraction<Cached>, 'options'>;
+
+/**
+ * Function signature for the handler of a slash command created with {@link createSlashCommand}.
+ * @since 0.4.0
+ * @category Commands
+ * @template Options - The options available to the handler
+ */
+export type TypedSlashCommandRun<Options extends readonly ApplicationCommandOptionData[]> = (
+    interaction: SlashCommandInteraction<Options>,
+    ctx: SlashCommandContext,
+) => Promise<void>;
+
+/**
+ * The handlers of a slash command created with {@link createSlashCommand}.
+ * Commands without subcommands have a single `run` handler, commands with subcommands need a handler for every path.
+ * @since 0.4.0
+ * @category Commands
+ * @template Data - The `const` command data
+ */
+export type SlashCommandHandlers<Data extends ChatInputApplicationCommandData> = [ExtractSlashCommandPaths<ExtractNestedOptions<Data>>] extends [
+    never,
+]
+    ? {
+          /**
+           * The function to execute when the command is used.
+           */
+          run: TypedSlashCommandRun<ExtractNestedOptions<Data>>;
+      }
+    : {
+          /**
+           * The handlers of the subcommands, keyed by `subcommand` or `group/subcommand` path.
+           * Every path declared in the data needs a handler.
+           */
+          subcommands: {
+              [Path in ExtractSlashCommandPaths<ExtractNestedOptions<Data>>]: TypedSlashCommandRun<
+                  ExtractSlashCommandPathOptions<ExtractNestedOptions<Data>, Path>
+              >;
+          };
+      };
+
+/**
+ * The definition of a slash command created with {@link createSlashCommand}.
+ * @since 0.4.0
+ * @category Commands
+ * @template Data - The `const` command data
+ */
+export type SlashCommandDefinition<Data extends ChatInputApplicationCommandData> = Omit<SlashCommand, 'data' | 'run' | 'autocompletes'> & {
+    /**
+     * Configuration data for the slash command, declared inline so option names and subcommand paths can be inferred.
+     */
+    data: Data;
+    /**
+     * Value providers of the options declared with `autocomplete: true`, keyed by option path.
+     */
+    autocompletes?: { [Path in ExtractAutocompletePaths<ExtractNestedOptions<Data>>]?: AutocompleteOption };
+} & SlashCommandHandlers<Data>;
+
+/**
+ * Creates a slash command with typed options, inferred from its `data`.
+ * Commands with subcommands declare a handler per `subcommand` or `group/subcommand` path, and interactions are routed to them.
+ * A path without a handler fails type-checking.
+ * @since 0.4.0
+ * @category Commands
+ * @param command - The slash command definition
+ * @returns A SlashCommand that can be registered with the framework
+ * @example
+ * ```typescript
+ * const command = createSlashCommand({
+ *   data: {
+ *     name: 'config',
+ *     description: 'Manage the configuration',
+ *     options: [
+ *       {
+ *         type: ApplicationCommandOptionType.Subcommand,
+ *         name: 'get',
+ *         description: 'Get a value',
+ *         options: [{ type: ApplicationCommandOptionType.String, name: 'key', description: 'The key', required: true }]
+ *       },
+ *       {
+ *         type: ApplicationCommandOptionType.SubcommandGroup,
+ *         name: 'prefix',
+ *         description: 'Manage the prefix',
+ *         options: [{ type: ApplicationCommandOptionType.Subcommand, name: 'reset', description: 'Reset the prefix' }]
+ *       }
+ *     ]
+ *   },
+ *   guilds: 'global',
+ *   subcommands: {
+ *     async get(interaction) {
+ *       await interaction.reply(interaction.options.getString('key', true));
+ *     },
+ *     async 'prefix/reset'(interaction) {
+ *       await interaction.reply('Prefix reset!');
+ *     }
+ *   }
+ * });
+ * ```
+ */
+export const createSlashCommand = <const Data extends ChatInputApplicationCommandData>(command: SlashCommandDefinition<Data>): SlashCommand => {
+    // The typed interaction only narrows the option resolver, the runtime object is the same
+    const { run, subcommands, ...rest } = command as unknown as Omit<SlashCommand, 'run'> & {
+        run?: SlashCommandRun;
+        subcommands?: Record<string, SlashCommandRun>;
+    };
+
+    return {
+        ...rest,
+        async run(interaction, ctx) {
+            if (run) {
+                await run(interaction, ctx);
+                return;
+            }
+
+            const group = interaction.options.getSubcommandGroup(false);
+            const subcommand = interaction.options.getSubcommand(false);
+            const path = group ? `${group}/${subcommand}` : subcommand;
+            const handler = path === null ? undefined : subcommands?.[path];
+
+            if (!handler) {
+                throw new UserError({
+                    identifier: 'unknown_subcommand',
+                    message: `There is no handler for the \`${path ?? ''}\` subcommand, the command may be outdated.`,
+                    context: { path },
+                });
+            }
+
+            await handler(interaction, ctx);
+        },
+    };
+};
@@ -1,9 +1,14 @@
 import { type Message, type OmitPartialGroupDMChannel, type Snowflake } from 'discord.js';
 
 import type { FlagStrategyOptions } from '../arguments/FlagStrategy.js';
-import type { Args, ArgType } from '../arguments/Parser.js';
+import type { ArgOptions, Args, ArgType } from '../arguments/Parser.js';
+import { argumentResolvers } from '../arguments/resolvers/index.js';
+import { ArgumentError } from '../errors/ArgumentError.js';
+import { Identifiers } from '../errors/Identifiers.js';
 import { UserError } from '../errors/UserError.js';
-import type { PermissionLevel } from '../structures/permissions.js';
+import type { InteractiveContext } from '../structures/awaiters.js';
+import { getPermissionLevel, type PermissionLevel } from '../structures/permissions.js';
+import type { PreconditionEntry } from '../structures/preconditions.js';
 import type { CommonContext } from './index.js';
 
 /**
@@ -45,6 +50,12 @@ export interface TextCommandData {
      */
     dm?: boolean;
 
+    /**
+     * Whether to show the typing indicator while the command runs.
+     * @default The `typing` client option
+     */
+    typing?: boolean;
+
     /**
      * Configuration for parsing command arguments and flags.
      * @see {@link FlagStrategyOptions}
@@ -71,7 +82,7 @@ export interface TextCommandData {
  * @category Commands
  * @template T - Additional context properties specific to this command
  */
-export interface TextCommandContext extends CommonContext {
+export interface TextCommandContext extends CommonContext, InteractiveContext {
     /**
      * Parsed arguments from the command message.
      * @see {@link Args}
@@ -86,6 +97,19 @@ export interface TextCommandBase {
      */
     data: TextCommandData;
 
+    /**
+     * Preconditions that must pass before the command runs, checked in order.
+     * @see {@link PreconditionEntry}
+     */
+    preconditions?: PreconditionEntry[];
+
+    /**
+     * The time in milliseconds the command has to finish, after which `ctx.signal` is aborted and it fails with a timeout error.
+     * @default No timeout
+     * @see {@link HandlerTimeout}
+     */
+    timeout?: number;
+
     /**
      * A function to handle errors that occur during the command execution.
      * @param error The error that occurred
@@ -178,6 +202,36 @@ export type SubCommandArgument<TType extends keyof ArgType = keyof ArgType> = {
      * @default true
      */
     required?: boolean;
+
+    /**
+     * The options passed to the resolver of the argument, for example the values of an `enum` argument.
+     * @since 0.4.0
+     * @example { enum: ['asc', 'desc'], caseInsensitive: true }
+     */
+    options?: ArgOptions;
+
+    /**
+     * Whether the argument consumes the rest of the message, for example a `string` containing spaces.
+     * Only the last argument can be a rest argument.
+     * @since 0.4.0
+     * @default false
+     */
+    rest?: boolean;
+};
+
+/**
+ * The values of the arguments declared by a subcommand, keyed by argument name.
+ * Arguments are required unless `required` is `false`, optional arguments without a default can be `undefined`.
+ * @since 0.4.0
+ * @category Commands
+ * @template TArgs - The declared arguments
+ */
+export type ParsedArguments<TArgs extends readonly SubCommandArgument[]> = {
+    [TArg in TArgs[number] as TArg['name']]: TArg extends { required: false }
+        ? TArg extends { default: unknown }
+            ? ArgType[TArg['type']]
+            : ArgType[TArg['type']] | undefined
+        : ArgType[TArg['type']];
 };
 
 /**
@@ -266,7 +320,8 @@ export interface SubcommandBase {
     flags?: CommandFlag[];
 
     /**
-     * The permission level required to use this subcommand.
+     * The permission level required to use this subcommand, checked against the permission level of the member.
+     * Subcommands the member can't use are hidden from the `--help` output.
      * If not set, inherits from the parent command.
      */
     permission?: PermissionLevel;
@@ -285,17 +340,20 @@ export interface SubcommandBase {
  * Represents a subcommand that can be executed (has no further subcommands).
  * @since 0.3.0
  * @category Commands
+ * @template TArgs - The declared arguments, use {@link createSubcommand} to infer them
  */
-export interface ExecutableSubcommand extends SubcommandBase {
+export interface ExecutableSubcommand<TArgs extends readonly SubCommandArgument[] = readonly SubCommandArgument[]> extends SubcommandBase {
     /**
      * The function to execute when this subcommand is invoked.
+     * The declared arguments are parsed before it runs, and are available as `ctx.parsed`.
      */
-    run: TextCommandRun;
+    run(msg: TextCommandMessage, ctx: TextCommandContext & { parsed: ParsedArguments<TArgs> }): Promise<void> | void;
 
     /**
-     * The arguments this subcommand accepts.
+     * The arguments this subcommand accepts, parsed in order before the subcommand runs.
+     * Parsing consumes them from `ctx.args`, read their values from `ctx.parsed` instead of picking them again.
      */
-    arguments?: SubCommandArgument[];
+    arguments?: TArgs;
 }
 
 /**
@@ -359,8 +417,7 @@ export type Subcommand = ExecutableSubcommand | GroupSubcommand;
  *         }
  *       ],
  *       run: async (msg, ctx) => {
- *         const message = await ctx.args.pick('string');
- *         await msg.reply(`Committing with message: ${message}`);
+ *         await msg.reply(`Committing with message: ${ctx.parsed.message}`);
  *       }
  *     }
  *   ]
@@ -375,7 +432,7 @@ export interface GroupTextCommand extends TextCommandBase {
     subcommands: Subcommand[];
 }
 
-const generateHelp = (rootCommand: GroupTextCommand, subcommandPath: string[] = []): string[] => {
+const generateHelp = (rootCommand: GroupTextCommand, level: PermissionLevel, subcommandPath: string[] = []): string[] => {
     const command = findSubcommandByPath(rootCommand, subcommandPath);
 
     if (!command) {
@@ -400,7 +457,8 @@ const generateHelp = (rootCommand: GroupTextCommand, subcommandPath: string[] =
     } else {
         if (command.arguments?.length) {
             for (const arg of command.arguments) {
-                const argName = arg.required !== false ? `<${arg.name}>` : `[${arg.name}]`;
+                const name = arg.rest ? `${arg.name}...` : arg.name;
+                const argName = arg.required !== false ? `<${name}>` : `[${name}]`;
                 usage += ` ${argName}`;
             }
         }
@@ -419,9 +477,11 @@ const generateHelp = (rootCommand: GroupTextCommand, subcommandPath: string[] =
     // Subcommands section (only if not an executable command)
     if (!isExecutable) {
         lines.push('Subcommands:');
-        const maxNameLength = Math.max(...command.subcommands.map((cmd) => cmd.name.length));
+        // Only list the subcommands the member can run
+        const subcommands = command.subcommands.filter((cmd) => canUseSubcommand(cmd, level));
+        const maxNameLength = Math.max(...subcommands.map((cmd) => cmd.name.length));
 
-        for (const subcommand of command.subcommands) {
+        for (const subcommand of subcommands) {
             const nameWithPadding = subcommand.name.padEnd(maxNameLength + 2);
             const defaultMarker = subcommand.default ? ' (default)' : '';
             lines.push(`  ${nameWithPadding}    ${subcommand.description}${defaultMarker}`);
@@ -517,6 +577,89 @@ const findSubcommand = (subcommands: Subcommand[], name: string): Subcommand | u
     return subcommands.find((cmd) => cmd.name === name || cmd.aliases?.includes(name));
 };
 
+/**
+ * Parses the arguments declared by a subcommand, in order.
+ * Optional arguments that are missing get their default value, while resolver failures are always reported.
+ * @internal Used by group text commands and hybrid commands.
+ * @since 0.4.0
+ * @throws {ArgumentError} If a required argument is missing or an argument fails to resolve, naming the argument in its context
+ */
+export const _parseArguments = async <TArgs extends readonly SubCommandArgument[]>(declarations: TArgs, args: Args): Promise<ParsedArguments<TArgs>> => {
+    const parsed: Record<string, unknown> = {};
+
+    for (const declaration of declarations) {
+        const { name, type, required = true } = declaration;
+        const result = declaration.rest ? await args.restResult(type, declaration.options) : await args.pickResult(type, declaration.options);
+        if (result.isOk()) {
+            parsed[name] = result.unwrap();
+            continue;
+        }
+
+        const error = result.unwrapErr();
+        if (error.identifier === Identifiers.ArgsMissing) {
+            if (!required) {
+                parsed[name] = declaration.default;
+                continue;
+            }
+
+            throw new ArgumentError({
+                argument: argumentResolvers[type],
+                parameter: '',
+                identifier: Identifiers.ArgsMissing,
+                message: `The \`${name}\` argument is required.`,
+                context: { name },
+            });
+        }
+
+        throw new ArgumentError({
+            argument: error instanceof ArgumentError ? error.argument : argumentResolvers[type],
+            parameter: error instanceof ArgumentError ? error.parameter : '',
+            identifier: error.identifier,
+            message: `Invalid \`${name}\` argument: ${error.message}`,
+            context: { name, context: error.context },
+        });
+    }
+
+    return parsed as ParsedArguments<TArgs>;
+};
+
+/**
+ * Whether a member with the given permission level meets the level required by a subcommand.
+ * Subcommands without a level inherit it from their parent, which was already checked.
+ */
+const canUseSubcommand = (subcommand: Subcommand, level: PermissionLevel): boolean =>
+    subcommand.permission === undefined || level >= subcommand.permission;
+
+/**
+ * Checks that a member can use a subcommand, first against its permission level, then with its `canRun` function.
+ * @throws {UserError} If the member can't use the subcommand
+ */
+const checkSubcommand = async (subcommand: Subcommand, level: PermissionLevel, msg: TextCommandMessage, ctx: TextCommandContext): Promise<void> => {
+    if (!canUseSubcommand(subcommand, level)) {
+        throw new UserError({
+            identifier: 'insufficient_permissions',
+            message: `You don't have permission to use the \`${subcommand.name}\` subcommand.`,
+            context: { level, required: subcommand.permission },
+        });
+    }
+
+    if (subcommand.canRun) {
+        const canRun = await subcommand.canRun(msg, ctx);
+        if (typeof canRun === 'string') {
+            throw new UserError({
+                identifier: 'cannot_run_subcommand',
+                message: canRun,
+            });
+        }
+        if (!canRun) {
+            throw new UserError({
+                identifier: 'cannot_run_subcommand',
+                message: `You cannot use the \`${subcommand.name}\` subcommand.`,
+            });
+        }
+    }
+};
+
 /**
  * Creates a TextCommand from either a regular TextCommand or a GroupTextCommand.
  * If a GroupTextCommand is provided, it will be transformed into a TextCommand with subcommand handling.
@@ -545,6 +688,8 @@ export const createTextCommand = <T extends TextCommand | GroupTextCommand>(comm
         async run(...props) {
             const [msg, ctx] = props;
             const args = ctx.args;
+            // Subcommand levels are checked against the level of the member, resolved through the permission system
+            const level = await getPermissionLevel(msg.member ?? msg.author);
 
             let currentSubcommands = subcommands;
             const subcommandPath: string[] = [];
@@ -568,28 +713,7 @@ export const createTextCommand = <T extends TextCommand | GroupTextCommand>(comm
                 }
 
                 // Check permissions before accepting the subcommand
-                if (found.permission && found.permission > commandData.permission) {
-                    throw new UserError({
-                        identifier: 'insufficient_permissions',
-                        message: `You don't have permission to use the \`${found.name}\` subcommand.`,
-                    });
-                }
-
-                if (found.canRun) {
-                    const canRun = await found.canRun(msg, ctx);
-                    if (typeof canRun === 'string') {
-                        throw new UserError({
-                            identifier: 'cannot_run_subcommand',
-                            message: canRun,
-                        });
-                    }
-                    if (!canRun) {
-                        throw new UserError({
-                            identifier: 'cannot_run_subcommand',
-                            message: `You cannot use the \`${found.name}\` subcommand.`,
-                        });
-                    }
-                }
+                await checkSubcommand(found, level, msg, ctx);
 
                 args.discard();
                 subcommandPath.push(next);
@@ -606,7 +730,7 @@ export const createTextCommand = <T extends TextCommand | GroupTextCommand>(comm
 
             // Handle help flag after we've resolved the subcommand path
             if (args.hasFlags('help', 'h')) {
-                const helpLines = generateHelp(command, subcommandPath);
+                const helpLines = generateHelp(command, level, subcommandPath);
 
                 // Split into multiple messages if needed (Discord 2000 char limit)
                 const blocks: string[] = [];
@@ -644,11 +768,14 @@ export const createTextCommand = <T extends TextCommand | GroupTextCommand>(comm
                         message: `This command requires a subcommand. Use \`${commandData.name} --help\` to see available subcommands.`,
                     });
                 }
+
+                await checkSubcommand(currentSubcommand, level, msg, ctx);
             }
 
             // Execute the found subcommand
             if ('run' in currentSubcommand) {
-                await currentSubcommand.run(...props);
+                const parsed = await _parseArguments(currentSubcommand.arguments ?? [], args);
+                await currentSubcommand.run(msg, { ...ctx, parsed });
                 return;
             } else {
                 const commandPath = subcommandPath.length > 0 ? ` ${subcommandPath.join(' ')}` : '';
@@ -661,4 +788,31 @@ export const createTextCommand = <T extends TextCommand | GroupTextCommand>(comm
     };
 };
 
-export const createSubcommand = <T extends Subcommand>(command: T): T => command;
+/**
+ * Helper to create a subcommand, inferring the type of `ctx.parsed` from the declared arguments.
+ * @since 0.3.0
+ * @category Commands
+ * @param command - The subcommand to create
+ * @returns The subcommand
+ * @example
+ * ```typescript
+ * const add = createSubcommand({
+ *   name: 'add',
+ *   description: 'Add two numbers',
+ *   arguments: [
+ *     { name: 'a', type: 'integer', description: 'The first number' },
+ *     { name: 'b', type: 'integer', description: 'The second number', required: false, default: 0 }
+ *   ],
+ *   run: async (msg, { parsed }) => {
+ *     await msg.reply(`${parsed.a + parsed.b}`);
+ *   }
+ * });
+ * ```
+ */
+export function createSubcommand<const TArgs extends readonly SubCommandArgument[]>(
+    command: ExecutableSubcommand<TArgs>,
+): ExecutableSubcommand<TArgs>;
+export function createSubcommand<T extends GroupSubcommand>(command: T): T;
+export function createSubcommand(command: Subcommand): Subcommand {
+    return command;
+}
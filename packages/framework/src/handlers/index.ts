@@ -28,6 +28,10 @@ export interface CommonContext {
      * Used for logging debug information, errors, and other important events.
      */
     logger: Logger;
+    /**
+     * The signal aborted once the `timeout` of the handler runs out, pass it to cancellable calls such as `fetch`.
+     */
+    signal: AbortSignal;
     // /**
     //  * The i18n instance for this interaction.
     //  * @throws If accessed without i18n being set on the client.
@@ -52,6 +56,7 @@ declare module 'i18next' {
 export * from './ButtonComponent.js';
 export * from './ClientEvent.js';
 export * from './ContextMenuCommand.js';
+export * from './HybridCommand.js';
 export * from './ModalComponent.js';
 export * from './SelectMenuComponent.js';
 export * from './SlashCommand.js';
@@ -19,6 +19,7 @@ export * from './guildVoiceChannel.js';
 export * from './hyperlink.js';
 export * from './integer.js';
 export * from './member.js';
+export * from './mentionable.js';
 export { resolveMessage } from './message.js';
 export * from './number.js';
 export * from './partialDMChannel.js';
@@ -0,0 +1,18 @@
+import { UserOrMemberMentionRegex } from '@sapphire/discord.js-utilities';
+import { Result } from '@sapphire/result';
+import type { Guild, Role, User } from 'discord.js';
+
+import { Identifiers } from '../errors/Identifiers.js';
+import { resolveRole } from './role.js';
+import { resolveUser } from './user.js';
+
+export async function resolveMentionable(parameter: string, guild: Guild | null): Promise<Result<User | Role, Identifiers.ArgumentMentionableError>> {
+    // Roles only exist in guilds, and user mentions are never roles
+    if (guild && !UserOrMemberMentionRegex.test(parameter)) {
+        const role = await resolveRole(parameter, guild);
+        if (role.isOk()) return Result.ok(role.unwrap());
+    }
+
+    const user = await resolveUser(parameter);
+    return user.mapErr(() => Identifiers.ArgumentMentionableError);
+}
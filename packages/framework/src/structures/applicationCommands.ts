@@ -0,0 +1,506 @@
+/**
+ * Provides the application command sync engine for the PeridotJS framework.
+ * This module pushes the slash and context menu commands loaded into the handler registries to Discord.
+ *
+ * The sync engine:
+ * - Collects handlers from the `slashCommands` and `contextMenuCommands` registries
+ * - Groups them by scope (global or a specific guild)
+ * - Diffs them against the commands currently registered on Discord
+ * - Only creates, updates or deletes the commands that changed
+ *
+ * All requests go through an {@link ApplicationCommandTransport}, which makes it possible
+ * to run the engine against a local fake API in tests.
+ *
+ * @module structures/applicationCommands
+ * @since 0.4.0
+ */
+
+import {
+    type APIApplicationCommand,
+    type ApplicationCommandData,
+    ApplicationCommandType,
+    PermissionsBitField,
+    type REST,
+    type RESTPostAPIApplicationCommandsJSONBody,
+    Routes,
+    type Snowflake,
+} from 'discord.js';
+
+import { Events } from '../events/index.js';
+import { container } from './container.js';
+import type { PeridotPluginAsyncHook } from './plugins.js';
+
+/**
+ * The scope an application command is registered in.
+ * - 'global': Registered for every guild and DM
+ * - Snowflake: Registered for a single guild
+ *
+ * @since 0.4.0
+ * @category Types
+ */
+export type ApplicationCommandScope = Snowflake | 'global';
+
+/**
+ * Transport used by the sync engine to talk to the Discord API.
+ * Implement this interface to run the sync engine against something other than Discord, such as a fake API in tests.
+ *
+ * @since 0.4.0
+ * @category Interfaces
+ * @see {@link createRESTApplicationCommandTransport}
+ */
+export interface ApplicationCommandTransport {
+    /** Fetch every command currently registered in the scope */
+    fetch(scope: ApplicationCommandScope): Promise<APIApplicationCommand[]>;
+    /** Create a new command in the scope */
+    create(scope: ApplicationCommandScope, body: RESTPostAPIApplicationCommandsJSONBody): Promise<APIApplicationCommand>;
+    /** Overwrite an existing command in the scope */
+    edit(scope: ApplicationCommandScope, id: Snowflake, body: RESTPostAPIApplicationCommandsJSONBody): Promise<APIApplicationCommand>;
+    /** Delete an existing command from the scope */
+    delete(scope: ApplicationCommandScope, id: Snowflake): Promise<void>;
+}
+
+/**
+ * Creates an {@link ApplicationCommandTransport} backed by the Discord REST API.
+ *
+ * @since 0.4.0
+ * @category Functions
+ * @param rest - The REST instance to send requests with, usually `client.rest`
+ * @param applicationId - The ID of the application owning the commands
+ * @returns A transport sending requests to Discord
+ */
+export const createRESTApplicationCommandTransport = (rest: REST, applicationId: Snowflake): ApplicationCommandTransport => {
+    const route = (scope: ApplicationCommandScope) =>
+        scope === 'global' ? Routes.applicationCommands(applicationId) : Routes.applicationGuildCommands(applicationId, scope);
+    const commandRoute = (scope: ApplicationCommandScope, id: Snowflake) =>
+        scope === 'global' ? Routes.applicationCommand(applicationId, id) : Routes.applicationGuildCommand(applicationId, scope, id);
+
+    return {
+        async fetch(scope) {
+            return (await rest.get(route(scope))) as APIApplicationCommand[];
+        },
+        async create(scope, body) {
+            return (await rest.post(route(scope), { body })) as APIApplicationCommand;
+        },
+        async edit(scope, id, body) {
+            return (await rest.patch(commandRoute(scope, id), { body })) as APIApplicationCommand;
+        },
+        async delete(scope, id) {
+            await rest.delete(commandRoute(scope, id));
+        },
+    };
+};
+
+/**
+ * Options for {@link syncApplicationCommands}.
+ *
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface ApplicationCommandSyncOptions {
+    /**
+     * Compute the changes without applying them.
+     * @default false
+     */
+    dryRun?: boolean;
+
+    /**
+     * Whether to delete registered commands that no longer have a handler.
+     * @default true
+     */
+    prune?: boolean;
+
+    /**
+     * Additional guilds to sync even if no handler targets them.
+     * Useful to clean up guilds that a command was removed from.
+     * @default []
+     */
+    guilds?: Snowflake[];
+
+    /**
+     * The transport used to talk to the Discord API.
+     * @default createRESTApplicationCommandTransport(client.rest, client.application.id)
+     */
+    transport?: ApplicationCommandTransport;
+}
+
+/**
+ * The action the sync engine takes for a single command.
+ *
+ * @since 0.4.0
+ * @category Types
+ */
+export type ApplicationCommandSyncAction = 'create' | 'update' | 'delete' | 'unchanged';
+
+/**
+ * A single planned or applied change.
+ *
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface ApplicationCommandSyncChange {
+    /** What happens to the command */
+    action: ApplicationCommandSyncAction;
+    /** The name of the command */
+    name: string;
+    /** The type of the command */
+    type: ApplicationCommandType;
+    /** The ID of the registered command, if it already exists */
+    id?: Snowflake;
+    /** The body that is sent to Discord for creates and updates */
+    body?: RESTPostAPIApplicationCommandsJSONBody;
+}
+
+/**
+ * The changes for a single scope.
+ *
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface ApplicationCommandScopeReport {
+    scope: ApplicationCommandScope;
+    changes: ApplicationCommandSyncChange[];
+}
+
+/**
+ * The result of a sync run.
+ *
+ * @since 0.4.0
+ * @category Interfaces
+ * @see {@link formatApplicationCommandSyncReport}
+ */
+export interface ApplicationCommandSyncReport {
+    /** Whether the changes were only computed and not applied */
+    dryRun: boolean;
+    /** The changes grouped by scope */
+    scopes: ApplicationCommandScopeReport[];
+}
+
+/**
+ * Collects the slash and context menu commands from the handler registries, grouped by scope.
+ *
+ * @since 0.4.0
+ * @category Functions
+ * @returns A map of scope to the command bodies that should be registered in it
+ * @throws {Error} If two commands with the same name and type target the same scope
+ */
+export const collectApplicationCommands = (): Map<ApplicationCommandScope, RESTPostAPIApplicationCommandsJSONBody[]> => {
+    const { handlers } = container;
+    const scopes = new Map<ApplicationCommandScope, RESTPostAPIApplicationCommandsJSONBody[]>();
+
+    const handlersWithScope = [
+        ...handlers.getRegistry('slashCommands').unwrap().getHandlers(),
+        ...handlers.getRegistry('contextMenuCommands').unwrap().getHandlers(),
+    ];
+
+    for (const handler of handlersWithScope) {
+        const body = toApplicationCommandJSON(handler.data);
+        const targets = handler.guilds === 'global' ? ['global'] : handler.guilds;
+
+        for (const scope of targets) {
+            const commands = scopes.get(scope) ?? [];
+            if (commands.some((command) => commandKey(command) === commandKey(body))) {
+                throw new Error(`The command '${body.name}' is registered more than once in scope '${scope}'.`);
+            }
+
+            commands.push(body);
+            scopes.set(scope, commands);
+        }
+    }
+
+    return scopes;
+};
+
+/**
+ * Diffs the local commands of a scope against the commands registered on Discord.
+ *
+ * @since 0.4.0
+ * @category Functions
+ * @param local - The commands that should be registered
+ * @param remote - The commands that are currently registered
+ * @param prune - Whether remote commands without a local counterpart should be deleted
+ * @returns The changes needed to make the remote commands match the local ones
+ */
+export const diffApplicationCommands = (
+    local: RESTPostAPIApplicationCommandsJSONBody[],
+    remote: APIApplicationCommand[],
+    prune = true,
+): ApplicationCommandSyncChange[] => {
+    const changes: ApplicationCommandSyncChange[] = [];
+    const remaining = new Map(remote.map((command) => [commandKey(command), command]));
+
+    for (const body of local) {
+        const key = commandKey(body);
+        const type = body.type ?? ApplicationCommandType.ChatInput;
+        const existing = remaining.get(key);
+
+        if (!existing) {
+            changes.push({ action: 'create', name: body.name, type, body });
+            continue;
+        }
+
+        remaining.delete(key);
+        changes.push({
+            action: commandsEqual(body, existing) ? 'unchanged' : 'update',
+            name: body.name,
+            type,
+            id: existing.id,
+            body,
+        });
+    }
+
+    if (prune) {
+        for (const command of remaining.values()) {
+            changes.push({ action: 'delete', name: command.name, type: command.type, id: command.id });
+        }
+    }
+
+    return changes;
+};
+
+/**
+ * Syncs the loaded slash and context menu commands with Discord.
+ * Only the commands that changed are created, updated or deleted.
+ *
+ * Emits {@link Events.ApplicationCommandSyncFinish} once done.
+ *
+ * @since 0.4.0
+ * @category Functions
+ * @param options - The sync options
+ * @returns A report of every change, grouped by scope
+ * @throws {Error} If no transport is provided and the client application is not available yet
+ * @example
+ * ```ts
+ * // Print what would change without touching Discord
+ * const report = await syncApplicationCommands({ dryRun: true });
+ * console.log(formatApplicationCommandSyncReport(report));
+ * ```
+ */
+export const syncApplicationCommands = async (options: ApplicationCommandSyncOptions = {}): Promise<ApplicationCommandSyncReport> => {
+    const { client, logger } = container;
+    const { dryRun = false, prune = true, guilds = [] } = options;
+
+    const transport = options.transport ?? createDefaultTransport();
+    const local = collectApplicationCommands();
+
+    for (const guild of guilds) {
+        if (!local.has(guild)) local.set(guild, []);
+    }
+
+    // Always sync the global scope so removed global commands are pruned
+    if (!local.has('global')) local.set('global', []);
+
+    const report: ApplicationCommandSyncReport = { dryRun, scopes: [] };
+
+    for (const [scope, commands] of local) {
+        logger.debug({ scope, commands: commands.length }, 'Syncing application commands');
+
+        const remote = await transport.fetch(scope);
+        const changes = diffApplicationCommands(commands, remote, prune);
+
+        if (!dryRun) {
+            for (const change of changes) {
+                await applyChange(transport, scope, change);
+            }
+        }
+
+        report.scopes.push({ scope, changes });
+    }
+
+    client.emit(Events.ApplicationCommandSyncFinish, report);
+
+    return report;
+};
+
+/**
+ * Formats a sync report into a human readable summary, one line per change.
+ * Unchanged commands are left out.
+ *
+ * @since 0.4.0
+ * @category Functions
+ * @param report - The report to format
+ * @returns The formatted report
+ */
+export const formatApplicationCommandSyncReport = (report: ApplicationCommandSyncReport): string => {
+    const symbols: Record<ApplicationCommandSyncAction, string> = { create: '+', update: '~', delete: '-', unchanged: '=' };
+    const lines: string[] = [report.dryRun ? 'Application command sync (dry run)' : 'Application command sync'];
+
+    for (const { scope, changes } of report.scopes) {
+        const changed = changes.filter((change) => change.action !== 'unchanged');
+        lines.push(`  ${scope === 'global' ? 'Global' : `Guild ${scope}`}: ${changed.length} change(s)`);
+
+        for (const change of changed) {
+            lines.push(`    ${symbols[change.action]} ${change.name} (${ApplicationCommandType[change.type]})`);
+        }
+    }
+
+    return lines.join('\n');
+};
+
+/**
+ * Plugin hook that runs the sync engine once the client is ready, if enabled through {@link PeridotClientOptions.applicationCommandSync}.
+ * @internal Registered by the client as a {@link PluginHook.PostLogin} hook
+ * @since 0.4.0
+ */
+export const _applicationCommandSyncHook: PeridotPluginAsyncHook = function (options) {
+    const { applicationCommandSync } = options;
+    if (!applicationCommandSync) return;
+
+    const run = () => {
+        syncApplicationCommands(applicationCommandSync === true ? {} : applicationCommandSync).catch((error) =>
+            this.emit(Events.ApplicationCommandSyncError, error),
+        );
+    };
+
+    if (this.isReady()) run();
+    else this.once(Events.ClientReady, run);
+};
+
+const createDefaultTransport = (): ApplicationCommandTransport => {
+    const { client } = container;
+    if (!client.application) {
+        throw new Error('Cannot sync application commands before the client is ready, or provide a custom transport.');
+    }
+
+    return createRESTApplicationCommandTransport(client.rest, client.application.id);
+};
+
+const applyChange = async (transport: ApplicationCommandTransport, scope: ApplicationCommandScope, change: ApplicationCommandSyncChange) => {
+    switch (change.action) {
+        case 'create':
+            await transport.create(scope, change.body!);
+            break;
+        case 'update':
+            await transport.edit(scope, change.id!, change.body!);
+            break;
+        case 'delete':
+            await transport.delete(scope, change.id!);
+            break;
+        case 'unchanged':
+            break;
+    }
+};
+
+const commandKey = (command: { name: string; type?: ApplicationCommandType }) =>
+    `${command.type ?? ApplicationCommandType.ChatInput}:${command.name}`;
+
+// #region Transformation
+type LooseData = Record<string, unknown>;
+
+const stripUndefined = <T extends LooseData>(data: T): T => Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as T;
+
+const transformOption = (option: LooseData): LooseData =>
+    stripUndefined({
+        type: option.type,
+        name: option.name,
+        name_localizations: option.nameLocalizations ?? option.name_localizations,
+        description: option.description,
+        description_localizations: option.descriptionLocalizations ?? option.description_localizations,
+        required: option.required,
+        autocomplete: option.autocomplete,
+        channel_types: option.channelTypes ?? option.channel_types,
+        min_value: option.minValue ?? option.min_value,
+        max_value: option.maxValue ?? option.max_value,
+        min_length: option.minLength ?? option.min_length,
+        max_length: option.maxLength ?? option.max_length,
+        choices: (option.choices as LooseData[] | undefined)?.map((choice) =>
+            stripUndefined({
+                name: choice.name,
+                name_localizations: choice.nameLocalizations ?? choice.name_localizations,
+                value: choice.value,
+            }),
+        ),
+        options: (option.options as LooseData[] | undefined)?.map(transformOption),
+    });
+
+/**
+ * Converts the discord.js command data declared on a handler into the JSON body sent to Discord.
+ *
+ * @since 0.4.0
+ * @category Functions
+ * @param data - The command data of a slash or context menu command
+ * @returns The JSON body for the Discord API
+ */
+export const toApplicationCommandJSON = (data: ApplicationCommandData): RESTPostAPIApplicationCommandsJSONBody => {
+    const loose = data as unknown as LooseData;
+    const permissions = data.defaultMemberPermissions;
+
+    return stripUndefined({
+        type: data.type ?? ApplicationCommandType.ChatInput,
+        name: data.name,
+        name_localizations: data.nameLocalizations,
+        description: loose.description,
+        description_localizations: loose.descriptionLocalizations,
+        options: (loose.options as LooseData[] | undefined)?.map(transformOption),
+        default_member_permissions:
+            permissions === undefined ? undefined : permissions === null ? null : PermissionsBitField.resolve(permissions).toString(),
+        dm_permission: data.dmPermission,
+        nsfw: data.nsfw,
+        contexts: data.contexts,
+        integration_types: data.integrationTypes,
+    }) as unknown as RESTPostAPIApplicationCommandsJSONBody;
+};
+// #endregion Transformation
+
+// #region Comparison
+const emptyToNull = (value: unknown) =>
+    value === undefined || (typeof value === 'object' && value !== null && Object.keys(value).length === 0) ? null : value;
+
+const normalizeOption = (option: LooseData): LooseData => ({
+    type: option.type,
+    name: option.name,
+    name_localizations: emptyToNull(option.name_localizations),
+    description: option.description ?? '',
+    description_localizations: emptyToNull(option.description_localizations),
+    required: option.required ?? false,
+    autocomplete: option.autocomplete ?? false,
+    channel_types: emptyToNull(option.channel_types),
+    min_value: option.min_value ?? null,
+    max_value: option.max_value ?? null,
+    min_length: option.min_length ?? null,
+    max_length: option.max_length ?? null,
+    choices: emptyToNull(
+        (option.choices as LooseData[] | undefined)?.map((choice) => ({
+            name: choice.name,
+            name_localizations: emptyToNull(choice.name_localizations),
+            value: choice.value,
+        })),
+    ),
+    options: ((option.options as LooseData[] | undefined) ?? []).map(normalizeOption),
+});
+
+// These fields get defaults filled in by Discord, so they are only compared when the handler declares them
+const optionalFields = ['dm_permission', 'contexts', 'integration_types'] as const;
+
+const normalizeCommand = (command: LooseData, include: readonly string[]): LooseData => {
+    const normalized: LooseData = {
+        type: command.type ?? ApplicationCommandType.ChatInput,
+        name: command.name,
+        name_localizations: emptyToNull(command.name_localizations),
+        description: command.description ?? '',
+        description_localizations: emptyToNull(command.description_localizations),
+        options: ((command.options as LooseData[] | undefined) ?? []).map(normalizeOption),
+        default_member_permissions: command.default_member_permissions ?? null,
+        nsfw: command.nsfw ?? false,
+    };
+
+    for (const field of include) {
+        normalized[field] = command[field] ?? null;
+    }
+
+    return normalized;
+};
+
+const stableStringify = (value: unknown): string =>
+    JSON.stringify(value, (_key, inner: unknown) =>
+        inner && typeof inner === 'object' && !Array.isArray(inner)
+            ? Object.fromEntries(Object.entries(inner as LooseData).sort(([a], [b]) => a.localeCompare(b)))
+            : inner,
+    );
+
+const commandsEqual = (local: RESTPostAPIApplicationCommandsJSONBody, remote: APIApplicationCommand): boolean => {
+    const localData = local as unknown as LooseData;
+    const include = optionalFields.filter((field) => localData[field] !== undefined);
+
+    return stableStringify(normalizeCommand(localData, include)) === stableStringify(normalizeCommand(remote as unknown as LooseData, include));
+};
+// #endregion Comparison
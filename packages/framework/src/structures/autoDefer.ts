@@ -0,0 +1,121 @@
+/**
+ * Provides auto-defer, deferring interactions whose handler hasn't responded within a threshold so the 3-second interaction token doesn't expire.
+ * Auto-defer is enabled for every slash command, context menu command and component with the `autoDefer` client option,
+ * and overridden per handler with their `autoDefer` property.
+ *
+ * Commands and modals not submitted from a message are deferred with `deferReply`, showing a loading state until the handler replies.
+ * Components and modals submitted from a message are deferred with `deferUpdate`, leaving the message as is.
+ * Handlers that can exceed the threshold should check `interaction.deferred` and use `editReply` or `followUp` instead of `reply`.
+ *
+ * @module structures/autoDefer
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * const client = new PeridotClient({
+ *     // ...
+ *     autoDefer: { threshold: 2_000 },
+ * });
+ *
+ * const report: SlashCommand = {
+ *     data: { name: 'report', description: 'Generates a report' },
+ *     guilds: 'global',
+ *     autoDefer: { ephemeral: true },
+ *     async run(interaction) {
+ *         const report = await generateReport();
+ *         await (interaction.deferred ? interaction.editReply(report) : interaction.reply(report));
+ *     },
+ * };
+ * ```
+ */
+
+import type { CommandInteraction, MessageComponentInteraction, ModalSubmitInteraction } from 'discord.js';
+import type { Logger } from 'pino';
+
+import { container } from './container.js';
+
+// #region Types
+/**
+ * Options for auto-defer, passed as the `autoDefer` client option or the `autoDefer` property of a handler.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface AutoDeferOptions {
+    /**
+     * The time in milliseconds after the handler starts running to defer the interaction at, if it hasn't responded yet.
+     * @default 2000
+     */
+    threshold?: number;
+    /**
+     * Whether the deferred reply of commands is only visible to the user, ignored for components.
+     * @default false
+     */
+    ephemeral?: boolean;
+}
+
+/**
+ * Whether to auto-defer, or the options to auto-defer with.
+ * `true` uses the default options, handler options are merged with the options of the client.
+ * @since 0.4.0
+ * @category Types
+ */
+export type AutoDeferConfig = boolean | AutoDeferOptions;
+
+/**
+ * The interactions that can be deferred.
+ * @since 0.4.0
+ * @category Types
+ */
+export type AutoDeferInteraction = CommandInteraction | MessageComponentInteraction | ModalSubmitInteraction;
+// #endregion Types
+
+// #region Auto-defer
+/** The default threshold, leaving a second of the 3-second interaction token for the deferral */
+const DefaultThreshold = 2_000;
+
+/**
+ * Resolves the options of auto-defer for a handler.
+ * @param config - The `autoDefer` property of the handler
+ * @returns The options, or `null` if auto-defer is disabled
+ */
+const resolveOptions = (config: AutoDeferConfig | undefined): Required<AutoDeferOptions> | null => {
+    const clientConfig = container.client.options.autoDefer ?? false;
+    if (config === false || (config === undefined && clientConfig === false)) return null;
+
+    return {
+        threshold: DefaultThreshold,
+        ephemeral: false,
+        ...(typeof clientConfig === 'object' ? clientConfig : {}),
+        ...(typeof config === 'object' ? config : {}),
+    };
+};
+
+/**
+ * Defers an interaction if its handler hasn't responded within the threshold.
+ * @param interaction - The interaction invoking the handler
+ * @param config - The `autoDefer` property of the handler
+ * @param logger - The logger of the handler
+ * @returns A function cancelling the deferral, called once the handler finished
+ */
+export const _startAutoDefer = (interaction: AutoDeferInteraction, config: AutoDeferConfig | undefined, logger: Logger): (() => void) => {
+    const options = resolveOptions(config);
+    if (!options) return () => {};
+
+    const timeout = setTimeout(async () => {
+        if (interaction.replied || interaction.deferred) return;
+
+        try {
+            if (interaction.isCommand() || (interaction.isModalSubmit() && !interaction.isFromMessage())) {
+                await interaction.deferReply({ ephemeral: options.ephemeral });
+            } else {
+                await interaction.deferUpdate();
+            }
+
+            logger.trace({ threshold: options.threshold }, 'Interaction auto-deferred');
+        } catch (err) {
+            logger.warn({ err }, 'Failed to auto-defer interaction');
+        }
+    }, options.threshold);
+
+    return () => clearTimeout(timeout);
+};
+// #endregion Auto-defer
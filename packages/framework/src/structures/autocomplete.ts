@@ -0,0 +1,345 @@
+/**
+ * Provides per-option autocomplete for slash commands.
+ * Options declared with `autocomplete: true` get a value provider in the `autocompletes` of their command, keyed by option path.
+ *
+ * This module provides:
+ * - Fuzzy filtering and ranking of the candidates against the focused value
+ * - The 25 choices limit of Discord
+ * - A timeout on value providers, so the 3 seconds deadline of autocomplete interactions is never missed
+ * - Optional caching of the candidates per user, guild or globally
+ *
+ * @module structures/autocomplete
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * const command: SlashCommand = {
+ *     data: {
+ *         name: 'tag',
+ *         description: 'Show a tag',
+ *         options: [{ type: ApplicationCommandOptionType.String, name: 'name', description: 'The tag', required: true, autocomplete: true }],
+ *     },
+ *     guilds: 'global',
+ *     autocompletes: {
+ *         name: {
+ *             provide: (interaction) => db.tags.names(interaction.guildId),
+ *             cache: { ttl: 30_000, scope: AutocompleteCacheScope.Guild },
+ *         },
+ *     },
+ *     async run(interaction) {
+ *         // ...
+ *     },
+ * };
+ * ```
+ */
+
+import type { Awaitable } from '@sapphire/utilities';
+import type { ApplicationCommandOptionChoiceData, ApplicationCommandOptionType, AutocompleteInteraction } from 'discord.js';
+
+import { UserError } from '../errors/UserError.js';
+import type { AutoCompleteContext } from '../handlers/SlashCommand.js';
+
+// #region Types
+/**
+ * A choice suggested to the user.
+ * @since 0.4.0
+ * @category Types
+ */
+export type AutocompleteChoice = ApplicationCommandOptionChoiceData<string | number>;
+
+/**
+ * A candidate returned by a value provider, either a choice or a value used as its own name.
+ * @since 0.4.0
+ * @category Types
+ */
+export type AutocompleteCandidate = AutocompleteChoice | string | number;
+
+/**
+ * The option being typed in by the user.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface AutocompleteFocusedOption {
+    /** The path of the option, `option`, `subcommand/option` or `group/subcommand/option` */
+    path: string;
+    /** The name of the option */
+    name: string;
+    /** The type of the option */
+    type: ApplicationCommandOptionType;
+    /** The value typed in so far */
+    value: string;
+}
+
+/**
+ * Context object passed to value providers.
+ * @since 0.4.0
+ * @category Commands
+ */
+export type AutocompleteOptionContext = AutoCompleteContext & {
+    /** The option being typed in */
+    focused: AutocompleteFocusedOption;
+};
+
+/**
+ * Function signature for value providers, returning the candidates of an option.
+ * @since 0.4.0
+ * @category Commands
+ */
+export type AutocompleteProvider = (
+    interaction: AutocompleteInteraction,
+    ctx: AutocompleteOptionContext,
+) => Awaitable<readonly AutocompleteCandidate[]>;
+
+/**
+ * What cached candidates are shared between.
+ * @since 0.4.0
+ * @category Enums
+ */
+export enum AutocompleteCacheScope {
+    /** Every user has their own candidates in every guild */
+    User = 'user',
+    /** Every guild has its own candidates, shared by all users in it. DMs are treated as their own guild */
+    Guild = 'guild',
+    /** The candidates are shared by everyone */
+    Global = 'global',
+}
+
+/**
+ * The autocomplete of an option.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface AutocompleteOptionOptions {
+    /**
+     * The value provider of the option.
+     */
+    provide: AutocompleteProvider;
+    /**
+     * Whether to filter and rank the candidates against the focused value.
+     * Disable it for providers that search by themselves.
+     * @default true
+     */
+    filter?: boolean;
+    /**
+     * The time in milliseconds the provider has to return its candidates, no choices are suggested past it.
+     * @default 2000
+     */
+    timeout?: number;
+    /**
+     * Caches the candidates of the provider.
+     * Filtered candidates are cached regardless of the focused value, unfiltered ones are cached per focused value.
+     */
+    cache?: {
+        /** The time in milliseconds the candidates are cached for */
+        ttl: number;
+        /**
+         * What the cached candidates are shared between.
+         * @default AutocompleteCacheScope.User
+         */
+        scope?: AutocompleteCacheScope;
+    };
+}
+
+/**
+ * The autocomplete of an option, either a value provider or its options.
+ * @since 0.4.0
+ * @category Types
+ */
+export type AutocompleteOption = AutocompleteProvider | AutocompleteOptionOptions;
+// #endregion Types
+
+// #region Ranking
+/** The maximum amount of choices Discord accepts */
+const MaxChoices = 25;
+
+/** The maximum length of the name and string value of a choice */
+const MaxChoiceLength = 100;
+
+/**
+ * Scores how well a name matches a query, higher is better.
+ * Exact matches rank first, then prefixes, word prefixes, substrings and subsequences.
+ * @returns The score, or `null` if the name doesn't match
+ */
+const score = (name: string, query: string): number | null => {
+    if (name === query) return 5;
+    if (name.startsWith(query)) return 4;
+
+    const index = name.indexOf(query);
+    if (index !== -1) return /[\s\-_./]/.test(name[index - 1]!) ? 3 : 2;
+
+    // Subsequence, every character of the query appears in order
+    let position = 0;
+    for (const character of query) {
+        position = name.indexOf(character, position) + 1;
+        if (position === 0) return null;
+    }
+
+    return 1;
+};
+
+/**
+ * Truncates a string to the maximum length of a choice.
+ */
+const truncate = <T extends string | number>(value: T): T => (typeof value === 'string' ? (value.slice(0, MaxChoiceLength) as T) : value);
+
+/**
+ * Converts a candidate to a choice within the limits of Discord.
+ * @param candidate - The candidate to convert
+ */
+const toChoice = (candidate: AutocompleteCandidate): AutocompleteChoice =>
+    typeof candidate === 'object'
+        ? { ...candidate, name: truncate(candidate.name), value: truncate(candidate.value) }
+        : { name: truncate(String(candidate)), value: truncate(candidate) };
+
+/**
+ * Filters and ranks candidates against a query, case-insensitively.
+ * Candidates that don't match are dropped, the others are sorted by how well their name matches, then by their order.
+ * An empty query keeps every candidate in order.
+ * @since 0.4.0
+ * @category Functions
+ * @param query - The value typed in by the user
+ * @param candidates - The candidates to rank
+ * @param limit - The maximum amount of choices to return, at most 25
+ * @returns The ranked choices
+ * @example
+ * ```ts
+ * rankAutocompleteChoices('ban', ['unban', 'ban', 'kick', 'bandwidth']);
+ * // [{ name: 'ban', value: 'ban' }, { name: 'bandwidth', value: 'bandwidth' }, { name: 'unban', value: 'unban' }]
+ * ```
+ */
+export const rankAutocompleteChoices = (query: string, candidates: readonly AutocompleteCandidate[], limit = MaxChoices): AutocompleteChoice[] => {
+    const max = Math.min(limit, MaxChoices);
+    const choices = candidates.map(toChoice);
+
+    const normalized = query.trim().toLowerCase();
+    if (normalized.length === 0) return choices.slice(0, max);
+
+    return choices
+        .map((choice, index) => ({ choice, index, score: score(choice.name.toLowerCase(), normalized) }))
+        .filter((entry): entry is typeof entry & { score: number } => entry.score !== null)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .slice(0, max)
+        .map(({ choice }) => choice);
+};
+// #endregion Ranking
+
+// #region Resolution
+/** The default time in milliseconds a value provider has to return its candidates */
+const DefaultTimeout = 2_000;
+
+/** Cached candidates by key, with the time they expire at */
+const cache = new Map<string, { expires: number; candidates: readonly AutocompleteCandidate[] }>();
+
+/**
+ * Clears the cached candidates of every option.
+ * @since 0.4.0
+ * @category Functions
+ */
+export const clearAutocompleteCache = (): void => {
+    cache.clear();
+};
+
+/**
+ * Gets the option being typed in, with its path.
+ * @param interaction - The autocomplete interaction
+ */
+export const _getFocusedOption = (interaction: AutocompleteInteraction): AutocompleteFocusedOption => {
+    const { name, type, value } = interaction.options.getFocused(true);
+    const group = interaction.options.getSubcommandGroup(false);
+    const subcommand = interaction.options.getSubcommand(false);
+
+    return { path: [group, subcommand, name].filter(Boolean).join('/'), name, type, value };
+};
+
+/**
+ * Gets the cache key of the candidates of an option.
+ */
+const getCacheKey = (
+    interaction: AutocompleteInteraction,
+    focused: AutocompleteFocusedOption,
+    scope: AutocompleteCacheScope,
+    filter: boolean,
+): string => {
+    const parts = [interaction.commandName, focused.path];
+
+    if (scope !== AutocompleteCacheScope.Global) parts.push(interaction.guildId ?? `dm:${interaction.channelId}`);
+    if (scope === AutocompleteCacheScope.User) parts.push(interaction.user.id);
+    if (!filter) parts.push(focused.value);
+
+    return parts.join(':');
+};
+
+/**
+ * Runs a value provider, failing once the timeout elapses.
+ */
+const provide = async (
+    interaction: AutocompleteInteraction,
+    ctx: AutocompleteOptionContext,
+    provider: AutocompleteProvider,
+    timeout: number,
+): Promise<readonly AutocompleteCandidate[]> => {
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+        return await Promise.race([
+            Promise.resolve(provider(interaction, ctx)),
+            new Promise<never>((_, reject) => {
+                timer = setTimeout(
+                    () =>
+                        reject(
+                            new UserError({
+                                identifier: 'autocomplete_timeout',
+                                message: `The suggestions for \`${ctx.focused.path}\` took longer than ${timeout}ms.`,
+                                context: { path: ctx.focused.path, timeout },
+                            }),
+                        ),
+                    timeout,
+                );
+            }),
+        ]);
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+/**
+ * Runs the autocomplete of an option and responds with its choices.
+ * When the provider fails or times out, no choices are suggested and the error is thrown.
+ * @param interaction - The autocomplete interaction
+ * @param ctx - The context of the autocomplete
+ * @param option - The autocomplete of the focused option
+ * @returns The choices responded with
+ */
+export const _runAutocompleteOption = async (
+    interaction: AutocompleteInteraction,
+    ctx: AutocompleteOptionContext,
+    option: AutocompleteOption,
+): Promise<AutocompleteChoice[]> => {
+    const options: AutocompleteOptionOptions = typeof option === 'function' ? { provide: option } : option;
+    const { filter = true, timeout = DefaultTimeout } = options;
+    const key = options.cache ? getCacheKey(interaction, ctx.focused, options.cache.scope ?? AutocompleteCacheScope.User, filter) : null;
+
+    const cached = key === null ? undefined : cache.get(key);
+    let values = cached && cached.expires > Date.now() ? cached.candidates : undefined;
+
+    if (!values) {
+        try {
+            values = await provide(interaction, ctx, options.provide, timeout);
+        } catch (error) {
+            if (!interaction.responded) await interaction.respond([]);
+            throw error;
+        }
+
+        if (key !== null) {
+            // Sweep the expired candidates, as keys of unfiltered candidates include the focused value
+            const now = Date.now();
+            for (const [cachedKey, { expires }] of cache) if (expires <= now) cache.delete(cachedKey);
+            cache.set(key, { expires: now + options.cache!.ttl, candidates: values });
+        }
+    }
+
+    const choices = filter ? rankAutocompleteChoices(ctx.focused.value, values) : values.slice(0, MaxChoices).map(toChoice);
+    if (!interaction.responded) await interaction.respond(choices);
+
+    return choices;
+};
+// #endregion Resolution
@@ -0,0 +1,247 @@
+/**
+ * Provides interactive awaiters, to wait for a component or modal response inside a running handler.
+ * Multi-step flows can be written in a single handler instead of being split across component registrations.
+ *
+ * Awaited interactions bypass the component registries, and are restricted to the user that invoked the handler by default.
+ * Awaiters resolve with `null` once their time runs out.
+ *
+ * @module structures/awaiters
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * const command: SlashCommand = {
+ *     data: { name: 'delete', description: 'Delete your data' },
+ *     guilds: 'global',
+ *     async run(interaction, ctx) {
+ *         const message = await interaction.reply({ content: 'Are you sure?', components: [confirmRow], fetchReply: true });
+ *
+ *         const confirmation = await ctx.awaitComponent(message, { componentType: ComponentType.Button, time: 30_000 });
+ *         if (confirmation?.customId !== 'confirm') {
+ *             await interaction.editReply({ content: 'Cancelled.', components: [] });
+ *             return;
+ *         }
+ *
+ *         const submission = await ctx.awaitModal(reasonModal, { interaction: confirmation });
+ *         // ...
+ *     },
+ * };
+ * ```
+ */
+
+import type {
+    BaseInteraction,
+    ChatInputCommandInteraction,
+    InteractionResponse,
+    MappedInteractionTypes,
+    Message,
+    MessageComponentInteraction,
+    MessageComponentType,
+    ModalSubmitInteraction,
+    Snowflake,
+} from 'discord.js';
+
+import { container } from './container.js';
+
+// #region Types
+/**
+ * A modal that can be shown to the user.
+ * @since 0.4.0
+ * @category Types
+ */
+export type AwaitableModal = Parameters<ChatInputCommandInteraction['showModal']>[0];
+
+/**
+ * Options for {@link InteractiveContext.awaitComponent}.
+ * @since 0.4.0
+ * @category Interfaces
+ * @template Type - The type of component to wait for
+ */
+export interface AwaitComponentOptions<Type extends MessageComponentType = MessageComponentType> {
+    /**
+     * The type of component to wait for, other components are left to their handlers.
+     */
+    componentType?: Type;
+    /**
+     * Filters the interactions to wait for, the others are left to their handlers.
+     */
+    filter?: (interaction: MappedInteractionTypes[Type]) => boolean;
+    /**
+     * The time in milliseconds to wait for.
+     * @default 60_000
+     */
+    time?: number;
+    /**
+     * The user allowed to respond, other users are told the component isn't for them.
+     * Set to `null` to allow anyone.
+     * @default The user that invoked the handler
+     */
+    user?: Snowflake | null;
+}
+
+/**
+ * Options for {@link InteractiveContext.awaitModal}.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface AwaitModalOptions {
+    /**
+     * The interaction to show the modal in response to, for example a button awaited with {@link InteractiveContext.awaitComponent}.
+     * @default The interaction that invoked the handler
+     */
+    interaction?: BaseInteraction;
+    /**
+     * Filters the submissions to wait for, the others are left to their handlers.
+     */
+    filter?: (interaction: ModalSubmitInteraction) => boolean;
+    /**
+     * The time in milliseconds to wait for.
+     * @default 300_000
+     */
+    time?: number;
+}
+
+/**
+ * Awaiters available in the context of handlers.
+ * @since 0.4.0
+ * @category Context
+ */
+export interface InteractiveContext {
+    /**
+     * Waits for the next interaction with a component of a message.
+     * @param message - The message with the components, or the response to an interaction
+     * @param options - The options of the awaiter
+     * @returns The interaction, or `null` if the time ran out
+     */
+    awaitComponent<Type extends MessageComponentType = MessageComponentType>(
+        message: Message | InteractionResponse,
+        options?: AwaitComponentOptions<Type>,
+    ): Promise<MappedInteractionTypes[Type] | null>;
+    /**
+     * Shows a modal and waits for its submission.
+     * @param modal - The modal to show
+     * @param options - The options of the awaiter
+     * @returns The submission, or `null` if the time ran out
+     * @throws If the interaction can't show a modal, for example because the handler was invoked by a message
+     */
+    awaitModal(modal: AwaitableModal, options?: AwaitModalOptions): Promise<ModalSubmitInteraction | null>;
+}
+// #endregion Types
+
+// #region Awaiters
+/**
+ * A pending awaiter, claiming the interactions it waits for.
+ * @returns Whether the interaction was claimed
+ */
+type PendingAwaiter = (interaction: MessageComponentInteraction | ModalSubmitInteraction) => boolean;
+
+/** The pending awaiters, in the order they were created */
+const pending = new Set<PendingAwaiter>();
+
+/**
+ * Registers an awaiter until it resolves, its time runs out or it is cancelled.
+ * @param claim - Claims an interaction, calling `resolve` with the value to resolve with
+ * @param time - The time in milliseconds to wait for
+ */
+const wait = <T>(
+    claim: (interaction: MessageComponentInteraction | ModalSubmitInteraction, resolve: (value: T) => void) => boolean,
+    time: number,
+): { promise: Promise<T | null>; cancel: () => void } => {
+    let resolve!: (value: T | null) => void;
+    const promise = new Promise<T | null>((res) => (resolve = res));
+
+    const settle = (value: T | null) => {
+        clearTimeout(timer);
+        pending.delete(awaiter);
+        resolve(value);
+    };
+    const awaiter: PendingAwaiter = (interaction) => claim(interaction, settle);
+    const timer = setTimeout(() => settle(null), time);
+    pending.add(awaiter);
+
+    return { promise, cancel: () => settle(null) };
+};
+
+/**
+ * Tells a user that a component is awaited from someone else.
+ */
+const denyUser = (interaction: MessageComponentInteraction) => {
+    interaction.reply({ content: "This component isn't for you.", ephemeral: true }).catch((err: unknown) => {
+        container.logger.debug({ err, src: interaction.id }, 'Failed to deny an awaited component');
+    });
+};
+
+/**
+ * Creates the awaiters of a handler.
+ * @param trigger - The message or interaction that invoked the handler
+ */
+export const _createInteractiveContext = (trigger: Message | BaseInteraction): InteractiveContext => {
+    const invoker = 'author' in trigger ? trigger.author.id : trigger.user.id;
+
+    return {
+        awaitComponent<Type extends MessageComponentType = MessageComponentType>(
+            message: Message | InteractionResponse,
+            { componentType, filter, time = 60_000, user = invoker }: AwaitComponentOptions<Type> = {},
+        ) {
+            // Responses to interactions are matched through the interaction, their ID isn't the ID of the message
+            const isTarget = (interaction: MessageComponentInteraction) =>
+                'author' in message ? interaction.message.id === message.id : interaction.message.interactionMetadata?.id === message.interaction.id;
+
+            return wait<MappedInteractionTypes[Type]>((interaction, resolve) => {
+                if (!interaction.isMessageComponent() || !isTarget(interaction)) return false;
+                if (componentType !== undefined && interaction.componentType !== componentType) return false;
+
+                if (user !== null && interaction.user.id !== user) {
+                    denyUser(interaction);
+                    return true;
+                }
+
+                const awaited = interaction as MappedInteractionTypes[Type];
+                if (filter && !filter(awaited)) return false;
+
+                resolve(awaited);
+                return true;
+            }, time).promise;
+        },
+
+        async awaitModal(modal, { interaction: target = trigger, filter, time = 300_000 } = {}) {
+            if ('author' in target || !(target.isCommand() || target.isMessageComponent())) {
+                throw new TypeError('Modals can only be shown in response to a command or component interaction.');
+            }
+
+            const data = 'toJSON' in modal ? modal.toJSON() : modal;
+            const customId = 'customId' in data ? data.customId : data.custom_id;
+
+            const { promise, cancel } = wait<ModalSubmitInteraction>((interaction, resolve) => {
+                if (!interaction.isModalSubmit() || interaction.customId !== customId || interaction.user.id !== target.user.id) return false;
+                if (filter && !filter(interaction)) return false;
+
+                resolve(interaction);
+                return true;
+            }, time);
+
+            try {
+                await target.showModal(modal);
+            } catch (error) {
+                cancel();
+                throw error;
+            }
+
+            return promise;
+        },
+    };
+};
+
+/**
+ * Hands an interaction to the awaiter waiting for it, if any.
+ * Claimed interactions bypass the component registries.
+ * @param interaction - The component or modal interaction
+ * @returns Whether an awaiter claimed the interaction
+ */
+export const _claimAwaitedInteraction = (interaction: MessageComponentInteraction | ModalSubmitInteraction): boolean => {
+    for (const awaiter of pending) {
+        if (awaiter(interaction)) return true;
+    }
+
+    return false;
+};
+// #endregion Awaiters
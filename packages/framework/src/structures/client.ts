@@ -5,10 +5,17 @@ import type { Logger } from 'pino';
 
 import { _registerCoreEventHandlers, Events } from '../events/index.js';
 import type { TextCommandMessage } from '../handlers/TextCommand.js';
+import { _applicationCommandSyncHook, type ApplicationCommandSyncOptions } from './applicationCommands.js';
+import type { AutoDeferConfig } from './autoDefer.js';
+import { type ComponentStateConfig, ComponentStateManager } from './componentState.js';
 import { container } from './container.js';
+import { type CooldownConfig, CooldownManager } from './cooldowns.js';
+import { _registerErrorReporters, type ErrorReporter } from './errorReporters.js';
 import { _registerBuiltInHandlerRegistries, HandlerRegistryManager } from './loaders.js';
-import type { PermissionLevelConfig } from './permissions.js';
+import { MemoryPermissionProvider, type PermissionLevelConfig, type PermissionProvider } from './permissions.js';
 import { Plugin, PluginHook, PluginManager } from './plugins.js';
+import { _registerBuiltInPreconditions, PreconditionRegistry } from './preconditions.js';
+import { defaultResponseRenderer, type ResponseRenderer } from './responses.js';
 
 /**
  * Valid prefix types for command recognition.
@@ -116,11 +123,21 @@ export interface PeridotClientOptions {
 
     /**
      * Whether to show typing indicator during command processing.
+     * Refreshed until the text command finishes, and overridden per command with `data.typing`.
      * @since 0.2.6
      * @default false
      */
     typing?: boolean;
 
+    /**
+     * Whether to defer interactions whose slash command, context menu command or component hasn't responded within a threshold,
+     * so the 3-second interaction token doesn't expire. Overridden per handler with their `autoDefer` property.
+     * @since 0.4.0
+     * @default false
+     * @see {@link AutoDeferOptions}
+     */
+    autoDefer?: AutoDeferConfig;
+
     /**
      * Whether to disable using mentions as command prefixes.
      * @since 0.2.6
@@ -130,10 +147,59 @@ export interface PeridotClientOptions {
 
     /**
      * Permission configuration for command access control.
+     * Used to create the default {@link MemoryPermissionProvider} when no `permissionProvider` is given.
      * @since 0.2.6
+     * @default { global: {} }
      * @see {@link PermissionLevelConfig}
      */
-    permissionConfig: PermissionLevelConfig;
+    permissionConfig?: PermissionLevelConfig;
+
+    /**
+     * The provider consulted for permission levels, for example a {@link JsonFilePermissionProvider} to persist levels.
+     * @since 0.4.0
+     * @default new MemoryPermissionProvider(permissionConfig)
+     * @see {@link PermissionProvider}
+     */
+    permissionProvider?: PermissionProvider;
+
+    /**
+     * Whether to sync slash and context menu commands with Discord once the client is ready.
+     * Pass an options object to customize the sync, for example to run it as a dry run.
+     * @since 0.4.0
+     * @default false
+     * @see {@link ApplicationCommandSyncOptions}
+     */
+    applicationCommandSync?: boolean | ApplicationCommandSyncOptions;
+
+    /**
+     * Cooldown configuration, such as the store for the buckets and the permission level exempt from cooldowns.
+     * @since 0.4.0
+     * @see {@link CooldownConfig}
+     */
+    cooldowns?: CooldownConfig;
+
+    /**
+     * Component state configuration, such as the store for the state and its default expiry.
+     * @since 0.4.0
+     * @see {@link ComponentStateConfig}
+     */
+    componentState?: ComponentStateConfig;
+
+    /**
+     * The reporters receiving the errors of every `*Error` event, with normalized metadata.
+     * @since 0.4.0
+     * @default []
+     * @see {@link ErrorReporter}
+     */
+    errorReporters?: ErrorReporter[];
+
+    /**
+     * The renderer of the replies sent for the errors and denials of handlers, when using {@link registerDefaultEventLoggers}.
+     * @since 0.4.0
+     * @default defaultResponseRenderer
+     * @see {@link ResponseRenderer}
+     */
+    responseRenderer?: ResponseRenderer;
 }
 
 /**
@@ -237,9 +303,15 @@ export class PeridotClient<Ready extends boolean = boolean> extends Client<Ready
         // Initialize core components
         this.logger = options.logger;
         container.logger = options.logger;
-        container.permissionConfig = options.permissionConfig;
+        container.permissionConfig = options.permissionConfig ?? { global: {} };
+        container.permissions = options.permissionProvider ?? new MemoryPermissionProvider(container.permissionConfig);
         container.handlers = new HandlerRegistryManager();
         _registerBuiltInHandlerRegistries(container.handlers);
+        container.preconditions = new PreconditionRegistry();
+        _registerBuiltInPreconditions(container.preconditions);
+        container.cooldowns = new CooldownManager(options.cooldowns);
+        container.componentState = new ComponentStateManager(options.componentState);
+        container.responseRenderer = options.responseRenderer ?? defaultResponseRenderer;
 
         this.fetchPrefix = options.fetchPrefix ?? (() => this.options.defaultPrefix ?? null);
         this.disableMentionPrefix = options.disableMentionPrefix;
@@ -258,6 +330,7 @@ export class PeridotClient<Ready extends boolean = boolean> extends Client<Ready
         });
 
         _registerCoreEventHandlers(this);
+        _registerErrorReporters(this, options.errorReporters ?? []);
 
         // Run post-initialization plugins
         for (const plugin of PeridotClient.plugins.values(PluginHook.PostInitialization)) {
@@ -309,6 +382,8 @@ export class PeridotClient<Ready extends boolean = boolean> extends Client<Ready
     }
 }
 
+PeridotClient.plugins.registerPostLoginHook(_applicationCommandSyncHook, 'ApplicationCommandSync');
+
 declare module 'discord.js' {
     interface Client {
         id: Snowflake | null;
@@ -0,0 +1,326 @@
+/**
+ * Provides state storage for component interactions, for state that doesn't fit in the 100 characters of a custom ID.
+ * The state is stored under a short key embedded at the end of the custom ID, and loaded into `ctx.state` when the component is used,
+ * with its key as `ctx.stateKey` to update or delete it.
+ * The key follows the reserved `~state~` marker, custom IDs of your own must not contain it.
+ *
+ * This module provides:
+ * - Attaching state to custom IDs, with an expiry
+ * - Pluggable stores, with an in-memory store and a Redis store for state shared across processes
+ * - Denying interactions with {@link Identifiers.ComponentExpired} once their state is gone,
+ *   or {@link Identifiers.ComponentStateUnavailable} if it can't be loaded
+ *
+ * The state manager is accessible through the container object: `container.componentState`
+ *
+ * @module structures/componentState
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * const nextPage = createCustomIdRoute('search:next');
+ *
+ * // When sending the message
+ * const customId = await container.componentState.attach(nextPage.build({}), { query, filters, page: 1 });
+ * new ButtonBuilder().setCustomId(customId).setLabel('Next');
+ *
+ * // handlers/searchNext.ts
+ * const button: ButtonComponent<Record<string, never>, SearchState> = {
+ *     customId: nextPage,
+ *     async run(interaction, { state, stateKey }) {
+ *         // state is undefined, and stateKey null, if the custom ID carries no state
+ *         if (!state || !stateKey) return;
+ *
+ *         await container.componentState.set(stateKey, { ...state, page: state.page + 1 });
+ *     },
+ * };
+ * ```
+ */
+
+import { randomBytes } from 'node:crypto';
+
+import { Result } from '@sapphire/result';
+import type { Awaitable } from '@sapphire/utilities';
+
+import { Identifiers } from '../errors/Identifiers.js';
+import { UserError } from '../errors/UserError.js';
+import { container } from './container.js';
+
+// #region Types
+/**
+ * Storage backend for component state.
+ * State is stored serialized, and expires after its time to live.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface ComponentStateStore {
+    /**
+     * Gets serialized state.
+     * @param key - The key of the state
+     * @returns The serialized state, or `null` if there is none or it expired
+     */
+    get(key: string): Awaitable<string | null>;
+    /**
+     * Sets serialized state, replacing the existing state and its expiry.
+     * @param key - The key of the state
+     * @param value - The serialized state
+     * @param ttl - The time in milliseconds until the state expires
+     */
+    set(key: string, value: string, ttl: number): Awaitable<void>;
+    /**
+     * Deletes state.
+     * @param key - The key of the state
+     */
+    delete(key: string): Awaitable<void>;
+}
+
+/**
+ * Configuration for component state, passed as the `componentState` client option.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface ComponentStateConfig {
+    /**
+     * The store for the component state.
+     * @default new MemoryComponentStateStore()
+     */
+    store?: ComponentStateStore;
+    /**
+     * The default time in milliseconds until state expires, matching the lifetime of interaction tokens by default.
+     * @default 900_000
+     */
+    ttl?: number;
+}
+// #endregion Types
+
+// #region Stores
+/**
+ * In-memory component state store, state is not shared between processes.
+ * Expired state is swept while setting state.
+ * @since 0.4.0
+ * @category Classes
+ */
+export class MemoryComponentStateStore implements ComponentStateStore {
+    private entries = new Map<string, { value: string; expires: number }>();
+    private lastSweep = Date.now();
+
+    /**
+     * @param sweepInterval - The minimum time in milliseconds between sweeps of expired state
+     */
+    public constructor(private readonly sweepInterval = 60_000) {}
+
+    public get(key: string): string | null {
+        const entry = this.entries.get(key);
+        if (entry === undefined) return null;
+
+        if (entry.expires <= Date.now()) {
+            this.entries.delete(key);
+            return null;
+        }
+
+        return entry.value;
+    }
+
+    public set(key: string, value: string, ttl: number): void {
+        const now = Date.now();
+        this.sweep(now);
+
+        this.entries.set(key, { value, expires: now + ttl });
+    }
+
+    public delete(key: string): void {
+        this.entries.delete(key);
+    }
+
+    private sweep(now: number) {
+        if (now - this.lastSweep < this.sweepInterval) return;
+        this.lastSweep = now;
+
+        for (const [key, { expires }] of this.entries) {
+            if (expires <= now) this.entries.delete(key);
+        }
+    }
+}
+
+/**
+ * The subset of a Redis client used by the {@link RedisComponentStateStore}, compatible with `ioredis`.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface RedisComponentStateStoreClient {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, mode: 'PX', ttl: number): Promise<unknown>;
+    del(...keys: string[]): Promise<unknown>;
+}
+
+/**
+ * Redis component state store, state is shared between every process using the same Redis instance and prefix.
+ * @since 0.4.0
+ * @category Classes
+ * @example
+ * ```ts
+ * import { Redis } from 'ioredis';
+ *
+ * const store = new RedisComponentStateStore(new Redis(process.env.REDIS_URL));
+ * ```
+ */
+export class RedisComponentStateStore implements ComponentStateStore {
+    /**
+     * @param client - The Redis client to use
+     * @param prefix - The prefix for the keys of the state
+     */
+    public constructor(
+        private readonly client: RedisComponentStateStoreClient,
+        private readonly prefix = 'peridot:state:',
+    ) {}
+
+    public get(key: string): Promise<string | null> {
+        return this.client.get(`${this.prefix}${key}`);
+    }
+
+    public async set(key: string, value: string, ttl: number): Promise<void> {
+        await this.client.set(`${this.prefix}${key}`, value, 'PX', ttl);
+    }
+
+    public async delete(key: string): Promise<void> {
+        await this.client.del(`${this.prefix}${key}`);
+    }
+}
+// #endregion Stores
+
+// #region Manager
+/** The maximum length of a custom ID */
+const MaxCustomIdLength = 100;
+
+/** Separates the state key from the rest of the custom ID, reserved so custom IDs without state never match */
+const StateKeySeparator = '~state~';
+
+/** The length of a state key, 8 bytes encoded in base64url */
+const StateKeyLength = 11;
+
+/** Matches the state key at the end of a custom ID */
+const StateKeyPattern = new RegExp(`${StateKeySeparator}([\\w-]{${StateKeyLength}})$`);
+
+/**
+ * Manages the state of components.
+ * @since 0.4.0
+ * @category Classes
+ */
+export class ComponentStateManager {
+    /** The store for the component state */
+    public readonly store: ComponentStateStore;
+    /** The default time in milliseconds until state expires */
+    public readonly ttl: number;
+
+    public constructor(config: ComponentStateConfig = {}) {
+        this.store = config.store ?? new MemoryComponentStateStore();
+        this.ttl = config.ttl ?? 900_000;
+    }
+
+    /**
+     * Stores state under a new key.
+     * @param state - The state, serializable to JSON
+     * @param ttl - The time in milliseconds until the state expires
+     * @returns The key of the state
+     */
+    public async create(state: unknown, ttl = this.ttl): Promise<string> {
+        const key = randomBytes(8).toString('base64url');
+        await this.store.set(key, JSON.stringify(state), ttl);
+        return key;
+    }
+
+    /**
+     * Stores state under a new key, and embeds the key at the end of a custom ID.
+     * Handlers matching the custom ID receive the state in `ctx.state`.
+     * @param customId - The custom ID, as matched by the component handler
+     * @param state - The state, serializable to JSON
+     * @param ttl - The time in milliseconds until the state expires
+     * @returns The custom ID with the state key
+     * @throws If the custom ID with the state key is longer than the 100 characters allowed by Discord
+     */
+    public async attach(customId: string, state: unknown, ttl = this.ttl): Promise<string> {
+        // Checked before storing the state so none is left behind
+        const length = customId.length + StateKeySeparator.length + StateKeyLength;
+        if (length > MaxCustomIdLength) {
+            throw new RangeError(`The custom ID '${customId}' with its state key is ${length} characters long, the maximum is ${MaxCustomIdLength}.`);
+        }
+
+        return `${customId}${StateKeySeparator}${await this.create(state, ttl)}`;
+    }
+
+    /**
+     * Gets state.
+     * @param key - The key of the state
+     * @returns The state, or `null` if there is none or it expired
+     */
+    public async get<T = unknown>(key: string): Promise<T | null> {
+        const value = await this.store.get(key);
+        return value === null ? null : (JSON.parse(value) as T);
+    }
+
+    /**
+     * Replaces state, for example after a page change.
+     * @param key - The key of the state
+     * @param state - The state, serializable to JSON
+     * @param ttl - The time in milliseconds until the state expires
+     */
+    public async set(key: string, state: unknown, ttl = this.ttl): Promise<void> {
+        await this.store.set(key, JSON.stringify(state), ttl);
+    }
+
+    /**
+     * Deletes state, components carrying its key are denied as expired afterwards.
+     * @param key - The key of the state
+     */
+    public async delete(key: string): Promise<void> {
+        await this.store.delete(key);
+    }
+}
+
+/**
+ * Splits the state key from a custom ID.
+ * @param customId - The custom ID of the interaction
+ * @returns The custom ID without the state key, and the state key if there is one
+ */
+export const _splitComponentStateKey = (customId: string): { customId: string; key: string | null } => {
+    const match = StateKeyPattern.exec(customId);
+    return match ? { customId: customId.slice(0, match.index), key: match[1]! } : { customId, key: null };
+};
+
+/**
+ * Loads the state of a component interaction.
+ * @param customId - The custom ID of the interaction
+ * @returns The state, `undefined` if the custom ID carries no state, or an error if the state expired or can't be loaded
+ */
+export const _loadComponentState = async (customId: string): Promise<Result<unknown, UserError>> => {
+    const { key } = _splitComponentStateKey(customId);
+    if (key === null) return Result.ok(undefined);
+
+    // Read from the store, so `null` state isn't mistaken for expired state
+    const result = await Result.fromAsync(async () => {
+        const value = await container.componentState.store.get(key);
+        return value === null ? null : { state: JSON.parse(value) as unknown };
+    });
+
+    if (result.isErr()) {
+        return Result.err(
+            new UserError({
+                identifier: Identifiers.ComponentStateUnavailable,
+                message: 'This component is unavailable right now, please try again later.',
+                context: { key, error: result.unwrapErr() },
+            }),
+        );
+    }
+
+    const loaded = result.unwrap();
+    if (loaded === null) {
+        return Result.err(
+            new UserError({
+                identifier: Identifiers.ComponentExpired,
+                message: 'This component has expired, please run the command again.',
+                context: { key },
+            }),
+        );
+    }
+
+    return Result.ok(loaded.state);
+};
+// #endregion Manager
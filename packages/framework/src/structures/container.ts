@@ -7,6 +7,11 @@
  * - Access the Discord.js client instance
  * - Manage handlers through the HandlerRegistryManager
  * - Configure permission levels
+ * - Register preconditions
+ * - Manage cooldowns
+ * - Store component state
+ * - Render error responses
+ * - Access the current handler invocation
  * - Access the logger instance
  * 
  * @module structures/container
@@ -30,7 +35,12 @@ import type { Client } from 'discord.js';
 import type { Logger } from 'pino';
 
 import type { HandlerRegistryManager } from '../index.js';
-import type { PermissionLevelConfig } from './permissions.js';
+import type { ComponentStateManager } from './componentState.js';
+import type { CooldownManager } from './cooldowns.js';
+import type { PermissionLevelConfig, PermissionProvider } from './permissions.js';
+import type { PreconditionRegistry } from './preconditions.js';
+import type { ResponseRenderer } from './responses.js';
+import { _getInvocationScope, type InvocationScope } from './scope.js';
 
 /**
  * Interface defining the structure of the global container.
@@ -47,8 +57,20 @@ export interface Container {
     handlers: HandlerRegistryManager;
     /** The permission configuration for the bot */
     permissionConfig: PermissionLevelConfig;
+    /** The permission provider consulted for permission levels */
+    permissions: PermissionProvider;
+    /** The precondition registry for the preconditions handlers can list */
+    preconditions: PreconditionRegistry;
+    /** The cooldown manager used by the `Cooldown` precondition */
+    cooldowns: CooldownManager;
+    /** The component state manager, loading `ctx.state` of components */
+    componentState: ComponentStateManager;
+    /** The response renderer, turning the errors of handlers into replies */
+    responseRenderer: ResponseRenderer;
     /** The logger instance */
     logger: Logger;
+    /** The current handler invocation, `null` outside of a handler invocation */
+    readonly scope: InvocationScope | null;
 }
 
 /**
@@ -65,4 +87,8 @@ export interface Container {
  * container.logger.info('Hello from PeridotJS!');
  * ```
  */
-export const container: Container = {} as Container;
+export const container: Container = {
+    get scope() {
+        return _getInvocationScope();
+    },
+} as Container;
@@ -0,0 +1,409 @@
+/**
+ * Provides cooldowns and rate limits for the PeridotJS framework.
+ * Cooldowns are applied to handlers through the built-in `Cooldown` precondition.
+ *
+ * This module provides:
+ * - Fixed window rate limits with a configurable bucket size and window
+ * - Scoping per user, channel, guild or globally
+ * - Pluggable stores, with an in-memory store and a Redis store for limits shared across processes
+ * - Exemptions by {@link PermissionLevel}
+ *
+ * The cooldown manager is accessible through the container object: `container.cooldowns`
+ *
+ * @module structures/cooldowns
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * const client = new PeridotClient({
+ *     // ...
+ *     cooldowns: {
+ *         store: new RedisCooldownStore(new Redis()),
+ *         exempt: PermissionLevel.MODERATOR,
+ *     },
+ * });
+ *
+ * const command: SlashCommand = {
+ *     data: { name: 'daily', description: 'Claim your daily reward' },
+ *     guilds: 'global',
+ *     preconditions: [{ name: 'Cooldown', options: { window: 86_400_000 } }],
+ *     async run(interaction) {
+ *         // ...
+ *     },
+ * };
+ * ```
+ */
+
+import { Result } from '@sapphire/result';
+import type { Awaitable } from '@sapphire/utilities';
+
+import { Identifiers } from '../errors/Identifiers.js';
+import { UserError } from '../errors/UserError.js';
+import { container } from './container.js';
+import { _getInteractionPermissionLevel, getPermissionLevel, PermissionLevel } from './permissions.js';
+import type { Precondition, PreconditionPayload } from './preconditions.js';
+
+// #region Types
+/**
+ * What a cooldown bucket is shared between.
+ * @since 0.4.0
+ * @category Enums
+ */
+export enum CooldownScope {
+    /** Every user has their own bucket */
+    User = 'user',
+    /** Every channel has its own bucket, shared by all users in it */
+    Channel = 'channel',
+    /** Every guild has its own bucket, shared by all users in it. DMs are treated as their own guild */
+    Guild = 'guild',
+    /** A single bucket shared by everyone */
+    Global = 'global',
+}
+
+/**
+ * The state of a bucket after it was hit.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface CooldownHit {
+    /** The amount of times the bucket was hit in the current window, including this hit */
+    uses: number;
+    /** The time in milliseconds until the current window ends */
+    resetAfter: number;
+}
+
+/**
+ * Storage backend for cooldown buckets.
+ * Buckets use fixed windows: the first hit starts a window of the given length, and every hit in it counts towards the limit.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface CooldownStore {
+    /**
+     * Counts a hit on a bucket, starting a new window if there is none.
+     * @param key - The key of the bucket
+     * @param window - The length of a new window in milliseconds
+     */
+    hit(key: string, window: number): Awaitable<CooldownHit>;
+    /**
+     * Takes back a hit on a bucket, if its window hasn't ended.
+     * @param key - The key of the bucket
+     */
+    release(key: string): Awaitable<void>;
+    /**
+     * Resets a bucket, so the next hit starts a new window.
+     * @param key - The key of the bucket
+     */
+    reset(key: string): Awaitable<void>;
+}
+
+/**
+ * Configuration for cooldowns, passed as the `cooldowns` client option.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface CooldownConfig {
+    /**
+     * The store for the cooldown buckets.
+     * @default new MemoryCooldownStore()
+     */
+    store?: CooldownStore;
+    /**
+     * Members at or above this permission level are exempt from cooldowns, unless a cooldown sets its own exemption.
+     * @default null
+     */
+    exempt?: PermissionLevel | null;
+}
+
+/**
+ * Options for the built-in `Cooldown` precondition.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface CooldownPreconditionOptions {
+    /**
+     * The length of the window in milliseconds.
+     */
+    window: number;
+    /**
+     * The amount of times the handler can be used within a window, the size of the bucket.
+     * @default 1
+     */
+    limit?: number;
+    /**
+     * What the bucket is shared between.
+     * @default CooldownScope.User
+     */
+    scope?: CooldownScope;
+    /**
+     * Members at or above this permission level are exempt from this cooldown.
+     * Set to `null` to exempt no one, even if the client configures an exemption.
+     * @default container.cooldowns.exempt
+     */
+    exempt?: PermissionLevel | null;
+    /**
+     * The name of the bucket, handlers using the same name share their limits.
+     * @default The kind and name (or custom ID) of the handler
+     */
+    bucket?: string;
+}
+// #endregion Types
+
+// #region Stores
+/**
+ * In-memory cooldown store, limits are not shared between processes.
+ * Expired buckets are swept while hitting the store.
+ * @since 0.4.0
+ * @category Classes
+ */
+export class MemoryCooldownStore implements CooldownStore {
+    private buckets = new Map<string, { uses: number; expires: number }>();
+    private lastSweep = Date.now();
+
+    /**
+     * @param sweepInterval - The minimum time in milliseconds between sweeps of expired buckets
+     */
+    public constructor(private readonly sweepInterval = 60_000) {}
+
+    public hit(key: string, window: number): CooldownHit {
+        const now = Date.now();
+        this.sweep(now);
+
+        let bucket = this.buckets.get(key);
+        if (bucket === undefined || bucket.expires <= now) {
+            bucket = { uses: 0, expires: now + window };
+            this.buckets.set(key, bucket);
+        }
+
+        bucket.uses++;
+        return { uses: bucket.uses, resetAfter: bucket.expires - now };
+    }
+
+    public release(key: string): void {
+        const bucket = this.buckets.get(key);
+        if (bucket === undefined || bucket.expires <= Date.now()) return;
+
+        bucket.uses = Math.max(bucket.uses - 1, 0);
+    }
+
+    public reset(key: string): void {
+        this.buckets.delete(key);
+    }
+
+    private sweep(now: number) {
+        if (now - this.lastSweep < this.sweepInterval) return;
+        this.lastSweep = now;
+
+        for (const [key, { expires }] of this.buckets) {
+            if (expires <= now) this.buckets.delete(key);
+        }
+    }
+}
+
+/**
+ * The subset of a Redis client used by the {@link RedisCooldownStore}, compatible with `ioredis`.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface RedisCooldownStoreClient {
+    eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+    del(...keys: string[]): Promise<unknown>;
+}
+
+/**
+ * Increments the bucket and starts the window on the first hit, atomically.
+ * Returns the uses and the remaining time of the window.
+ */
+const RedisHitScript = `
+local uses = redis.call('INCR', KEYS[1])
+if uses == 1 then
+    redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return { uses, redis.call('PTTL', KEYS[1]) }
+`;
+
+/**
+ * Decrements the bucket if its window hasn't ended, atomically.
+ * DECR keeps the expiry of the key, so the window isn't extended.
+ */
+const RedisReleaseScript = `
+local uses = tonumber(redis.call('GET', KEYS[1]))
+if uses and uses > 0 then
+    redis.call('DECR', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Redis cooldown store, limits are shared between every process using the same Redis instance and prefix.
+ * @since 0.4.0
+ * @category Classes
+ * @example
+ * ```ts
+ * import { Redis } from 'ioredis';
+ *
+ * const store = new RedisCooldownStore(new Redis(process.env.REDIS_URL));
+ * ```
+ */
+export class RedisCooldownStore implements CooldownStore {
+    /**
+     * @param client - The Redis client to use
+     * @param prefix - The prefix for the keys of the buckets
+     */
+    public constructor(
+        private readonly client: RedisCooldownStoreClient,
+        private readonly prefix = 'peridot:cooldown:',
+    ) {}
+
+    public async hit(key: string, window: number): Promise<CooldownHit> {
+        const [uses, ttl] = (await this.client.eval(RedisHitScript, 1, `${this.prefix}${key}`, window)) as [number, number];
+        // A negative TTL means the key has no expiry, which only happens if it was modified outside of this store
+        return { uses, resetAfter: ttl < 0 ? window : ttl };
+    }
+
+    public async release(key: string): Promise<void> {
+        await this.client.eval(RedisReleaseScript, 1, `${this.prefix}${key}`);
+    }
+
+    public async reset(key: string): Promise<void> {
+        await this.client.del(`${this.prefix}${key}`);
+    }
+}
+// #endregion Stores
+
+// #region Manager
+/**
+ * Manages the cooldown buckets of the handlers.
+ * Used by the built-in `Cooldown` precondition, and can be used directly to apply or reset cooldowns manually.
+ * @since 0.4.0
+ * @category Classes
+ */
+export class CooldownManager {
+    /** The store for the cooldown buckets */
+    public readonly store: CooldownStore;
+    /** Members at or above this permission level are exempt from cooldowns that don't set their own exemption */
+    public readonly exempt: PermissionLevel | null;
+
+    public constructor(config: CooldownConfig = {}) {
+        this.store = config.store ?? new MemoryCooldownStore();
+        this.exempt = config.exempt ?? null;
+    }
+
+    /**
+     * Takes a use from a bucket.
+     * @param bucket - The name of the bucket
+     * @param target - What the bucket is scoped to, for example a user ID
+     * @param limit - The amount of uses allowed within a window
+     * @param window - The length of the window in milliseconds
+     * @returns `ok` if the use was allowed, otherwise `err` with the time in milliseconds until the bucket resets
+     */
+    public async take(bucket: string, target: string, limit: number, window: number): Promise<Result<CooldownHit, number>> {
+        const hit = await this.store.hit(`${bucket}:${target}`, window);
+        return hit.uses <= limit ? Result.ok(hit) : Result.err(hit.resetAfter);
+    }
+
+    /**
+     * Gives back a use taken from a bucket, for example if the handler didn't run after all.
+     * @param bucket - The name of the bucket
+     * @param target - What the bucket is scoped to, for example a user ID
+     */
+    public async release(bucket: string, target: string): Promise<void> {
+        await this.store.release(`${bucket}:${target}`);
+    }
+
+    /**
+     * Resets a bucket, allowing it to be used right away.
+     * @param bucket - The name of the bucket
+     * @param target - What the bucket is scoped to, for example a user ID
+     */
+    public async reset(bucket: string, target: string): Promise<void> {
+        await this.store.reset(`${bucket}:${target}`);
+    }
+}
+// #endregion Manager
+
+// #region Precondition
+/** The buckets the `Cooldown` precondition took a use from, by payload, so they can be given back if the handler is denied later on */
+const takenBuckets = new WeakMap<PreconditionPayload, { bucket: string; target: string }[]>();
+
+/**
+ * Gets the default bucket name of a handler, from its kind and name or custom ID.
+ * @param payload - The precondition payload
+ */
+const getBucketName = (payload: PreconditionPayload): string => {
+    switch (payload.type) {
+        case 'textCommand':
+        case 'slashCommand':
+        case 'contextMenuCommand':
+            return `${payload.type}:${payload.handler.data.name}`;
+        default:
+            return `${payload.type}:${String(payload.handler.customId)}`;
+    }
+};
+
+/**
+ * Gets the target of a bucket for the scope.
+ * @param payload - The precondition payload
+ * @param scope - The scope of the cooldown
+ */
+const getBucketTarget = ({ trigger }: PreconditionPayload, scope: CooldownScope): string => {
+    switch (scope) {
+        case CooldownScope.User:
+            return ('author' in trigger ? trigger.author : trigger.user).id;
+        case CooldownScope.Channel:
+            return trigger.channelId ?? 'unknown';
+        case CooldownScope.Guild:
+            return trigger.guildId ?? `dm:${trigger.channelId}`;
+        case CooldownScope.Global:
+            return 'global';
+    }
+};
+
+/**
+ * Gets the permission level of the member that triggered the handler.
+ * @param payload - The precondition payload
+ */
+const getTriggerPermissionLevel = ({ trigger }: PreconditionPayload): Promise<PermissionLevel> => {
+    if ('author' in trigger) return getPermissionLevel(trigger.member ?? trigger.author);
+    return _getInteractionPermissionLevel(trigger);
+};
+
+/**
+ * Built-in precondition limiting how often a handler can be used, using `container.cooldowns`.
+ * Denies with {@link Identifiers.PreconditionCooldown}, the context contains the `remaining` time in milliseconds,
+ * the `scope`, the `limit` and the `window`.
+ *
+ * The use is given back if the handler is denied after this precondition passed, by a later precondition or check of the handler chain,
+ * so it doesn't matter where `Cooldown` is listed.
+ * @since 0.4.0
+ */
+export const CooldownPrecondition: Precondition<'Cooldown'> = {
+    name: 'Cooldown',
+    async run(payload, { window, limit = 1, scope = CooldownScope.User, exempt = container.cooldowns.exempt, bucket = getBucketName(payload) }) {
+        if (exempt !== null && (await getTriggerPermissionLevel(payload)) >= exempt) return Result.ok(undefined);
+
+        const target = getBucketTarget(payload, scope);
+        const result = await container.cooldowns.take(bucket, target, limit, window);
+        if (result.isOk()) takenBuckets.set(payload, [...(takenBuckets.get(payload) ?? []), { bucket, target }]);
+
+        return result.mapErr(
+            (remaining) =>
+                new UserError({
+                    identifier: Identifiers.PreconditionCooldown,
+                    message: `You are on cooldown, try again <t:${Math.ceil((Date.now() + remaining) / 1000)}:R>.`,
+                    context: { remaining, scope, limit, window },
+                }),
+        );
+    },
+    async release(payload, { scope = CooldownScope.User, bucket = getBucketName(payload) }) {
+        const target = getBucketTarget(payload, scope);
+        const taken = takenBuckets.get(payload) ?? [];
+
+        // Nothing was taken if the user was exempt
+        const index = taken.findIndex((entry) => entry.bucket === bucket && entry.target === target);
+        if (index === -1) return;
+
+        taken.splice(index, 1);
+        await container.cooldowns.release(bucket, target);
+    },
+};
+// #endregion Precondition
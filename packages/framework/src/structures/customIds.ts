@@ -0,0 +1,275 @@
+/**
+ * Provides structured custom IDs for components, built from routes with typed parameters.
+ * A route such as `ticket:close:{ticketId}:{page:number}` builds custom IDs from its parameters and parses them back,
+ * and component handlers using it as their `customId` receive the parameters in `ctx.params`.
+ *
+ * Parameters are `string` by default, `number` and `boolean` parameters are declared with `{name:number}` and `{name:boolean}`.
+ * Characters of parameter values that could be confused with the route are escaped, so they round-trip unchanged.
+ *
+ * @module structures/customIds
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * const closeTicket = createCustomIdRoute('ticket:close:{ticketId}');
+ *
+ * // When sending the message
+ * new ButtonBuilder().setCustomId(closeTicket.build({ ticketId: ticket.id })).setLabel('Close');
+ *
+ * // handlers/closeTicket.ts
+ * const button: ButtonComponent<CustomIdRouteParams<typeof closeTicket>> = {
+ *     customId: closeTicket,
+ *     async run(interaction, { params }) {
+ *         await tickets.close(params.ticketId);
+ *     },
+ * };
+ * ```
+ */
+
+import { Result } from '@sapphire/result';
+
+// #region Types
+/**
+ * The types a custom ID parameter can be declared with.
+ * @since 0.4.0
+ * @category Types
+ */
+export type CustomIdParamType = 'string' | 'number' | 'boolean';
+
+/**
+ * The parameters of a custom ID, by name.
+ * @since 0.4.0
+ * @category Types
+ */
+export type CustomIdParams = Record<string, string | number | boolean>;
+
+/**
+ * Gets the value type of a parameter type.
+ * @internal
+ * @category Types
+ */
+type CustomIdParamValue<Type extends CustomIdParamType> = Type extends 'number' ? number : Type extends 'boolean' ? boolean : string;
+
+/**
+ * Extracts the parameter declarations of a route, `name` or `name:type`.
+ * @internal
+ * @category Types
+ */
+type ExtractCustomIdDeclarations<Pattern extends string> = Pattern extends `${string}{${infer Declaration}}${infer Rest}`
+    ? Declaration | ExtractCustomIdDeclarations<Rest>
+    : never;
+
+/**
+ * The parameters declared in a route pattern.
+ * @since 0.4.0
+ * @category Types
+ * @template Pattern - The route pattern
+ * @example
+ * ```ts
+ * type Params = CustomIdPatternParams<'ticket:{ticketId}:{page:number}'>;
+ * // { ticketId: string; page: number }
+ * ```
+ */
+export type CustomIdPatternParams<Pattern extends string> = {
+    [
+        Declaration in ExtractCustomIdDeclarations<Pattern> as Declaration extends `${infer Name}:${CustomIdParamType}` ? Name : Declaration
+    ]: Declaration extends `${string}:${infer Type extends CustomIdParamType}` ? CustomIdParamValue<Type> : string;
+};
+
+/**
+ * The parameters of a route.
+ * @since 0.4.0
+ * @category Types
+ * @template Route - The route
+ */
+export type CustomIdRouteParams<Route extends CustomIdRoute> = Route extends CustomIdRoute<infer Params> ? Params : never;
+
+/**
+ * What a component handler matches custom IDs with: an exact string, a pattern, or a route.
+ * @since 0.4.0
+ * @category Types
+ */
+export type CustomIdMatcher<Params extends CustomIdParams = CustomIdParams> = string | RegExp | CustomIdRoute<Params>;
+// #endregion Types
+
+// #region Route
+/** The maximum length of a custom ID */
+const MaxCustomIdLength = 100;
+
+/** Matches the parameters declared in a route */
+const ParamPattern = /\{(\w+)(?::(\w+))?\}/g;
+
+/**
+ * A part of a route, either literal text or a parameter.
+ */
+type RoutePart = { literal: string } | { name: string; type: CustomIdParamType };
+
+/**
+ * Escapes the special characters of a regex.
+ */
+const escapeRegex = (text: string): string => text.replace(/[$()*+.?[\\\]^{|}]/g, '\\$&');
+
+/**
+ * Formats a character as an escape sequence of a regex, safe in character classes.
+ */
+const toRegexEscape = (character: string): string => `\\u{${character.codePointAt(0)!.toString(16)}}`;
+
+/**
+ * A custom ID route with typed parameters, building custom IDs and parsing them back.
+ * @since 0.4.0
+ * @category Classes
+ * @template Params - The parameters of the route, inferred from its pattern
+ */
+export class CustomIdRoute<Params extends CustomIdParams = CustomIdParams> {
+    /**
+     * The pattern of the route.
+     */
+    public readonly pattern: string;
+
+    /**
+     * Matches the custom IDs built by the route.
+     */
+    public readonly regex: RegExp;
+
+    private readonly parts: RoutePart[] = [];
+    private readonly escape: RegExp;
+
+    /**
+     * Creates a route from its pattern.
+     * @param pattern - The pattern of the route, with parameters declared as `{name}` or `{name:type}`
+     * @throws If a parameter has an unknown type or is declared twice
+     */
+    public constructor(pattern: string) {
+        this.pattern = pattern;
+
+        let index = 0;
+        for (const match of pattern.matchAll(ParamPattern)) {
+            const [declaration, name, type = 'string'] = match;
+            if (type !== 'string' && type !== 'number' && type !== 'boolean') {
+                throw new TypeError(`The parameter '${name}' of the custom ID route '${pattern}' has an unknown type '${type}'.`);
+            }
+            if (this.parts.some((part) => 'name' in part && part.name === name)) {
+                throw new TypeError(`The parameter '${name}' of the custom ID route '${pattern}' is declared twice.`);
+            }
+
+            if (match.index > index) this.parts.push({ literal: pattern.slice(index, match.index) });
+            this.parts.push({ name: name!, type });
+            index = match.index + declaration.length;
+        }
+        if (index < pattern.length) this.parts.push({ literal: pattern.slice(index) });
+
+        // Values can't contain the separators of the route, so parameters end at the next separator
+        const separators = [...new Set(pattern.replace(ParamPattern, '').replace(/[\p{L}\p{N}]/gu, ''))];
+        this.escape = new RegExp(`[${['%', ...separators].map(toRegexEscape).join('')}]`, 'gu');
+
+        const value = separators.length === 0 ? '(.*?)' : `([^${separators.map(toRegexEscape).join('')}]*)`;
+        this.regex = new RegExp(`^${this.parts.map((part) => ('literal' in part ? escapeRegex(part.literal) : value)).join('')}$`, 'u');
+    }
+
+    /**
+     * Builds a custom ID from the parameters.
+     * @param params - The values of the parameters
+     * @returns The custom ID
+     * @throws If the custom ID is longer than the 100 characters allowed by Discord
+     */
+    public build(params: Params): string {
+        const customId = this.parts
+            .map((part) => {
+                if ('literal' in part) return part.literal;
+
+                const value = params[part.name];
+                if (part.type === 'boolean') return value ? '1' : '0';
+                return String(value).replace(this.escape, (character) => Buffer.from(character).toString('hex').replace(/../g, '%$&'));
+            })
+            .join('');
+
+        if (customId.length > MaxCustomIdLength) {
+            throw new RangeError(
+                `The custom ID '${customId}' built by the route '${this.pattern}' is ${customId.length} characters long, the maximum is ${MaxCustomIdLength}.`,
+            );
+        }
+
+        return customId;
+    }
+
+    /**
+     * Parses the parameters of a custom ID built by the route.
+     * @param customId - The custom ID
+     * @returns The parameters, or `null` if the custom ID doesn't match the route
+     */
+    public parse(customId: string): Params | null {
+        const match = this.regex.exec(customId);
+        if (!match) return null;
+
+        const params: CustomIdParams = {};
+        let group = 1;
+        for (const part of this.parts) {
+            if ('literal' in part) continue;
+
+            const raw = Result.from(() => decodeURIComponent(match[group++]!)).unwrapOr(null);
+            if (raw === null) return null;
+
+            switch (part.type) {
+                case 'number': {
+                    const value = Number(raw);
+                    if (raw.length === 0 || Number.isNaN(value)) return null;
+                    params[part.name] = value;
+                    break;
+                }
+                case 'boolean':
+                    if (raw !== '1' && raw !== '0') return null;
+                    params[part.name] = raw === '1';
+                    break;
+                default:
+                    params[part.name] = raw;
+            }
+        }
+
+        return params as Params;
+    }
+
+    /**
+     * Tests whether a custom ID was built by the route.
+     * @param customId - The custom ID
+     */
+    public test(customId: string): boolean {
+        return this.parse(customId) !== null;
+    }
+
+    /**
+     * Returns the pattern of the route.
+     */
+    public toString(): string {
+        return this.pattern;
+    }
+}
+
+/**
+ * Creates a custom ID route, with the parameters inferred from its pattern.
+ * @since 0.4.0
+ * @category Functions
+ * @param pattern - The pattern of the route, with parameters declared as `{name}` or `{name:type}`
+ * @returns The route
+ * @example
+ * ```ts
+ * const page = createCustomIdRoute('list:{listId}:{page:number}');
+ * page.build({ listId: 'abc', page: 2 }); // 'list:abc:2'
+ * page.parse('list:abc:2'); // { listId: 'abc', page: 2 }
+ * ```
+ */
+export const createCustomIdRoute = <const Pattern extends string>(pattern: Pattern): CustomIdRoute<CustomIdPatternParams<Pattern>> =>
+    new CustomIdRoute<CustomIdPatternParams<Pattern>>(pattern);
+// #endregion Route
+
+// #region Matching
+/**
+ * Gets the parameters of a custom ID for a component handler.
+ * Routes parse their parameters, patterns use their named groups, and exact matches have none.
+ * @param matcher - The custom ID matcher of the component
+ * @param customId - The custom ID of the interaction
+ */
+export const _getCustomIdParams = (matcher: CustomIdMatcher, customId: string): CustomIdParams => {
+    if (matcher instanceof CustomIdRoute) return matcher.parse(customId) ?? {};
+    if (matcher instanceof RegExp) return { ...matcher.exec(customId)?.groups };
+    return {};
+};
+// #endregion Matching
@@ -0,0 +1,236 @@
+/**
+ * Provides error reporters, receiving every error of the framework with normalized metadata.
+ * Reporters are passed as the `errorReporters` client option, and receive the errors of every `*Error` event:
+ * errors thrown by handlers without an `onError` hook (or thrown by the hook itself), autocomplete errors,
+ * typing indicator errors of text commands, client event errors, application command sync errors and handler loading errors.
+ *
+ * This module provides:
+ * - The {@link ErrorReporter} interface, to report errors to any service
+ * - A reporter appending errors to a JSON Lines file
+ * - A reporter posting errors to a Discord channel
+ *
+ * @module structures/errorReporters
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * const client = new PeridotClient({
+ *     // ...
+ *     errorReporters: [new JsonlFileErrorReporter('./logs/errors.jsonl'), new DiscordChannelErrorReporter(process.env.ERROR_CHANNEL_ID)],
+ * });
+ * ```
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import type { Awaitable } from '@sapphire/utilities';
+import { type Client, codeBlock, Colors, EmbedBuilder, type Snowflake } from 'discord.js';
+
+import { UserError } from '../errors/UserError.js';
+import { Events } from '../events/index.js';
+import { container } from './container.js';
+
+// #region Types
+/**
+ * An error reported by the framework, with normalized metadata.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface ErrorReport {
+    /** The event that reported the error, such as `slashCommandError` */
+    event: string;
+    /** The error */
+    error: unknown;
+    /** The name of the handler: the command name, the custom ID of the component, the client event or the path of the handler file */
+    handler: string | null;
+    /** The ID of the user that invoked the handler */
+    user: Snowflake | null;
+    /** The ID of the guild the handler was invoked in */
+    guild: Snowflake | null;
+    /** The time in milliseconds the handler ran for before failing */
+    duration: number | null;
+    /** The time the error was reported at, in milliseconds since the epoch */
+    timestamp: number;
+}
+
+/**
+ * Reports errors, for example to a file, a channel or an error tracking service.
+ * Errors thrown while reporting are logged and don't affect the other reporters.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface ErrorReporter {
+    /**
+     * Reports an error.
+     * @param report - The error with its metadata
+     */
+    report(report: ErrorReport): Awaitable<void>;
+}
+// #endregion Types
+
+// #region Reporters
+/**
+ * Converts an error to a plain object, keeping the identifier and context of {@link UserError}s.
+ */
+const serializeError = (error: unknown): unknown => {
+    if (!(error instanceof Error)) return error;
+
+    const serialized: Record<string, unknown> = { name: error.name, message: error.message, stack: error.stack };
+    if (error instanceof UserError) {
+        serialized.identifier = error.identifier;
+        serialized.context = error.context;
+    }
+
+    return serialized;
+};
+
+/**
+ * Error reporter appending every error to a JSON Lines file, one JSON object per line.
+ * The directory of the file is created if needed, and writes are serialized.
+ * @since 0.4.0
+ * @category Classes
+ */
+export class JsonlFileErrorReporter implements ErrorReporter {
+    private writes: Promise<void> = Promise.resolve();
+
+    /**
+     * @param path - The path of the file
+     */
+    public constructor(private readonly path: string) {}
+
+    public report(report: ErrorReport): Promise<void> {
+        const line = `${JSON.stringify({ ...report, timestamp: new Date(report.timestamp).toISOString(), error: serializeError(report.error) })}\n`;
+
+        const write = this.writes.then(async () => {
+            await mkdir(dirname(this.path), { recursive: true });
+            await appendFile(this.path, line);
+        });
+
+        // A failed write must not prevent the following ones
+        this.writes = write.catch(() => undefined);
+        return write;
+    }
+}
+
+/**
+ * Error reporter posting every error to a Discord channel, as an embed with the stack trace.
+ * @since 0.4.0
+ * @category Classes
+ */
+export class DiscordChannelErrorReporter implements ErrorReporter {
+    /**
+     * @param channelId - The ID of the channel to post the errors in
+     */
+    public constructor(private readonly channelId: Snowflake) {}
+
+    public async report(report: ErrorReport): Promise<void> {
+        const channel = await container.client.channels.fetch(this.channelId);
+        if (!channel?.isSendable()) {
+            throw new Error(`The error reporting channel '${this.channelId}' doesn't exist or isn't a text channel.`);
+        }
+
+        const { error } = report;
+        const details = error instanceof Error ? (error.stack ?? `${error.name}: ${error.message}`) : String(error);
+
+        const embed = new EmbedBuilder()
+            .setTitle(report.event)
+            .setDescription(codeBlock(details.slice(0, 4000)))
+            .setColor(Colors.Red)
+            .setTimestamp(report.timestamp)
+            .addFields(
+                { name: 'Handler', value: report.handler ?? 'None', inline: true },
+                { name: 'User', value: report.user ? `<@${report.user}>` : 'None', inline: true },
+                { name: 'Guild', value: report.guild ?? 'None', inline: true },
+                { name: 'Duration', value: report.duration === null ? 'Unknown' : `${report.duration.toFixed(2)}ms`, inline: true },
+            );
+
+        await channel.send({ embeds: [embed], allowedMentions: { parse: [] } });
+    }
+}
+// #endregion Reporters
+
+// #region Registration
+/**
+ * Registers the error reporters on the `*Error` events of the client.
+ * @param client - The client
+ * @param reporters - The error reporters
+ * @internal Called internally by the client on initialization
+ */
+export const _registerErrorReporters = (client: Client, reporters: readonly ErrorReporter[]) => {
+    if (reporters.length === 0) return;
+
+    const report = (
+        event: string,
+        error: unknown,
+        metadata: Omit<ErrorReport, 'event' | 'error' | 'timestamp' | 'duration'> & { duration?: number },
+    ) => {
+        const { duration = -1, ...rest } = metadata;
+        const errorReport: ErrorReport = { event, error, ...rest, duration: duration < 0 ? null : duration, timestamp: Date.now() };
+
+        for (const reporter of reporters) {
+            Promise.resolve()
+                .then(() => reporter.report(errorReport))
+                .catch((err: unknown) => container.logger.error({ err, event }, 'Failed to report an error'));
+        }
+    };
+
+    client.on(Events.TextCommandError, (error, { message, command, duration }) =>
+        report(Events.TextCommandError, error, { handler: command.data.name, user: message.author.id, guild: message.guildId, duration }),
+    );
+    client.on(Events.TextCommandTypingError, (error, { message, command }) =>
+        report(Events.TextCommandTypingError, error, { handler: command.data.name, user: message.author.id, guild: message.guildId }),
+    );
+    client.on(Events.SlashCommandError, (error, { interaction, command, duration }) =>
+        report(Events.SlashCommandError, error, { handler: command.data.name, user: interaction.user.id, guild: interaction.guildId, duration }),
+    );
+    client.on(Events.AutocompleteInteractionError, (error, { interaction, command, duration }) =>
+        report(Events.AutocompleteInteractionError, error, {
+            handler: command.data.name,
+            user: interaction.user.id,
+            guild: interaction.guildId,
+            duration,
+        }),
+    );
+    client.on(Events.ContextMenuCommandError, (error, { interaction, command, duration }) =>
+        report(Events.ContextMenuCommandError, error, {
+            handler: command.data.name,
+            user: interaction.user.id,
+            guild: interaction.guildId,
+            duration,
+        }),
+    );
+    client.on(Events.ButtonInteractionError, (error, { interaction, component, duration }) =>
+        report(Events.ButtonInteractionError, error, {
+            handler: String(component.customId),
+            user: interaction.user.id,
+            guild: interaction.guildId,
+            duration,
+        }),
+    );
+    client.on(Events.SelectMenuInteractionError, (error, { interaction, component, duration }) =>
+        report(Events.SelectMenuInteractionError, error, {
+            handler: String(component.customId),
+            user: interaction.user.id,
+            guild: interaction.guildId,
+            duration,
+        }),
+    );
+    client.on(Events.ModalSubmitInteractionError, (error, { interaction, component, duration }) =>
+        report(Events.ModalSubmitInteractionError, error, {
+            handler: String(component.customId),
+            user: interaction.user.id,
+            guild: interaction.guildId,
+            duration,
+        }),
+    );
+    client.on(Events.ClientEventError, (error, { handler, duration }) =>
+        report(Events.ClientEventError, error, { handler: handler.name, user: null, guild: null, duration }),
+    );
+    client.on(Events.ApplicationCommandSyncError, (error) =>
+        report(Events.ApplicationCommandSyncError, error, { handler: null, user: null, guild: null }),
+    );
+    client.on(Events.HandlerExportLoadError, (error, path) =>
+        report(Events.HandlerExportLoadError, error, { handler: path, user: null, guild: null }),
+    );
+};
+// #endregion Registration
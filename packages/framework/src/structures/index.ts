@@ -3,18 +3,49 @@
  * This module exports all the core structural components needed to build a Discord bot.
  * 
  * The structures module provides:
+ * - Application command sync
+ * - Per-option autocomplete
+ * - Auto-defer for interactions
+ * - Interactive awaiters for components and modals
  * - Client implementation and configuration
+ * - Component state storage
+ * - Cooldowns and rate limits
+ * - Structured custom IDs for components
+ * - Error reporters
  * - Global container for framework components
  * - Handler loading and management
- * - Permission system
+ * - Declarative modal forms
+ * - Paginator for browsing pages with buttons
+ * - Permission system and permission admin commands
  * - Plugin system
+ * - Preconditions
+ * - Response rendering for errors and denials
+ * - Handler timeouts
+ * - Invocation scope for the current handler invocation
+ * - Typing indicator for text commands
  * 
  * @module structures
  * @since 0.2.6
  */
 
+export * from './applicationCommands.js';
+export * from './autocomplete.js';
+export * from './autoDefer.js';
+export * from './awaiters.js';
 export * from './client.js';
+export * from './componentState.js';
 export * from './container.js';
+export * from './cooldowns.js';
+export * from './customIds.js';
+export * from './errorReporters.js';
 export * from './loaders.js';
+export * from './modalForms.js';
+export * from './paginator.js';
+export * from './permissionCommands.js';
 export * from './permissions.js';
 export * from './plugins.js';
+export * from './preconditions.js';
+export * from './responses.js';
+export * from './scope.js';
+export * from './timeouts.js';
+export * from './typing.js';
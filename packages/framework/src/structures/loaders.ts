@@ -12,13 +12,17 @@
  * @since 0.2.6
  */
 
+import { type FSWatcher, watch } from 'node:fs';
 import { readdir, stat } from 'node:fs/promises';
-import { join } from 'node:path';
+import { basename, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
 
-import { err, ok, type Result } from '@sapphire/result';
+import { err, ok, Result } from '@sapphire/result';
+import { Stopwatch } from '@sapphire/stopwatch';
 import type { Awaitable } from '@sapphire/utilities/types';
 import type { ClientEvents, SelectMenuType } from 'discord.js';
 
+import { Events } from '../events/index.js';
 import {
     type ButtonComponent,
     type ClientEvent,
@@ -29,6 +33,7 @@ import {
     type TextCommand,
 } from '../index.js';
 import { container } from './container.js';
+import type { CustomIdRoute } from './customIds.js';
 
 /**
  * A predicate function used to validate loaded structures.
@@ -60,6 +65,16 @@ export type StructurePredicate<T> = (structure: unknown) => structure is T;
  * ```
  */
 export async function loadStructures<T>(dir: string, predicate: StructurePredicate<T>, recursive = true): Promise<T[]> {
+    const entries = await _loadStructureEntries(dir, predicate, recursive);
+    return entries.map(([, structure]) => structure);
+}
+
+/**
+ * Same as {@link loadStructures}, but keeps track of the file each structure was loaded from.
+ * @internal Used by the {@link HandlerRegistryManager} to support reloading individual files.
+ * @since 0.4.0
+ */
+export async function _loadStructureEntries<T>(dir: string, predicate: StructurePredicate<T>, recursive = true): Promise<[string, T][]> {
     const { logger } = container;
 
     logger.trace({ dir }, 'Loading structures');
@@ -75,7 +90,7 @@ export async function loadStructures<T>(dir: string, predicate: StructurePredica
     const files = await readdir(dir);
 
     // Create an empty array to store the structures
-    const structures: T[] = [];
+    const structures: [string, T][] = [];
 
     // Loop through all the files in the directory
     for (const file of files) {
@@ -87,12 +102,12 @@ export async function loadStructures<T>(dir: string, predicate: StructurePredica
 
         // If the file is a directory and recursive is true, recursively load the structures in the directory
         if (statFile.isDirectory() && recursive) {
-            structures.push(...(await loadStructures(`${dir}/${file}`, predicate, recursive)));
+            structures.push(...(await _loadStructureEntries(`${dir}/${file}`, predicate, recursive)));
             continue;
         }
 
         // If the file is index.ts or the file does not end with .ts, skip the file
-        if (file === 'index.ts' || !file.endsWith('.ts') || file.endsWith('.lib.ts')) {
+        if (!isStructureFile(file)) {
             continue;
         }
 
@@ -100,12 +115,18 @@ export async function loadStructures<T>(dir: string, predicate: StructurePredica
         const structure = (await import(`${dir}/${file}`)).default;
 
         // If the structure is a valid structure, add it
-        if (predicate(structure)) structures.push(structure);
+        if (predicate(structure)) structures.push([`${dir}/${file}`, structure]);
     }
 
     return structures;
 }
 
+/**
+ * Whether the file name is one that {@link loadStructures} would load.
+ * @param file - The name of the file
+ */
+const isStructureFile = (file: string) => file !== 'index.ts' && file.endsWith('.ts') && !file.endsWith('.lib.ts');
+
 /**
  * Symbol used to mark handler exports. Used internally by the framework.
  * Instead of using this directly, use the {@link createHandlerExport} function.
@@ -380,22 +401,22 @@ export class ContextMenuCommandRegistry implements HandlerRegistry<ContextMenuCo
 export class ButtonComponentRegistry implements HandlerRegistry<ButtonComponent> {
     public readonly name = 'buttonComponents';
     private staticHandlers = new Map<string, ButtonComponent>();
-    private regexHandlers = new Map<RegExp, ButtonComponent>();
+    private regexHandlers = new Map<RegExp | CustomIdRoute, ButtonComponent>();
 
     public _register(handler: ButtonComponent): Awaitable<this> {
-        if (handler.customId instanceof RegExp) {
-            this.regexHandlers.set(handler.customId, handler);
-        } else {
+        if (typeof handler.customId === 'string') {
             this.staticHandlers.set(handler.customId, handler);
+        } else {
+            this.regexHandlers.set(handler.customId, handler);
         }
         return this;
     }
 
     public _unregister(handler: ButtonComponent): Awaitable<this> {
-        if (handler.customId instanceof RegExp) {
-            this.regexHandlers.delete(handler.customId);
-        } else {
+        if (typeof handler.customId === 'string') {
             this.staticHandlers.delete(handler.customId);
+        } else {
+            this.regexHandlers.delete(handler.customId);
         }
         return this;
     }
@@ -416,8 +437,8 @@ export class ButtonComponentRegistry implements HandlerRegistry<ButtonComponent>
             return ok(staticHandler);
         }
 
-        for (const [regex, handler] of this.regexHandlers) {
-            if (regex.test(id)) {
+        for (const [matcher, handler] of this.regexHandlers) {
+            if (matcher.test(id)) {
                 return ok(handler);
             }
         }
@@ -430,21 +451,21 @@ export class ModalComponentRegistry implements HandlerRegistry<ModalComponent> {
     public readonly name = 'modalComponents';
 
     private staticHandlers = new Map<string, ModalComponent>();
-    private regexHandlers = new Map<RegExp, ModalComponent>();
+    private regexHandlers = new Map<RegExp | CustomIdRoute, ModalComponent>();
 
     public _register(handler: ModalComponent): Awaitable<this> {
-        if (handler.customId instanceof RegExp) {
-            this.regexHandlers.set(handler.customId, handler);
-        } else {
+        if (typeof handler.customId === 'string') {
             this.staticHandlers.set(handler.customId, handler);
+        } else {
+            this.regexHandlers.set(handler.customId, handler);
         }
         return this;
     }
     public _unregister(handler: ModalComponent): Awaitable<this> {
-        if (handler.customId instanceof RegExp) {
-            this.regexHandlers.delete(handler.customId);
-        } else {
+        if (typeof handler.customId === 'string') {
             this.staticHandlers.delete(handler.customId);
+        } else {
+            this.regexHandlers.delete(handler.customId);
         }
         return this;
     }
@@ -461,8 +482,8 @@ export class ModalComponentRegistry implements HandlerRegistry<ModalComponent> {
         if (staticHandler !== undefined) {
             return ok(staticHandler);
         }
-        for (const [regex, handler] of this.regexHandlers) {
-            if (regex.test(id)) {
+        for (const [matcher, handler] of this.regexHandlers) {
+            if (matcher.test(id)) {
                 return ok(handler);
             }
         }
@@ -477,23 +498,23 @@ export class SelectMenuComponentRegistry implements HandlerRegistry<SelectMenuCo
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     private staticHandlers = new Map<string, SelectMenuComponent<any>>();
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    private regexHandlers = new Map<RegExp, SelectMenuComponent<any>>();
+    private regexHandlers = new Map<RegExp | CustomIdRoute, SelectMenuComponent<any>>();
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     public _register(handler: SelectMenuComponent<any>): Awaitable<this> {
-        if (handler.customId instanceof RegExp) {
-            this.regexHandlers.set(handler.customId, handler);
-        } else {
+        if (typeof handler.customId === 'string') {
             this.staticHandlers.set(handler.customId, handler);
+        } else {
+            this.regexHandlers.set(handler.customId, handler);
         }
         return this;
     }
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     public _unregister(handler: SelectMenuComponent<any>): Awaitable<this> {
-        if (handler.customId instanceof RegExp) {
-            this.regexHandlers.delete(handler.customId);
-        } else {
+        if (typeof handler.customId === 'string') {
             this.staticHandlers.delete(handler.customId);
+        } else {
+            this.regexHandlers.delete(handler.customId);
         }
         return this;
     }
@@ -511,8 +532,8 @@ export class SelectMenuComponentRegistry implements HandlerRegistry<SelectMenuCo
         if (staticHandler !== undefined) {
             return ok(staticHandler);
         }
-        for (const [regex, handler] of this.regexHandlers) {
-            if (regex.test(id)) {
+        for (const [matcher, handler] of this.regexHandlers) {
+            if (matcher.test(id)) {
                 return ok(handler);
             }
         }
@@ -520,22 +541,68 @@ export class SelectMenuComponentRegistry implements HandlerRegistry<SelectMenuCo
     }
 }
 
+/**
+ * Wraps a client event handler, so its errors go to its `onError` hook or are emitted as {@link Events.ClientEventError}.
+ * @param handler - The client event handler
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const createClientEventListener = (handler: ClientEvent<any>) => {
+    const { client, logger } = container;
+
+    const emitError = (error: unknown, duration: number) => {
+        // Handlers of the error event itself only log, so a failing handler can't report its own error forever
+        if (handler.name === Events.ClientEventError) logger.error({ err: error, event: handler.name, duration }, 'ClientEventError');
+        else client.emit(Events.ClientEventError, error, { handler, duration });
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return async (...args: any[]) => {
+        const stopwatch = new Stopwatch();
+
+        try {
+            await handler.run(...args);
+        } catch (error) {
+            const { duration } = stopwatch.stop();
+            if (!handler.onError) {
+                emitError(error, duration);
+                return;
+            }
+
+            try {
+                await handler.onError(error, ...args);
+            } catch (handlerError) {
+                // If the error handler throws, emit that as the error instead
+                emitError(handlerError, duration);
+            }
+        }
+    };
+};
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export class ClientEventRegistry implements HandlerRegistry<ClientEvent<any>> {
     public readonly name = 'clientEvents';
 
     private handlers = new Map<keyof ClientEvents, Set<ClientEvent<keyof ClientEvents>>>();
 
+    /**
+     * The listeners registered on the client, wrapping the handlers to catch their errors.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private listeners = new Map<ClientEvent<any>, (...args: any[]) => Promise<void>>();
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     public _register(handler: ClientEvent<any>): Awaitable<this> {
         const events = this.handlers.get(handler.name) ?? new Set();
         events.add(handler);
         this.handlers.set(handler.name, events);
 
+        const listener = this.listeners.get(handler) ?? createClientEventListener(handler);
+        this.listeners.set(handler, listener);
+
         if (handler.type === 'on') {
-            container.client.on(handler.name, handler.run);
+            container.client.on(handler.name, listener);
         } else {
-            container.client.once(handler.name, handler.run);
+            container.client.once(handler.name, listener);
         }
 
         return this;
@@ -551,7 +618,11 @@ export class ClientEventRegistry implements HandlerRegistry<ClientEvent<any>> {
             }
         }
 
-        container.client.off(handler.name, handler.run);
+        const listener = this.listeners.get(handler);
+        if (listener !== undefined) {
+            container.client.off(handler.name, listener);
+            this.listeners.delete(handler);
+        }
 
         return this;
     }
@@ -559,11 +630,13 @@ export class ClientEventRegistry implements HandlerRegistry<ClientEvent<any>> {
     public _unregisterAll(): Awaitable<this> {
         for (const [name, events] of this.handlers) {
             for (const event of events) {
-                container.client.off(name, event.run);
+                const listener = this.listeners.get(event);
+                if (listener !== undefined) container.client.off(name, listener);
             }
         }
 
         this.handlers.clear();
+        this.listeners.clear();
         return this;
     }
 
@@ -623,6 +696,12 @@ export class HandlerRegistryManager {
     // So we use a map to store the registries
     public readonly registries = new Map<keyof HandlerRegistries, HandlerRegistries[keyof HandlerRegistries]>();
 
+    /**
+     * The handler exports that were loaded, keyed by the path of the file they were loaded from.
+     * Used to unregister the old handlers when a file is reloaded.
+     */
+    private readonly loadedExports = new Map<string, HandlerExport>();
+
     /**
      * Registers a handler registry.
      * @param registry The registry to register.
@@ -690,22 +769,170 @@ export class HandlerRegistryManager {
 
         logger.debug({ dir }, 'Loading handlers from');
 
-        const _exports = await loadStructures(dir, isHandlerExport, recursive);
+        const entries = await _loadStructureEntries(dir, isHandlerExport, recursive);
 
         if (overwrite) {
             await Promise.all([...this.registries.values()].map((registry) => registry._unregisterAll()));
+            this.loadedExports.clear();
+        }
+
+        for (const [path, _export] of entries) {
+            await this.registerHandlerExport(_export);
+            this.loadedExports.set(resolve(path), _export);
         }
+    }
+
+    /**
+     * Re-imports a single handler file and swaps its handlers in every registry, including the ones added by plugins.
+     *
+     * The new handlers are only registered once the file has been imported successfully,
+     * so a broken file never drops the handlers that were previously loaded from it.
+     * If the file no longer exists, the handlers previously loaded from it are unregistered.
+     *
+     * **Only the file itself is re-imported, modules it imports (such as `.lib.ts` files) are served from the module cache.**
+     *
+     * @since 0.4.0
+     * @param path - The path of the handler file to reload
+     * @returns Whether the file was reloaded (or unloaded) successfully
+     * @example
+     * ```ts
+     * await container.handlers.reloadHandlerExport(
+     *   new URL('handlers/ping.ts', import.meta.url).pathname
+     * );
+     * ```
+     */
+    public async reloadHandlerExport(path: string): Promise<boolean> {
+        const { client, logger } = container;
+        path = resolve(path);
+        const previous = this.loadedExports.get(path);
+
+        const exists = await stat(path).then(
+            (stats) => stats.isFile(),
+            () => false,
+        );
+
+        if (!exists) {
+            if (previous === undefined) return true;
+
+            await this.unregisterHandlerExport(previous);
+            this.loadedExports.delete(path);
+            client.emit(Events.HandlerExportUnloaded, path);
+            return true;
+        }
+
+        logger.trace({ path }, 'Reloading handler file');
+
+        // Appending a query string busts the ESM module cache, so we always get the latest version of the file
+        const imported = await Result.fromAsync(async () => (await import(`${pathToFileURL(path).href}?update=${Date.now()}`)).default);
+
+        if (imported.isErr()) {
+            client.emit(Events.HandlerExportLoadError, imported.unwrapErr(), path);
+            return false;
+        }
+
+        const _export = imported.unwrap();
+        if (!isHandlerExport(_export)) {
+            client.emit(Events.HandlerExportLoadError, new Error(`The file '${path}' does not default export a handler export.`), path);
+            return false;
+        }
+
+        const swapped = await Result.fromAsync(async () => {
+            if (previous !== undefined) await this.unregisterHandlerExport(previous);
+            await this.registerHandlerExport(_export);
+        });
+
+        if (swapped.isErr()) {
+            // Roll back to the previous handlers so the file keeps working as it did before
+            await this.unregisterHandlerExport(_export);
+            if (previous !== undefined) await this.registerHandlerExport(previous);
+
+            client.emit(Events.HandlerExportLoadError, swapped.unwrapErr(), path);
+            return false;
+        }
+
+        this.loadedExports.set(path, _export);
+        client.emit(Events.HandlerExportReloaded, path, _export);
+        return true;
+    }
 
-        for (const _export of _exports) {
-            for (const [name, registry] of this.registries.entries()) {
-                for (const handler of _export[name] ?? []) {
-                    await registry._register(handler as never);
-                }
+    /**
+     * Watches a directory for changes and reloads the changed handler files using {@link HandlerRegistryManager.reloadHandlerExport}.
+     * The same files as {@link loadStructures} are considered, other files are ignored.
+     *
+     * Meant for development, call {@link HandlerRegistryManager.loadHandlerExports} first to load the initial handlers.
+     *
+     * @since 0.4.0
+     * @param dir - The directory to watch
+     * @param recursive - Whether to also watch subdirectories
+     * @returns The underlying watcher, close it to stop watching
+     * @example
+     * ```ts
+     * const dir = new URL('handlers/', import.meta.url).pathname;
+     *
+     * await container.handlers.loadHandlerExports(dir);
+     * if (process.env.NODE_ENV === 'development') {
+     *     container.handlers.watchHandlerExports(dir);
+     * }
+     * ```
+     */
+    public watchHandlerExports(dir: string, recursive = true): FSWatcher {
+        // Editors usually emit several events per save, so changes are debounced per file
+        const pending = new Map<string, NodeJS.Timeout>();
+
+        const watcher = watch(dir, { recursive }, (_event, filename) => {
+            if (filename === null || !isStructureFile(basename(filename))) return;
+
+            const path = join(dir, filename);
+            clearTimeout(pending.get(path));
+            pending.set(
+                path,
+                setTimeout(() => {
+                    pending.delete(path);
+                    void this.reloadHandlerExport(path).catch((error: unknown) => container.client.emit(Events.HandlerExportLoadError, error, path));
+                }, WatchDebounceTime),
+            );
+        });
+
+        watcher.on('close', () => {
+            for (const timeout of pending.values()) clearTimeout(timeout);
+            pending.clear();
+        });
+
+        container.logger.debug({ dir }, 'Watching handlers in');
+
+        return watcher;
+    }
+
+    /**
+     * Registers all handlers of a handler export in their registries.
+     * @param _export - The handler export to register
+     */
+    private async registerHandlerExport(_export: HandlerExport) {
+        for (const [name, registry] of this.registries.entries()) {
+            for (const handler of _export[name] ?? []) {
+                await registry._register(handler as never);
+            }
+        }
+    }
+
+    /**
+     * Unregisters all handlers of a handler export from their registries.
+     * @param _export - The handler export to unregister
+     */
+    private async unregisterHandlerExport(_export: HandlerExport) {
+        for (const [name, registry] of this.registries.entries()) {
+            for (const handler of _export[name] ?? []) {
+                await registry._unregister(handler as never);
             }
         }
     }
 }
 
+/**
+ * The time in milliseconds to wait for a file to settle before reloading it.
+ */
+const WatchDebounceTime = 100;
+
 /**
  * Used to register the built-in handler registries.
  * @internal This is an internal function and should not be used directly.
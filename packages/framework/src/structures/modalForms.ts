@@ -0,0 +1,394 @@
+/**
+ * Provides declarative modal forms, with typed and validated fields.
+ * A form declares its fields once, builds the modal to show and parses submissions into a typed object.
+ *
+ * This module provides:
+ * - Text fields with required, length and pattern constraints
+ * - Integer, number and date fields, resolved like the arguments of text commands
+ * - Parsing of submissions in modal handlers declaring the form, into `ctx.fields`
+ * - Reporting invalid submissions to the user ephemerally, with a button to reopen the modal filled with their answers
+ *
+ * @module structures/modalForms
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * const reportForm = createModalForm({
+ *     title: 'Report a bug',
+ *     fields: {
+ *         summary: { label: 'Summary', maxLength: 100 },
+ *         version: { label: 'Version', pattern: /^\d+\.\d+\.\d+$/, placeholder: '1.2.3' },
+ *         occurrences: { label: 'How many times did it happen?', type: 'integer', minimum: 1, required: false },
+ *         details: { label: 'Details', style: TextInputStyle.Paragraph },
+ *     },
+ * });
+ *
+ * // When showing the modal
+ * await interaction.showModal(reportForm.build('bug-report'));
+ *
+ * // handlers/bugReport.ts
+ * const modal: ModalComponent<CustomIdParams, unknown, typeof reportForm> = {
+ *     customId: 'bug-report',
+ *     form: reportForm,
+ *     async run(interaction, { fields }) {
+ *         // fields.occurrences is a number or undefined
+ *         return true;
+ *     },
+ * };
+ * ```
+ */
+
+import { Result } from '@sapphire/result';
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonStyle,
+    Colors,
+    EmbedBuilder,
+    type ModalActionRowComponentBuilder,
+    ModalBuilder,
+    type ModalSubmitInteraction,
+    TextInputBuilder,
+    TextInputStyle,
+} from 'discord.js';
+
+import { Identifiers } from '../errors/Identifiers.js';
+import { UserError } from '../errors/UserError.js';
+import type { ButtonComponent } from '../handlers/ButtonComponent.js';
+import { resolveDate } from '../resolvers/date.js';
+import { resolveInteger } from '../resolvers/integer.js';
+import { resolveNumber } from '../resolvers/number.js';
+import { _splitComponentStateKey } from './componentState.js';
+import { container } from './container.js';
+import { createCustomIdRoute } from './customIds.js';
+
+// #region Types
+/**
+ * The types a field can be resolved to.
+ * @since 0.4.0
+ * @category Types
+ */
+export type ModalFormFieldType = 'string' | 'integer' | 'number' | 'date';
+
+/**
+ * A field of a modal form.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface ModalFormField {
+    /**
+     * The label of the field, at most 45 characters.
+     */
+    label: string;
+    /**
+     * The type the value is resolved to.
+     * @default 'string'
+     */
+    type?: ModalFormFieldType;
+    /**
+     * The style of the text input.
+     * @default TextInputStyle.Short
+     */
+    style?: TextInputStyle;
+    /**
+     * The placeholder of the text input.
+     */
+    placeholder?: string;
+    /**
+     * The value the text input is filled with.
+     */
+    value?: string;
+    /**
+     * Whether the field must be filled, optional fields are `undefined` when left empty.
+     * @default true
+     */
+    required?: boolean;
+    /**
+     * The minimum length of the value.
+     */
+    minLength?: number;
+    /**
+     * The maximum length of the value.
+     */
+    maxLength?: number;
+    /**
+     * A pattern the value must match.
+     */
+    pattern?: RegExp;
+    /**
+     * The minimum value of integer and number fields, or the minimum timestamp of date fields.
+     */
+    minimum?: number;
+    /**
+     * The maximum value of integer and number fields, or the maximum timestamp of date fields.
+     */
+    maximum?: number;
+}
+
+/**
+ * Options for {@link createModalForm}.
+ * @since 0.4.0
+ * @category Interfaces
+ * @template Fields - The fields of the form, by custom ID
+ */
+export interface ModalFormOptions<Fields extends Record<string, ModalFormField> = Record<string, ModalFormField>> {
+    /**
+     * The title of the modal, at most 45 characters.
+     */
+    title: string;
+    /**
+     * The fields of the form by custom ID, in display order. Discord allows up to 5 fields.
+     */
+    fields: Fields;
+}
+
+/**
+ * Gets the value type of a field type.
+ * @internal
+ * @category Types
+ */
+type ModalFormFieldTypeValue<Type> = Type extends 'integer' | 'number' ? number : Type extends 'date' ? Date : string;
+
+/**
+ * Gets the value type of a field, `undefined` included for optional fields.
+ * @internal
+ * @category Types
+ */
+type ModalFormFieldValue<Field extends ModalFormField> =
+    ModalFormFieldTypeValue<Field['type']> | (Field['required'] extends false ? undefined : never);
+
+/**
+ * The values of the fields of a form.
+ * @internal
+ * @category Types
+ */
+type ModalFormFieldValues<Fields extends Record<string, ModalFormField>> = { -readonly [Name in keyof Fields]: ModalFormFieldValue<Fields[Name]> };
+
+/**
+ * The values a form parses submissions into.
+ * @since 0.4.0
+ * @category Types
+ * @template Form - The form
+ */
+export type ModalFormValues<Form extends ModalForm> = Form extends ModalForm<infer Fields> ? ModalFormFieldValues<Fields> : never;
+
+/**
+ * A field that failed validation.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface ModalFormIssue {
+    /** The custom ID of the field */
+    field: string;
+    /** The label of the field */
+    label: string;
+    /** Why the value is invalid */
+    message: string;
+}
+// #endregion Types
+
+// #region Form
+/** The maximum amount of fields in a modal */
+const MaxFields = 5;
+
+/** Describes why a value failed to resolve, by identifier */
+const resolverMessages: Record<string, (field: ModalFormField) => string> = {
+    [Identifiers.ArgumentIntegerError]: () => 'The value must be a whole number.',
+    [Identifiers.ArgumentIntegerTooSmall]: ({ minimum }) => `The value must be at least ${minimum}.`,
+    [Identifiers.ArgumentIntegerTooLarge]: ({ maximum }) => `The value must be at most ${maximum}.`,
+    [Identifiers.ArgumentNumberError]: () => 'The value must be a number.',
+    [Identifiers.ArgumentNumberTooSmall]: ({ minimum }) => `The value must be at least ${minimum}.`,
+    [Identifiers.ArgumentNumberTooLarge]: ({ maximum }) => `The value must be at most ${maximum}.`,
+    [Identifiers.ArgumentDateError]: () => 'The value must be a date, such as 2024-12-31.',
+    [Identifiers.ArgumentDateTooEarly]: ({ minimum }) => `The date must be after ${new Date(minimum!).toISOString()}.`,
+    [Identifiers.ArgumentDateTooFar]: ({ maximum }) => `The date must be before ${new Date(maximum!).toISOString()}.`,
+};
+
+/**
+ * Validates and resolves the value of a field.
+ * @returns The resolved value, or why it is invalid
+ */
+const resolveField = (field: ModalFormField, value: string): Result<unknown, string> => {
+    if (value.trim().length === 0) {
+        return field.required === false ? Result.ok(undefined) : Result.err('This field is required.');
+    }
+
+    if (field.minLength !== undefined && value.length < field.minLength) {
+        return Result.err(`The value must be at least ${field.minLength} characters long.`);
+    }
+    if (field.maxLength !== undefined && value.length > field.maxLength) {
+        return Result.err(`The value must be at most ${field.maxLength} characters long.`);
+    }
+    // Copied without the global and sticky flags, which would make testing stateful
+    if (field.pattern && !new RegExp(field.pattern.source, field.pattern.flags.replace(/[gy]/g, '')).test(value)) {
+        return Result.err('The value is not in the expected format.');
+    }
+
+    const options = { minimum: field.minimum, maximum: field.maximum };
+    const resolved: Result<unknown, string> =
+        field.type === 'integer'
+            ? resolveInteger(value.trim(), options)
+            : field.type === 'number'
+              ? resolveNumber(value.trim(), options)
+              : field.type === 'date'
+                ? resolveDate(value.trim(), options)
+                : Result.ok(value);
+
+    return resolved.mapErr((identifier) => resolverMessages[identifier]?.(field) ?? 'The value is invalid.');
+};
+
+/**
+ * A modal form, building the modal to show and parsing its submissions.
+ * @since 0.4.0
+ * @category Classes
+ * @template Fields - The fields of the form, by custom ID
+ */
+export class ModalForm<Fields extends Record<string, ModalFormField> = Record<string, ModalFormField>> {
+    /**
+     * The title of the modal.
+     */
+    public readonly title: string;
+
+    /**
+     * The fields of the form, by custom ID.
+     */
+    public readonly fields: Fields;
+
+    /**
+     * @param options - The options of the form
+     * @throws If the form has no fields or more than the 5 allowed by Discord
+     */
+    public constructor(options: ModalFormOptions<Fields>) {
+        const count = Object.keys(options.fields).length;
+        if (count < 1 || count > MaxFields) {
+            throw new RangeError(`The modal form '${options.title}' has ${count} fields, it must have between 1 and ${MaxFields}.`);
+        }
+
+        this.title = options.title;
+        this.fields = options.fields;
+    }
+
+    /**
+     * Builds the modal of the form.
+     * @param customId - The custom ID of the modal, matched by the modal handler
+     * @param values - The values to fill the fields with, replacing their default value
+     * @returns The modal
+     */
+    public build(customId: string, values: Partial<Record<keyof Fields, string>> = {}): ModalBuilder {
+        const rows = Object.entries(this.fields).map(([name, field]) => {
+            const input = new TextInputBuilder()
+                .setCustomId(name)
+                .setLabel(field.label)
+                .setStyle(field.style ?? TextInputStyle.Short)
+                .setRequired(field.required ?? true);
+
+            if (field.placeholder !== undefined) input.setPlaceholder(field.placeholder);
+            if (field.minLength !== undefined) input.setMinLength(field.minLength);
+            if (field.maxLength !== undefined) input.setMaxLength(field.maxLength);
+
+            const value = values[name as keyof Fields] ?? field.value;
+            if (value) input.setValue(value);
+
+            return new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(input);
+        });
+
+        return new ModalBuilder().setCustomId(customId).setTitle(this.title).addComponents(rows);
+    }
+
+    /**
+     * Parses a submission of the form, validating every field.
+     * @param interaction - The submission
+     * @returns The values, or an error with the identifier {@link Identifiers.ModalFormInvalid} listing the invalid fields.
+     * Its context holds the `issues`, and the submitted `values` to fill the modal with again.
+     */
+    public parse(interaction: ModalSubmitInteraction): Result<ModalFormFieldValues<Fields>, UserError> {
+        const values: Record<string, string> = {};
+        const parsed: Record<string, unknown> = {};
+        const issues: ModalFormIssue[] = [];
+
+        for (const [name, field] of Object.entries(this.fields)) {
+            const value = Result.from(() => interaction.fields.getTextInputValue(name)).unwrapOr('');
+            values[name] = value;
+
+            resolveField(field, value).match({
+                ok: (resolved) => (parsed[name] = resolved),
+                err: (message) => issues.push({ field: name, label: field.label, message }),
+            });
+        }
+
+        if (issues.length === 0) return Result.ok(parsed as ModalFormFieldValues<Fields>);
+
+        return Result.err(
+            new UserError({
+                identifier: Identifiers.ModalFormInvalid,
+                message: `Some answers are invalid:\n${issues.map(({ label, message }) => `- **${label}**: ${message}`).join('\n')}`,
+                context: { issues, values },
+            }),
+        );
+    }
+}
+
+/**
+ * Creates a modal form, with the types of the values inferred from its fields.
+ * @since 0.4.0
+ * @category Functions
+ * @param options - The options of the form
+ * @returns The form
+ * @throws If the form has no fields or more than the 5 allowed by Discord
+ */
+export const createModalForm = <const Fields extends Record<string, ModalFormField>>(options: ModalFormOptions<Fields>): ModalForm<Fields> =>
+    new ModalForm(options);
+// #endregion Form
+
+// #region Reopen
+/** The route of the button reopening a form */
+const ReopenRoute = createCustomIdRoute('peridot:form:reopen');
+
+/**
+ * The state of the button reopening a form.
+ */
+interface ReopenState {
+    /** The custom ID of the submitted modal */
+    customId: string;
+    /** The submitted values */
+    values: Record<string, string>;
+}
+
+/**
+ * Reopens a form filled with the submitted values.
+ */
+const reopenButton: ButtonComponent<Record<string, never>, ReopenState> = {
+    customId: ReopenRoute,
+    async run(interaction, { state }) {
+        const { customId } = _splitComponentStateKey(state?.customId ?? '');
+        const component = container.handlers.getRegistry('modalComponents').unwrap().getHandler(customId).unwrapOr(undefined);
+
+        if (!state || !component?.form) {
+            await interaction.reply({ content: 'This form is no longer available, please run the command again.', ephemeral: true });
+            return;
+        }
+
+        await interaction.showModal(component.form.build(state.customId, state.values));
+    },
+};
+
+/**
+ * Tells the user which answers of a form are invalid, with a button to reopen the form filled with their answers.
+ * @param interaction - The submission
+ * @param error - The error returned by {@link ModalForm.parse}
+ */
+export const _replyModalFormInvalid = async (interaction: ModalSubmitInteraction, error: UserError): Promise<void> => {
+    // Registered when needed, so it is restored after the handlers are reloaded
+    await container.handlers.getRegistry('buttonComponents').unwrap()._register(reopenButton);
+
+    const { values } = error.context as { values: Record<string, string> };
+    const customId = await container.componentState.attach(ReopenRoute.build({}), { customId: interaction.customId, values } satisfies ReopenState);
+
+    const embed = new EmbedBuilder().setTitle('Invalid answers').setDescription(error.message).setColor(Colors.Red);
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder().setCustomId(customId).setLabel('Edit answers').setStyle(ButtonStyle.Primary),
+    );
+
+    const options = { embeds: [embed], components: [row], ephemeral: true };
+    await (interaction.replied || interaction.deferred ? interaction.followUp(options) : interaction.reply(options));
+};
+// #endregion Reopen
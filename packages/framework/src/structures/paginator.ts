@@ -0,0 +1,405 @@
+/**
+ * Provides a paginator, to browse a list of pages with buttons.
+ * Pages are given up front or loaded on demand by an async page provider, and can be sent from both text and slash handlers.
+ *
+ * This module provides:
+ * - First, previous, next and last buttons, and an optional select menu to jump to a page
+ * - Restricting the controls to the user that invoked the handler
+ * - Disabling the controls once the paginator is idle for too long
+ *
+ * The paginator registers its own button and select menu handlers when it is sent, no handlers need to be written for it.
+ *
+ * @module structures/paginator
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * const { textCommand, slashCommand } = createHybridCommand({
+ *     name: 'tags',
+ *     description: 'List the tags',
+ *     guilds: 'global',
+ *     async run(ctx) {
+ *         const tags = await db.tags.list();
+ *
+ *         await new Paginator({
+ *             pages: chunk(tags, 10).map((names, index) => ({ title: `Tags (${index + 1})`, description: names.join('\n') })),
+ *             jump: true,
+ *         }).send(ctx.source === 'text' ? ctx.message : ctx.interaction);
+ *     },
+ * });
+ * ```
+ */
+
+import { randomBytes } from 'node:crypto';
+
+import type { Awaitable } from '@sapphire/utilities';
+import {
+    ActionRowBuilder,
+    type APIEmbed,
+    type BaseMessageOptions,
+    ButtonBuilder,
+    type ButtonInteraction,
+    ButtonStyle,
+    ComponentType,
+    type JSONEncodable,
+    type Message,
+    type MessageActionRowComponentBuilder,
+    MessageFlags,
+    type RepliableInteraction,
+    type Snowflake,
+    StringSelectMenuBuilder,
+    type StringSelectMenuInteraction,
+} from 'discord.js';
+
+import type { ButtonComponent } from '../handlers/ButtonComponent.js';
+import type { SelectMenuComponent } from '../handlers/SelectMenuComponent.js';
+import { container } from './container.js';
+import { createCustomIdRoute, type CustomIdRouteParams } from './customIds.js';
+
+// #region Types
+/**
+ * A page of a paginator: text, an embed, or the content and embeds of the message.
+ * @since 0.4.0
+ * @category Types
+ */
+export type PaginatorPage = string | APIEmbed | JSONEncodable<APIEmbed> | Pick<BaseMessageOptions, 'content' | 'embeds'>;
+
+/**
+ * Loads a page of a paginator on demand.
+ * @since 0.4.0
+ * @category Types
+ * @param index - The index of the page, starting at 0
+ */
+export type PaginatorPageProvider = (index: number) => Awaitable<PaginatorPage>;
+
+/**
+ * Options shared by every paginator.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface PaginatorBaseOptions {
+    /**
+     * Whether to add a select menu to jump to a page.
+     * Paginators with more than 25 pages list the 25 pages around the current one.
+     * @default false
+     */
+    jump?: boolean;
+    /**
+     * The index of the page to start at.
+     * @default 0
+     */
+    startPage?: number;
+    /**
+     * The time in milliseconds without interactions after which the controls are disabled.
+     * @default 300_000
+     */
+    time?: number;
+    /**
+     * The user allowed to use the controls, other users are told the controls aren't for them.
+     * Set to `null` to allow anyone.
+     * @default The user that invoked the handler
+     */
+    user?: Snowflake | null;
+    /**
+     * Whether the reply is only visible to the user, when sent in response to an interaction.
+     * @default false
+     */
+    ephemeral?: boolean;
+}
+
+/**
+ * Options of a paginator, with either its pages or a page provider and the amount of pages.
+ * @since 0.4.0
+ * @category Types
+ */
+export type PaginatorOptions = PaginatorBaseOptions &
+    (
+        | {
+              /** The pages */
+              pages: readonly PaginatorPage[];
+          }
+        | {
+              /** Loads the pages on demand */
+              pages: PaginatorPageProvider;
+              /** The amount of pages */
+              pageCount: number;
+          }
+    );
+
+/**
+ * What a control of a paginator does.
+ * @since 0.4.0
+ * @category Types
+ */
+export type PaginatorAction = 'first' | 'previous' | 'next' | 'last' | 'jump';
+// #endregion Types
+
+// #region Handlers
+/** The route of the custom IDs of the controls */
+const ControlRoute = createCustomIdRoute('peridot:paginator:{id}:{action}');
+
+/** The maximum amount of options of a select menu */
+const MaxJumpOptions = 25;
+
+/** The paginators with enabled controls, by ID */
+const active = new Map<string, Paginator>();
+
+/**
+ * Gets the paginator of a control, replying to the user if it can't be used.
+ * @returns The paginator, or `null` if it expired or belongs to someone else
+ */
+const getPaginator = async (interaction: ButtonInteraction | StringSelectMenuInteraction, id: string): Promise<Paginator | null> => {
+    const paginator = active.get(id);
+    if (!paginator) {
+        await interaction.reply({ content: 'This paginator has expired, please run the command again.', ephemeral: true });
+        return null;
+    }
+
+    if (paginator.user !== null && interaction.user.id !== paginator.user) {
+        await interaction.reply({ content: "These controls aren't for you.", ephemeral: true });
+        return null;
+    }
+
+    return paginator;
+};
+
+/**
+ * Handles the buttons of every paginator.
+ */
+const paginatorButton: ButtonComponent<CustomIdRouteParams<typeof ControlRoute>> = {
+    customId: ControlRoute,
+    async run(interaction, { params }) {
+        const paginator = await getPaginator(interaction, params.id);
+        if (!paginator) return;
+
+        const target = { first: 0, previous: paginator.page - 1, next: paginator.page + 1, last: paginator.pageCount - 1 }[
+            params.action as Exclude<PaginatorAction, 'jump'>
+        ];
+        await paginator._update(interaction, target ?? paginator.page);
+    },
+};
+
+/**
+ * Handles the jump select menu of every paginator.
+ */
+const paginatorSelectMenu: SelectMenuComponent<ComponentType.StringSelect, CustomIdRouteParams<typeof ControlRoute>> = {
+    customId: ControlRoute,
+    type: ComponentType.StringSelect,
+    async run(interaction, { params }) {
+        const paginator = await getPaginator(interaction, params.id);
+        if (!paginator) return;
+
+        await paginator._update(interaction, Number(interaction.values[0]));
+    },
+};
+
+/**
+ * Registers the handlers of the paginator controls, registering them again is a no-op.
+ * Registered when a paginator is sent, so they are restored after the handlers are reloaded.
+ */
+const registerHandlers = async () => {
+    const { handlers } = container;
+
+    await handlers.getRegistry('buttonComponents').unwrap()._register(paginatorButton);
+    await handlers.getRegistry('selectMenuComponents').unwrap()._register(paginatorSelectMenu);
+};
+// #endregion Handlers
+
+// #region Paginator
+/**
+ * Converts a page to the content and embeds of a message, clearing what the previous page showed.
+ */
+const toMessage = (page: PaginatorPage): Pick<BaseMessageOptions, 'content' | 'embeds'> => {
+    if (typeof page === 'string') return { content: page, embeds: [] };
+    if ('content' in page || 'embeds' in page) {
+        const { content = '', embeds = [] } = page as Pick<BaseMessageOptions, 'content' | 'embeds'>;
+        return { content, embeds };
+    }
+
+    return { content: '', embeds: [page as APIEmbed | JSONEncodable<APIEmbed>] };
+};
+
+/**
+ * A paginator, browsing a list of pages with buttons.
+ * @since 0.4.0
+ * @category Classes
+ * @example
+ * ```ts
+ * // Pages loaded on demand
+ * await new Paginator({
+ *     pages: async (index) => renderResults(await search(query, { offset: index * 10, limit: 10 })),
+ *     pageCount: Math.ceil(total / 10),
+ * }).send(interaction);
+ * ```
+ */
+export class Paginator {
+    /**
+     * The ID of the paginator, embedded in the custom IDs of its controls.
+     */
+    public readonly id = randomBytes(6).toString('base64url');
+
+    /**
+     * The amount of pages.
+     */
+    public readonly pageCount: number;
+
+    /**
+     * The user allowed to use the controls, or `null` if anyone can, set when the paginator is sent.
+     */
+    public user: Snowflake | null = null;
+
+    /**
+     * The message of the paginator, set when the paginator is sent.
+     */
+    public message: Message | null = null;
+
+    private current: number;
+    private timer: NodeJS.Timeout | undefined;
+    private lastInteraction: RepliableInteraction | null = null;
+
+    /**
+     * @param options - The options of the paginator
+     * @throws If the paginator has no pages
+     */
+    public constructor(private readonly options: PaginatorOptions) {
+        this.pageCount = typeof options.pages === 'function' ? (options as { pageCount: number }).pageCount : options.pages.length;
+        if (this.pageCount < 1) throw new RangeError('A paginator needs at least one page.');
+
+        this.current = Math.min(Math.max(options.startPage ?? 0, 0), this.pageCount - 1);
+    }
+
+    /**
+     * The index of the current page, starting at 0.
+     */
+    public get page(): number {
+        return this.current;
+    }
+
+    /**
+     * Sends the paginator, replying to a message or an interaction.
+     * Interactions that were already deferred or replied to have their reply edited.
+     * Paginators with a single page are sent without controls.
+     * @param trigger - The message or interaction that invoked the handler
+     * @returns The message of the paginator
+     */
+    public async send(trigger: Message | RepliableInteraction): Promise<Message> {
+        const invoker = 'author' in trigger ? trigger.author.id : trigger.user.id;
+        this.user = this.options.user === undefined ? invoker : this.options.user;
+
+        const payload = await this.render(this.current, this.pageCount > 1);
+
+        if ('author' in trigger) {
+            this.message = await trigger.reply(payload);
+        } else {
+            this.lastInteraction = trigger;
+            this.message =
+                trigger.deferred || trigger.replied
+                    ? await trigger.editReply(payload)
+                    : await trigger.reply({ ...payload, ephemeral: this.options.ephemeral ?? false, fetchReply: true });
+        }
+
+        if (this.pageCount > 1) {
+            await registerHandlers();
+            active.set(this.id, this);
+            this.refresh();
+        }
+
+        return this.message;
+    }
+
+    /**
+     * Disables the controls, the paginator can't be used anymore afterwards.
+     */
+    public async stop(): Promise<void> {
+        clearTimeout(this.timer);
+        if (!active.delete(this.id) || !this.message) return;
+
+        const components = this.message.components.flatMap((row) =>
+            row.type === ComponentType.ActionRow
+                ? [{ type: ComponentType.ActionRow, components: row.components.map((component) => ({ ...component.toJSON(), disabled: true })) }]
+                : [],
+        );
+
+        // Ephemeral replies can only be edited through an interaction
+        const edit = this.message.flags.has(MessageFlags.Ephemeral)
+            ? this.lastInteraction?.editReply({ components })
+            : this.message.edit({ components });
+
+        await edit?.catch((err: unknown) => container.logger.debug({ err, src: this.message?.id }, 'Failed to disable the paginator controls'));
+    }
+
+    /**
+     * Shows a page in response to a control.
+     * @param interaction - The interaction with the control
+     * @param index - The index of the page to show
+     * @internal
+     */
+    public async _update(interaction: ButtonInteraction | StringSelectMenuInteraction, index: number): Promise<void> {
+        this.lastInteraction = interaction;
+        this.refresh();
+
+        // Page providers can take longer than the 3 seconds to respond
+        await interaction.deferUpdate();
+
+        this.current = Math.min(Math.max(Number.isInteger(index) ? index : this.current, 0), this.pageCount - 1);
+        this.message = await interaction.editReply(await this.render(this.current, true));
+    }
+
+    /**
+     * Restarts the idle timer.
+     */
+    private refresh() {
+        clearTimeout(this.timer);
+        this.timer = setTimeout(() => void this.stop(), this.options.time ?? 300_000);
+    }
+
+    /**
+     * Renders a page, with the controls.
+     */
+    private async render(index: number, controls: boolean): Promise<BaseMessageOptions> {
+        const { pages } = this.options;
+        const page = toMessage(typeof pages === 'function' ? await pages(index) : pages[index]!);
+        if (!controls) return { ...page, components: [] };
+
+        const button = (action: PaginatorAction, emoji: string, disabled: boolean) =>
+            new ButtonBuilder()
+                .setCustomId(ControlRoute.build({ id: this.id, action }))
+                .setStyle(ButtonStyle.Secondary)
+                .setEmoji(emoji)
+                .setDisabled(disabled);
+
+        const isFirst = index === 0;
+        const isLast = index === this.pageCount - 1;
+        const components = [
+            new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+                button('first', '⏮️', isFirst),
+                button('previous', '◀️', isFirst),
+                button('next', '▶️', isLast),
+                button('last', '⏭️', isLast),
+            ),
+        ];
+
+        if (this.options.jump) {
+            // Centers the listed pages on the current page
+            const start = Math.min(Math.max(index - Math.floor(MaxJumpOptions / 2), 0), Math.max(this.pageCount - MaxJumpOptions, 0));
+            const end = Math.min(start + MaxJumpOptions, this.pageCount);
+
+            components.push(
+                new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+                    new StringSelectMenuBuilder()
+                        .setCustomId(ControlRoute.build({ id: this.id, action: 'jump' }))
+                        .setPlaceholder(`Page ${index + 1} of ${this.pageCount}`)
+                        .addOptions(
+                            Array.from({ length: end - start }, (_, offset) => ({
+                                label: `Page ${start + offset + 1}`,
+                                value: String(start + offset),
+                                default: start + offset === index,
+                            })),
+                        ),
+                ),
+            );
+        }
+
+        return { ...page, components };
+    }
+}
+// #endregion Paginator
@@ -0,0 +1,320 @@
+/**
+ * Provides built-in admin commands to manage the permission levels stored by the {@link PermissionProvider}.
+ *
+ * The commands allow to:
+ * - Grant a permission level to a user or role in the current guild
+ * - Revoke the permission level of a user or role in the current guild
+ * - List the permission levels and denials of the current guild
+ *
+ * Members can only manage levels below their own, except owners who can manage every level.
+ *
+ * @module structures/permissionCommands
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * // handlers/permissions.ts
+ * import { createPermissionCommands, PermissionLevel } from '@peridotjs/framework';
+ *
+ * export default createPermissionCommands({ permission: PermissionLevel.ADMINISTRATOR });
+ * ```
+ */
+
+import { Result } from '@sapphire/result';
+import {
+    ApplicationCommandOptionType,
+    type ChatInputCommandInteraction,
+    type Guild,
+    InteractionContextType,
+    Role,
+    type Snowflake,
+    type User,
+} from 'discord.js';
+
+import { UserError } from '../errors/UserError.js';
+import type { SlashCommand } from '../handlers/SlashCommand.js';
+import { createSubcommand, createTextCommand, type TextCommandMessage } from '../handlers/TextCommand.js';
+import { container } from './container.js';
+import { createHandlerExport, type HandlerExport } from './loaders.js';
+import { _getInteractionPermissionLevel, getPermissionLevel, PermissionLevel, type PermissionTarget } from './permissions.js';
+
+/**
+ * Options for {@link createPermissionCommands}.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface PermissionCommandsOptions {
+    /**
+     * The name of the text and slash commands.
+     * @default 'permissions'
+     */
+    name?: string;
+    /**
+     * The permission level required to use the commands.
+     * @default PermissionLevel.ADMINISTRATOR
+     */
+    permission?: PermissionLevel;
+    /**
+     * Specifies which guilds the commands are available in.
+     * @default 'global'
+     */
+    guilds?: Snowflake[] | 'global';
+    /**
+     * Whether to create the text command.
+     * @default true
+     */
+    text?: boolean;
+    /**
+     * Whether to create the slash command.
+     * @default true
+     */
+    slash?: boolean;
+}
+
+/** The names of the permission levels, as accepted by the commands */
+const LevelNames = Object.keys(PermissionLevel).filter((key) => Number.isNaN(Number(key)));
+
+/**
+ * Checks that a member can manage a permission level, members can only manage levels below their own.
+ * @param executor - The permission level of the member managing the level
+ * @param level - The permission level being managed
+ */
+const checkCanManage = (executor: PermissionLevel, level: PermissionLevel): Result<unknown, UserError> => {
+    if (executor === PermissionLevel.OWNER || level < executor) return Result.ok(undefined);
+
+    return Result.err(
+        new UserError({
+            identifier: 'Permissions.InsufficientLevel',
+            message: `You can only manage permission levels below your own (${PermissionLevel[executor]}).`,
+            context: { executor, level },
+        }),
+    );
+};
+
+/**
+ * Resolves whether an ID is a user or a role of a guild.
+ * @param guild - The guild the ID belongs to
+ * @param id - The ID of the user or role
+ */
+const resolveTarget = (guild: Guild, id: Snowflake): PermissionTarget => ({ type: guild.roles.cache.has(id) ? 'role' : 'user', id });
+
+/**
+ * Converts a resolved `mentionable` argument to a permission target.
+ * @param target - The user or role
+ */
+const toTarget = (target: User | Role): PermissionTarget => ({ type: target instanceof Role ? 'role' : 'user', id: target.id });
+
+/**
+ * Formats a user or role as a mention.
+ * @param target - The user or role
+ */
+const mention = ({ type, id }: PermissionTarget): string => (type === 'role' ? `<@&${id}>` : `<@${id}>`);
+
+/**
+ * Gets the current permission level of a user or role in a guild.
+ */
+const getCurrentLevel = async (guild: Guild, { type, id }: PermissionTarget): Promise<PermissionLevel | undefined> => {
+    const config = await container.permissions.getGuildConfig(guild.id);
+    return (type === 'user' ? config.users : config.roles)?.[id];
+};
+
+/**
+ * Grants a permission level to a user or role in a guild.
+ * @returns The message to reply with
+ */
+const grant = async (
+    guild: Guild,
+    executor: PermissionLevel,
+    target: PermissionTarget,
+    level: PermissionLevel,
+): Promise<Result<string, UserError>> => {
+    const levelResult = checkCanManage(executor, level);
+    if (levelResult.isErr()) return levelResult.map(() => '');
+
+    const current = await getCurrentLevel(guild, target);
+    if (current !== undefined) {
+        const currentResult = checkCanManage(executor, current);
+        if (currentResult.isErr()) return currentResult.map(() => '');
+    }
+
+    await container.permissions.setGuildLevel(guild.id, target, level);
+    return Result.ok(`Granted ${PermissionLevel[level]} to ${mention(target)}.`);
+};
+
+/**
+ * Revokes the permission level of a user or role in a guild.
+ * @returns The message to reply with
+ */
+const revoke = async (guild: Guild, executor: PermissionLevel, target: PermissionTarget): Promise<Result<string, UserError>> => {
+    const current = await getCurrentLevel(guild, target);
+    if (current === undefined) return Result.ok(`${mention(target)} has no permission level in this server.`);
+
+    const result = checkCanManage(executor, current);
+    if (result.isErr()) return result.map(() => '');
+
+    await container.permissions.deleteGuildLevel(guild.id, target);
+    return Result.ok(`Revoked ${PermissionLevel[current]} from ${mention(target)}.`);
+};
+
+/**
+ * Lists the permission levels and denials of a guild, highest levels first.
+ * @returns The message to reply with
+ */
+const list = async (guild: Guild): Promise<string> => {
+    const { users = {}, roles = {}, deny = {} } = await container.permissions.getGuildConfig(guild.id);
+    const lines = [
+        ...Object.entries(users).map(([id, level]) => [{ type: 'user', id }, level] as const),
+        ...Object.entries(roles).map(([id, level]) => [{ type: 'role', id }, level] as const),
+    ]
+        .sort(([, a], [, b]) => b - a)
+        .map(([target, level]) => `${mention(target)}: ${PermissionLevel[level]}`);
+
+    for (const id of deny.users ?? []) lines.push(`${mention({ type: 'user', id })}: denied`);
+    for (const id of deny.roles ?? []) lines.push(`${mention({ type: 'role', id })}: denied`);
+
+    return lines.length === 0 ? 'No permission levels are set in this server.' : lines.join('\n');
+};
+
+/**
+ * Creates a handler export with commands to grant, revoke and list permission levels per guild, using `container.permissions`.
+ * Export the result from a handler file to load the commands.
+ * @since 0.4.0
+ * @category Functions
+ * @param options - The options for the commands
+ * @returns The handler export containing the text and slash commands
+ */
+export const createPermissionCommands = (options: PermissionCommandsOptions = {}): HandlerExport => {
+    const { name = 'permissions', permission = PermissionLevel.ADMINISTRATOR, guilds = 'global', text = true, slash = true } = options;
+
+    const reply = (msg: TextCommandMessage, result: Result<string, UserError>) =>
+        msg.reply({ content: result.unwrapOrElse((error) => error.message), allowedMentions: { parse: [] } });
+
+    const textCommand = createTextCommand({
+        data: {
+            name,
+            description: 'Manage permission levels in this server',
+            aliases: ['perms'],
+            guilds,
+            permission,
+        },
+        subcommands: [
+            createSubcommand({
+                name: 'grant',
+                description: 'Grant a permission level to a user or role',
+                arguments: [
+                    { name: 'target', type: 'mentionable', description: 'The user or role to grant the level to' },
+                    {
+                        name: 'level',
+                        type: 'enum',
+                        description: `The level to grant: ${LevelNames.join(', ')}`,
+                        options: { enum: LevelNames, caseInsensitive: true },
+                    },
+                ],
+                async run(msg, { parsed }) {
+                    if (!msg.inGuild()) return;
+
+                    const level = PermissionLevel[parsed.level.toUpperCase() as keyof typeof PermissionLevel];
+                    const executor = await getPermissionLevel(msg.member ?? msg.author);
+
+                    await reply(msg, await grant(msg.guild, executor, toTarget(parsed.target), level));
+                },
+            }),
+            createSubcommand({
+                name: 'revoke',
+                description: 'Revoke the permission level of a user or role',
+                arguments: [{ name: 'target', type: 'mentionable', description: 'The user or role to revoke the level from' }],
+                async run(msg, { parsed }) {
+                    if (!msg.inGuild()) return;
+
+                    const executor = await getPermissionLevel(msg.member ?? msg.author);
+
+                    await reply(msg, await revoke(msg.guild, executor, toTarget(parsed.target)));
+                },
+            }),
+            createSubcommand({
+                name: 'list',
+                description: 'List the permission levels in this server',
+                default: true,
+                async run(msg) {
+                    if (!msg.inGuild()) return;
+
+                    await reply(msg, Result.ok(await list(msg.guild)));
+                },
+            }),
+        ],
+    });
+
+    const slashCommand: SlashCommand = {
+        data: {
+            name,
+            description: 'Manage permission levels in this server',
+            contexts: [InteractionContextType.Guild],
+            options: [
+                {
+                    type: ApplicationCommandOptionType.Subcommand,
+                    name: 'grant',
+                    description: 'Grant a permission level to a user or role',
+                    options: [
+                        { type: ApplicationCommandOptionType.Mentionable, name: 'target', description: 'The user or role', required: true },
+                        {
+                            type: ApplicationCommandOptionType.Integer,
+                            name: 'level',
+                            description: 'The level to grant',
+                            required: true,
+                            choices: LevelNames.map((level) => ({ name: level, value: PermissionLevel[level as keyof typeof PermissionLevel] })),
+                        },
+                    ],
+                },
+                {
+                    type: ApplicationCommandOptionType.Subcommand,
+                    name: 'revoke',
+                    description: 'Revoke the permission level of a user or role',
+                    options: [{ type: ApplicationCommandOptionType.Mentionable, name: 'target', description: 'The user or role', required: true }],
+                },
+                {
+                    type: ApplicationCommandOptionType.Subcommand,
+                    name: 'list',
+                    description: 'List the permission levels in this server',
+                },
+            ],
+        },
+        guilds,
+        permission,
+        async run(interaction: ChatInputCommandInteraction) {
+            if (!interaction.inCachedGuild()) return;
+
+            const executor = await _getInteractionPermissionLevel(interaction);
+            let result: Result<string, UserError>;
+
+            switch (interaction.options.getSubcommand(true)) {
+                case 'grant': {
+                    const target = interaction.options.getMentionable('target', true);
+                    result = await grant(
+                        interaction.guild,
+                        executor,
+                        resolveTarget(interaction.guild, target.id),
+                        interaction.options.getInteger('level', true),
+                    );
+                    break;
+                }
+                case 'revoke': {
+                    const target = interaction.options.getMentionable('target', true);
+                    result = await revoke(interaction.guild, executor, resolveTarget(interaction.guild, target.id));
+                    break;
+                }
+                default:
+                    result = Result.ok(await list(interaction.guild));
+            }
+
+            await interaction.reply({
+                content: result.unwrapOrElse((error) => error.message),
+                allowedMentions: { parse: [] },
+                ephemeral: true,
+            });
+        },
+    };
+
+    return createHandlerExport({
+        textCommands: text ? [textCommand] : [],
+        slashCommands: slash ? [slashCommand] : [],
+    });
+};
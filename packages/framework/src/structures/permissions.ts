@@ -5,14 +5,23 @@
  * 
  * The permission system provides:
  * - Hierarchical permission levels (OWNER, ADMINISTRATOR, MODERATOR, REGULAR, BLOCKED)
- * - Global and per-guild permission configuration
+ * - Global and per-guild permission configuration, with user overrides, explicit denies and a guild owner rule
+ * - Pluggable permission providers, with an in-memory provider and a JSON file provider
  * - Permission level checking and comparison
+ * - Explanations of which rule produced a permission level
  * 
  * @module structures/permissions
  * @since 0.2.6
  */
 
-import type { GuildMember, Snowflake } from 'discord.js';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+
+import { Result } from '@sapphire/result';
+import type { Awaitable } from '@sapphire/utilities';
+import type { BaseInteraction, GuildMember, Snowflake, User } from 'discord.js';
+
+import { UserError } from '../errors/UserError.js';
+import { container } from './container.js';
 
 /**
  * Enumeration of available permission levels.
@@ -42,14 +51,32 @@ export enum PermissionLevel {
 }
 
 /**
- * Type representing a mapping of user IDs to permission levels.
- * Used to configure permissions for specific users.
+ * Type representing a mapping of user or role IDs to permission levels.
+ * Used to configure permissions for specific users or roles.
  * 
  * @since 0.2.6
  * @category Types
  */
 export type PermissionLevelMapping = Record<Snowflake, PermissionLevel>;
 
+/**
+ * Permission configuration of a single guild.
+ *
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export type GuildPermissionConfig = {
+    /** Per-guild user overrides, they take precedence over the guild owner rule and the levels of roles */
+    users?: PermissionLevelMapping;
+    /** Role permission level mappings, members get the highest level of their roles */
+    roles?: PermissionLevelMapping;
+    /** Users and roles that are explicitly denied, members matching them are {@link PermissionLevel.BLOCKED} in the guild */
+    deny?: {
+        users?: Snowflake[];
+        roles?: Snowflake[];
+    };
+};
+
 /**
  * Interface for configuring permission levels globally and per-guild.
  * 
@@ -62,60 +89,401 @@ export type PermissionLevelMapping = Record<Snowflake, PermissionLevel>;
  *     'OWNER_ID': PermissionLevel.OWNER,
  *     'ADMIN_ID': PermissionLevel.ADMINISTRATOR
  *   },
+ *   guildOwner: PermissionLevel.ADMINISTRATOR,
  *   guilds: {
  *     'GUILD_ID': {
- *       'MOD_ID': PermissionLevel.MODERATOR
+ *       users: { 'USER_ID': PermissionLevel.MODERATOR },
+ *       roles: { 'MOD_ROLE_ID': PermissionLevel.MODERATOR },
+ *       deny: { roles: ['MUTED_ROLE_ID'] }
  *     }
  *   }
  * };
  * ```
  */
 export type PermissionLevelConfig = {
-    /** Global permission level mappings */
+    /** Global user permission level mappings, they take precedence over every guild rule */
     global: PermissionLevelMapping;
-    /** Per-guild role permission level mappings */
-    guilds?: Record<Snowflake, PermissionLevelMapping>;
+    /**
+     * The permission level of guild owners in their own guild, `null` to give them no special level.
+     * @since 0.4.0
+     * @default PermissionLevel.ADMINISTRATOR
+     */
+    guildOwner?: PermissionLevel | null;
+    /** Per-guild permission configurations */
+    guilds?: Record<Snowflake, GuildPermissionConfig>;
+}
+
+/**
+ * The configuration that applies to every guild, everything in a {@link PermissionLevelConfig} except the guilds.
+ * @since 0.4.0
+ * @category Types
+ */
+export type GlobalPermissionConfig = Omit<PermissionLevelConfig, 'guilds'>;
+
+/**
+ * A user or role that a permission level or denial applies to in a guild.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface PermissionTarget {
+    /** Whether the ID is a user or role ID */
+    type: 'user' | 'role';
+    /** The ID of the user or role */
+    id: Snowflake;
+}
+
+// #region Providers
+/**
+ * Source of the permission configuration, consulted by {@link getPermissionLevel}.
+ * Providers may cache their configuration, {@link PermissionProvider.invalidate} drops those caches.
+ *
+ * The provider is accessible through the container object: `container.permissions`
+ *
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface PermissionProvider {
+    /**
+     * Gets the configuration that applies to every guild.
+     */
+    getGlobalConfig(): Awaitable<GlobalPermissionConfig>;
+    /**
+     * Gets the permission configuration of a guild.
+     * @param guildId - The ID of the guild
+     */
+    getGuildConfig(guildId: Snowflake): Awaitable<GuildPermissionConfig>;
+    /**
+     * Sets the permission level of a user or role in a guild.
+     * @param guildId - The ID of the guild
+     * @param target - The user or role
+     * @param level - The permission level to set
+     */
+    setGuildLevel(guildId: Snowflake, target: PermissionTarget, level: PermissionLevel): Awaitable<void>;
+    /**
+     * Removes the permission level of a user or role in a guild.
+     * @param guildId - The ID of the guild
+     * @param target - The user or role
+     */
+    deleteGuildLevel(guildId: Snowflake, target: PermissionTarget): Awaitable<void>;
+    /**
+     * Adds or removes an explicit denial of a user or role in a guild.
+     * @param guildId - The ID of the guild
+     * @param target - The user or role
+     * @param denied - Whether the user or role is denied
+     */
+    setGuildDenied(guildId: Snowflake, target: PermissionTarget, denied: boolean): Awaitable<void>;
+    /**
+     * Drops cached configuration, so it is read from the underlying storage again.
+     * @param guildId - The ID of the guild to invalidate, or nothing to invalidate every guild
+     */
+    invalidate(guildId?: Snowflake): Awaitable<void>;
+}
+
+/**
+ * Edits the configuration of a guild, creating it if needed.
+ * @param config - The configuration to edit
+ * @param guildId - The ID of the guild
+ * @param edit - The function editing the guild configuration
+ */
+const editGuildConfig = (config: PermissionLevelConfig, guildId: Snowflake, edit: (guild: GuildPermissionConfig) => void): void => {
+    config.guilds ??= {};
+    edit((config.guilds[guildId] ??= {}));
+};
+
+const setLevel = (guild: GuildPermissionConfig, { type, id }: PermissionTarget, level: PermissionLevel | null): void => {
+    const key = type === 'user' ? 'users' : 'roles';
+    const mapping = (guild[key] ??= {});
+    if (level === null) delete mapping[id];
+    else mapping[id] = level;
+};
+
+const setDenied = (guild: GuildPermissionConfig, { type, id }: PermissionTarget, denied: boolean): void => {
+    const key = type === 'user' ? 'users' : 'roles';
+    const list = ((guild.deny ??= {})[key] ??= []);
+    const index = list.indexOf(id);
+    if (denied && index === -1) list.push(id);
+    else if (!denied && index !== -1) list.splice(index, 1);
+};
+
+/**
+ * In-memory permission provider, the default provider created from the `permissionConfig` client option.
+ * Changes are lost when the process exits.
+ * @since 0.4.0
+ * @category Classes
+ */
+export class MemoryPermissionProvider implements PermissionProvider {
+    private readonly config: PermissionLevelConfig;
+
+    /**
+     * @param config - The initial permission configuration, the object is copied
+     */
+    public constructor(config: PermissionLevelConfig = { global: {} }) {
+        this.config = structuredClone(config);
+    }
+
+    public getGlobalConfig(): GlobalPermissionConfig {
+        return this.config;
+    }
+
+    public getGuildConfig(guildId: Snowflake): GuildPermissionConfig {
+        return this.config.guilds?.[guildId] ?? {};
+    }
+
+    public setGuildLevel(guildId: Snowflake, target: PermissionTarget, level: PermissionLevel): void {
+        editGuildConfig(this.config, guildId, (guild) => setLevel(guild, target, level));
+    }
+
+    public deleteGuildLevel(guildId: Snowflake, target: PermissionTarget): void {
+        editGuildConfig(this.config, guildId, (guild) => setLevel(guild, target, null));
+    }
+
+    public setGuildDenied(guildId: Snowflake, target: PermissionTarget, denied: boolean): void {
+        editGuildConfig(this.config, guildId, (guild) => setDenied(guild, target, denied));
+    }
+
+    public invalidate(): void {
+        // Nothing is cached, the memory is the storage
+    }
 }
 
 /**
- * Retrieves the permission level for a given member based on the provided configuration.
- * @param member - The guild member for whom to retrieve the permission level.
- * @param config - The configuration object containing global and guild-specific permission levels.
- * @returns The permission level of the member.
+ * Permission provider storing a {@link PermissionLevelConfig} in a JSON file.
+ * The file is read once and cached until {@link JsonFilePermissionProvider.invalidate} is called, a missing file is treated as an empty configuration.
+ * Writes are serialized and replace the file atomically.
+ * @since 0.4.0
+ * @category Classes
+ * @example
+ * ```ts
+ * const client = new PeridotClient({
+ *     // ...
+ *     permissionProvider: new JsonFilePermissionProvider('./data/permissions.json'),
+ * });
+ * ```
  */
-export const getPermissionLevel = (member: GuildMember | null, config: PermissionLevelConfig): PermissionLevel => {
-    if (!member) return PermissionLevel.REGULAR; // Return Regular perm if no member
+export class JsonFilePermissionProvider implements PermissionProvider {
+    private config: Promise<PermissionLevelConfig> | null = null;
+    private writes: Promise<void> = Promise.resolve();
 
-    const defaultRole = PermissionLevel.REGULAR;
+    /**
+     * @param path - The path of the JSON file
+     */
+    public constructor(private readonly path: string) {}
 
-    if (config.global[member.id]) {
-        return config.global[member.id]!;
+    public getGlobalConfig(): Promise<GlobalPermissionConfig> {
+        return this.load();
     }
 
-    const guildConfig = config.guilds?.[member.guild.id];
+    public async getGuildConfig(guildId: Snowflake): Promise<GuildPermissionConfig> {
+        return (await this.load()).guilds?.[guildId] ?? {};
+    }
 
-    if (!guildConfig) return defaultRole;
+    public setGuildLevel(guildId: Snowflake, target: PermissionTarget, level: PermissionLevel): Promise<void> {
+        return this.update((config) => editGuildConfig(config, guildId, (guild) => setLevel(guild, target, level)));
+    }
 
-    return _getPermissionLevel(Array.from(member.roles.cache.keys()), defaultRole, guildConfig);
+    public deleteGuildLevel(guildId: Snowflake, target: PermissionTarget): Promise<void> {
+        return this.update((config) => editGuildConfig(config, guildId, (guild) => setLevel(guild, target, null)));
+    }
+
+    public setGuildDenied(guildId: Snowflake, target: PermissionTarget, denied: boolean): Promise<void> {
+        return this.update((config) => editGuildConfig(config, guildId, (guild) => setDenied(guild, target, denied)));
+    }
+
+    /**
+     * Drops the cached file, the whole file is read again even if a guild ID is given.
+     */
+    public invalidate(): void {
+        this.config = null;
+    }
+
+    private load(): Promise<PermissionLevelConfig> {
+        this.config ??= readFile(this.path, 'utf8')
+            .then((content) => JSON.parse(content) as PermissionLevelConfig)
+            .catch((error: NodeJS.ErrnoException) => {
+                if (error.code === 'ENOENT') return { global: {} };
+                // Don't cache the failure, including invalid JSON, so the next call tries again
+                this.config = null;
+                throw error;
+            });
+        return this.config;
+    }
+
+    private update(fn: (config: PermissionLevelConfig) => void): Promise<void> {
+        const write = this.writes.then(async () => {
+            // Edit a copy, so a failed write leaves the cached config untouched
+            const config = structuredClone(await this.load());
+            fn(config);
+
+            const temporary = `${this.path}.tmp`;
+            await writeFile(temporary, JSON.stringify(config, null, 4));
+            await rename(temporary, this.path);
+
+            this.config = Promise.resolve(config);
+        });
+
+        // A failed write must not prevent the following ones
+        this.writes = write.catch(() => undefined);
+        return write;
+    }
+}
+
+const isPermissionProvider = (source: PermissionProvider | PermissionLevelConfig): source is PermissionProvider =>
+    typeof (source as PermissionProvider).getGuildConfig === 'function';
+// #endregion Providers
+
+// #region Resolution
+/**
+ * The rules that can produce a permission level, in the order they are checked.
+ * @since 0.4.0
+ * @category Enums
+ */
+export enum PermissionRule {
+    /** The user has a global permission level */
+    GlobalUser = 'globalUser',
+    /** There is no guild member to check the guild rules against, for example in DMs */
+    NoMember = 'noMember',
+    /** The user, or one of the member's roles, is explicitly denied in the guild */
+    GuildDeny = 'guildDeny',
+    /** The user has a permission level override in the guild */
+    GuildUser = 'guildUser',
+    /** The user owns the guild */
+    GuildOwner = 'guildOwner',
+    /** One of the member's roles has a permission level, the highest one is used */
+    GuildRole = 'guildRole',
+    /** No rule matched */
+    Default = 'default',
+}
+
+/**
+ * Describes how the permission level of a member was resolved.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface PermissionLevelExplanation {
+    /** The resolved permission level */
+    level: PermissionLevel;
+    /** The rule that produced the level */
+    rule: PermissionRule;
+    /** The ID of the user or role that matched the rule, if any */
+    id?: Snowflake;
+}
+
+/**
+ * Resolves the permission level of a user and explains which rule produced it.
+ * Rules are checked in the order of {@link PermissionRule}, the first matching rule wins:
+ * global user levels, then, if there is a guild member, guild denials, guild user overrides, the guild owner rule
+ * and the highest level of the member's roles.
+ * @since 0.4.0
+ * @param target - The guild member for whom to resolve the permission level, or the user if there is no member.
+ * @param source - The provider to consult, or a static configuration object.
+ * @returns The permission level of the user and the rule that produced it.
+ * @example
+ * ```ts
+ * const { level, rule, id } = await explainPermissionLevel(interaction.member);
+ * await interaction.reply(`You are ${PermissionLevel[level]} because of the ${rule} rule${id ? ` (${id})` : ''}.`);
+ * ```
+ */
+export const explainPermissionLevel = async (
+    target: GuildMember | User | null,
+    source: PermissionProvider | PermissionLevelConfig = container.permissions,
+): Promise<PermissionLevelExplanation> => {
+    if (!target) return { level: PermissionLevel.REGULAR, rule: PermissionRule.NoMember };
+
+    const provider = isPermissionProvider(source) ? source : new MemoryPermissionProvider(source);
+
+    // Global levels apply everywhere, including DMs and guilds where the member isn't cached
+    const globalConfig = await provider.getGlobalConfig();
+    const globalLevel = globalConfig.global[target.id];
+    if (globalLevel !== undefined) return { level: globalLevel, rule: PermissionRule.GlobalUser, id: target.id };
+
+    if (!('guild' in target)) return { level: PermissionLevel.REGULAR, rule: PermissionRule.NoMember };
+    const member = target;
+
+    const { users, roles, deny } = await provider.getGuildConfig(member.guild.id);
+    const roleIds = Array.from(member.roles.cache.keys());
+
+    if (deny?.users?.includes(member.id)) return { level: PermissionLevel.BLOCKED, rule: PermissionRule.GuildDeny, id: member.id };
+    const deniedRole = roleIds.find((roleId) => deny?.roles?.includes(roleId));
+    if (deniedRole !== undefined) return { level: PermissionLevel.BLOCKED, rule: PermissionRule.GuildDeny, id: deniedRole };
+
+    const userLevel = users?.[member.id];
+    if (userLevel !== undefined) return { level: userLevel, rule: PermissionRule.GuildUser, id: member.id };
+
+    const ownerLevel = globalConfig.guildOwner === undefined ? PermissionLevel.ADMINISTRATOR : globalConfig.guildOwner;
+    if (ownerLevel !== null && member.guild.ownerId === member.id) return { level: ownerLevel, rule: PermissionRule.GuildOwner, id: member.id };
+
+    let explanation: PermissionLevelExplanation = { level: PermissionLevel.REGULAR, rule: PermissionRule.Default };
+    for (const roleId of roleIds) {
+        const roleLevel = roles?.[roleId];
+        if (roleLevel === undefined) continue;
+        if (explanation.rule === PermissionRule.Default || roleLevel > explanation.level) {
+            explanation = { level: roleLevel, rule: PermissionRule.GuildRole, id: roleId };
+        }
+    }
+
+    return explanation;
 };
 
-const greaterThan = (a: number, b: number) => (a > b ? a : b);
-
-/**
- * Returns the permission level based on the given role IDs, default role, and ID-to-Role map.
- * @param rolesIds - An array of role IDs.
- * @param defaultRole - The default permission level.
- * @param IDRoleMap - A map of role IDs to permission levels.
- * @returns The calculated permission level.
- */
-export const _getPermissionLevel = (
-    rolesIds: string[],
-    defaultRole: PermissionLevel,
-    IDRoleMap: Record<string, PermissionLevel>,
-): PermissionLevel => {
-    return rolesIds.reduce<PermissionLevel>(
-        (previousLevel, roleId) =>
-            greaterThan(previousLevel, IDRoleMap[Object.keys(IDRoleMap).find((roleIds) => roleIds.includes(roleId)) || ''] || defaultRole),
-        defaultRole,
-    );
-};
\ No newline at end of file
+/**
+ * Retrieves the permission level for a given member, or user, from a permission provider.
+ * See {@link explainPermissionLevel} for the order the rules are checked in.
+ * @param target - The guild member for whom to retrieve the permission level, or the user if there is no member.
+ * @param source - The provider to consult, or a static configuration object.
+ * @returns The permission level of the user.
+ */
+export const getPermissionLevel = async (
+    target: GuildMember | User | null,
+    source: PermissionProvider | PermissionLevelConfig = container.permissions,
+): Promise<PermissionLevel> => (await explainPermissionLevel(target, source)).level;
+// #endregion Resolution
+
+/**
+ * Retrieves the permission level of the user that triggered an interaction.
+ * @internal Used by the interaction chains, guild rules only apply to cached guild members, global levels always apply.
+ * @since 0.4.0
+ * @param interaction - The interaction to retrieve the permission level for.
+ * @param source - The provider to consult, or a static configuration object.
+ * @returns The permission level of the user.
+ */
+export const _getInteractionPermissionLevel = (
+    interaction: BaseInteraction,
+    source: PermissionProvider | PermissionLevelConfig = container.permissions,
+): Promise<PermissionLevel> => getPermissionLevel(interaction.inCachedGuild() ? interaction.member : interaction.user, source);
+
+/**
+ * Checks a permission level against the level required by a handler.
+ * Blocked users are always denied, even if the handler requires no permission level.
+ * @internal Used by the global preconditions of every handler chain.
+ * @since 0.4.0
+ * @param level - The permission level of the user.
+ * @param required - The permission level required by the handler.
+ * @param noun - What the user is trying to use, used in the error message.
+ * @returns An error with the `Preconditions.PermissionLevel` identifier if the user is denied.
+ */
+export const _checkPermissionLevel = (
+    level: PermissionLevel,
+    required: PermissionLevel | undefined,
+    noun = 'command',
+): Result<unknown, UserError> => {
+    if (level === PermissionLevel.BLOCKED) {
+        return Result.err(
+            new UserError({
+                identifier: 'Preconditions.PermissionLevel',
+                message: `You are blocked from using this ${noun}.`,
+                context: { level, required },
+            }),
+        );
+    }
+
+    if (required !== undefined && level < required) {
+        return Result.err(
+            new UserError({
+                identifier: 'Preconditions.PermissionLevel',
+                message: `You need to be at least level ${PermissionLevel[required]} to use this ${noun}.`,
+                context: { level, required },
+            }),
+        );
+    }
+
+    return Result.ok(undefined);
+};
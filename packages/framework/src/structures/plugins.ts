@@ -6,15 +6,42 @@
  * - Lifecycle hooks for various stages of bot initialization and operation
  * - Type-safe plugin registration and management
  * - Ability to modify client behavior at key points
+ * - Middleware that runs around every handler execution
  * 
  * @module structures/plugins
  * @since 0.2.6
  */
 
 import type { Awaitable } from '@sapphire/utilities';
-import { type ClientOptions } from 'discord.js';
+import {
+    type AnySelectMenuInteraction,
+    type AutocompleteInteraction,
+    type ButtonInteraction,
+    type ChatInputCommandInteraction,
+    type ClientOptions,
+    type ContextMenuCommandInteraction,
+    type ModalSubmitInteraction,
+    type SelectMenuType,
+} from 'discord.js';
 
+import type {
+    AutoCompleteContext,
+    ButtonComponent,
+    ButtonComponentContext,
+    ContextMenuCommand,
+    ContextMenuCommandContext,
+    ModalComponent,
+    ModalComponentContext,
+    SelectMenuComponent,
+    SelectMenuComponentContext,
+    SlashCommand,
+    SlashCommandContext,
+    TextCommand,
+    TextCommandContext,
+    TextCommandMessage,
+} from '../handlers/index.js';
 import type { PeridotClient } from './client.js';
+import { container } from './container.js';
 
 // #region Symbols
 /**
@@ -59,7 +86,7 @@ export const postLogin: unique symbol = Symbol('PeridotFrameworkPluginsPostLogin
 
 /**
  * Symbol for the pre-handler run hook.
- * Called before any handler is executed.
+ * Called as middleware around every handler execution, see {@link PeridotPluginMiddlewareHook}.
  * @since 0.2.6
  * @category Symbols
  */
@@ -89,6 +116,7 @@ export abstract class Plugin {
     public static [postInitialization]?: (this: PeridotClient, options: ClientOptions) => void;
     public static [preLogin]?: (this: PeridotClient, options: ClientOptions) => Awaitable<void>;
     public static [postLogin]?: (this: PeridotClient, options: ClientOptions) => Awaitable<void>;
+    public static [preHandlerRun]?: PeridotPluginMiddlewareHook;
 }
 
 /**
@@ -129,7 +157,7 @@ export interface PeridotPluginAsyncHook {
  * @since 0.2.6
  * @category Types
  */
-export type SyncPluginHooks = Exclude<PluginHook, AsyncPluginHooks>;
+export type SyncPluginHooks = Exclude<PluginHook, AsyncPluginHooks | PluginHook.PreHandlerRun>;
 
 /**
  * Interface for synchronous plugin hooks.
@@ -140,16 +168,78 @@ export interface PeridotPluginHook {
     (this: PeridotClient, options: ClientOptions): unknown;
 }
 
+/**
+ * The payloads passed to {@link PeridotPluginMiddlewareHook}s, keyed by the kind of handler being run.
+ * Plugins running their own handlers through {@link PluginManager.runPreHandlerRunHooks} can augment this interface.
+ *
+ * Properties added to `ctx` are passed on to the handler. To make them type-safe, augment the `CommonContext` interface.
+ *
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface PreHandlerRunPayloads {
+    textCommand: { trigger: TextCommandMessage; handler: TextCommand; ctx: TextCommandContext };
+    slashCommand: { trigger: ChatInputCommandInteraction; handler: SlashCommand; ctx: SlashCommandContext };
+    contextMenuCommand: { trigger: ContextMenuCommandInteraction; handler: ContextMenuCommand; ctx: ContextMenuCommandContext };
+    buttonComponent: { trigger: ButtonInteraction; handler: ButtonComponent; ctx: ButtonComponentContext };
+    selectMenuComponent: { trigger: AnySelectMenuInteraction; handler: SelectMenuComponent<SelectMenuType>; ctx: SelectMenuComponentContext };
+    modalComponent: { trigger: ModalSubmitInteraction; handler: ModalComponent; ctx: ModalComponentContext };
+    autocomplete: { trigger: AutocompleteInteraction; handler: SlashCommand; ctx: AutoCompleteContext };
+}
+
+/**
+ * The payload passed to a {@link PeridotPluginMiddlewareHook}, discriminated by `type`.
+ * @since 0.4.0
+ * @category Types
+ */
+export type PreHandlerRunPayload = {
+    [K in keyof PreHandlerRunPayloads]: { type: K } & PreHandlerRunPayloads[K];
+}[keyof PreHandlerRunPayloads];
+
+/**
+ * Middleware that runs around every handler execution, registered with {@link PluginManager.registerPreHandlerRunHook}.
+ *
+ * A middleware can:
+ * - short-circuit the handler by throwing (usually a `UserError`), which is reported through the chain's error event
+ * - enrich the handler context by adding properties to `payload.ctx`
+ * - wrap the execution, for timing or locking, by awaiting `next()`
+ *
+ * The handler only runs if every middleware calls `next()`, which resolves to the result of the handler.
+ *
+ * @since 0.4.0
+ * @category Interfaces
+ * @example
+ * ```typescript
+ * PeridotClient.plugins.registerPreHandlerRunHook(async function (payload, next) {
+ *     const start = performance.now();
+ *     try {
+ *         return await next();
+ *     } finally {
+ *         this.logger.info({ type: payload.type, duration: performance.now() - start }, 'Handler timing');
+ *     }
+ * }, 'Timing');
+ * ```
+ */
+export interface PeridotPluginMiddlewareHook {
+    (this: PeridotClient, payload: PreHandlerRunPayload, next: () => Promise<unknown>): Awaitable<unknown>;
+}
+
 /**
  * Interface representing a plugin hook entry in the registry.
  * @since 0.2.6
  * @category Interfaces
  * @typeParam T - The type of hook (sync or async)
  */
-export interface PeridotPluginHookEntry<T = PeridotPluginHook | PeridotPluginAsyncHook> {
+export interface PeridotPluginHookEntry<T = PeridotPluginHook | PeridotPluginAsyncHook | PeridotPluginMiddlewareHook> {
     hook: T;
     type: PluginHook;
     name?: string;
+    /**
+     * The ordering priority of the hook, only used for {@link PluginHook.PreHandlerRun} hooks.
+     * Hooks with a higher priority run first (outermost), hooks with the same priority run in registration order.
+     * @default 0
+     */
+    priority?: number;
 }
 
 /**
@@ -180,9 +270,15 @@ export class PluginManager {
      */
     public registerHook(hook: PeridotPluginHook, type: SyncPluginHooks, name?: string): this;
     public registerHook(hook: PeridotPluginAsyncHook, type: AsyncPluginHooks, name?: string): this;
-    public registerHook(hook: PeridotPluginHook | PeridotPluginAsyncHook, type: PluginHook, name?: string): this {
+    public registerHook(hook: PeridotPluginMiddlewareHook, type: PluginHook.PreHandlerRun, name?: string, priority?: number): this;
+    public registerHook(
+        hook: PeridotPluginHook | PeridotPluginAsyncHook | PeridotPluginMiddlewareHook,
+        type: PluginHook,
+        name?: string,
+        priority?: number,
+    ): this {
         if (typeof hook !== 'function') throw new TypeError(`The provided hook ${name ? `(${name}) ` : ''}is not a function`);
-        this.registry.add({ hook, type, name });
+        this.registry.add({ hook, type, name, priority });
         return this;
     }
 
@@ -232,12 +328,13 @@ export class PluginManager {
     }
 
     /**
-     * Register a hook for the pre-handler run phase.
-     * @param hook - The hook function to register
+     * Register a middleware that runs around every handler execution.
+     * @param hook - The middleware to register
      * @param name - Optional name for the hook
+     * @param priority - The ordering priority, middleware with a higher priority runs first
      */
-    public registerPreHandlerRunHook(hook: PeridotPluginAsyncHook, name?: string) {
-        return this.registerHook(hook, PluginHook.PreHandlerRun, name);
+    public registerPreHandlerRunHook(hook: PeridotPluginMiddlewareHook, name?: string, priority = 0) {
+        return this.registerHook(hook, PluginHook.PreHandlerRun, name, priority);
     }
 
     public use(plugin: typeof Plugin) {
@@ -250,10 +347,10 @@ export class PluginManager {
             [preHandlerRun, PluginHook.PreHandlerRun],
         ];
         for (const [hookSymbol, hookType] of possibleSymbolHooks) {
-            const hook = Reflect.get(plugin, hookSymbol) as PeridotPluginHook | PeridotPluginAsyncHook;
+            const hook = Reflect.get(plugin, hookSymbol) as PeridotPluginHook | PeridotPluginAsyncHook | PeridotPluginMiddlewareHook;
             if (typeof hook !== 'function') continue;
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            this.registerHook(hook, hookType as any);
+            this.registerHook(hook as any, hookType as any);
         }
         return this;
     }
@@ -261,11 +358,44 @@ export class PluginManager {
     public values(): Generator<PeridotPluginHookEntry, void, unknown>;
     public values(hook: SyncPluginHooks): Generator<PeridotPluginHookEntry<PeridotPluginHook>, void, unknown>;
     public values(hook: AsyncPluginHooks): Generator<PeridotPluginHookEntry<PeridotPluginAsyncHook>, void, unknown>;
+    public values(hook: PluginHook.PreHandlerRun): Generator<PeridotPluginHookEntry<PeridotPluginMiddlewareHook>, void, unknown>;
     public *values(hook?: PluginHook): Generator<PeridotPluginHookEntry, void, unknown> {
         for (const plugin of this.registry) {
             if (hook && plugin.type !== hook) continue;
             yield plugin;
         }
     }
+
+    /**
+     * Runs the registered {@link PluginHook.PreHandlerRun} middleware around a handler.
+     * Used by the framework in every handler chain, plugins can use it to run their own handlers through the same pipeline.
+     *
+     * @since 0.4.0
+     * @param payload - The payload passed to every middleware
+     * @param run - Runs the handler, called once every middleware called `next()`
+     * @returns The result of the handler, or the value returned by the middleware that short-circuited
+     */
+    public async runPreHandlerRunHooks(payload: PreHandlerRunPayload, run: () => Awaitable<unknown>): Promise<unknown> {
+        // Array#sort is stable, so hooks with the same priority keep their registration order
+        const hooks = [...this.values(PluginHook.PreHandlerRun)].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+        const client = container.client as PeridotClient;
+
+        const dispatch = async (index: number): Promise<unknown> => {
+            const entry = hooks[index];
+            if (entry === undefined) return run();
+
+            let called = false;
+            return entry.hook.call(client, payload, () => {
+                if (called) {
+                    return Promise.reject(new Error(`The middleware ${entry.name ? `(${entry.name}) ` : ''}called next() multiple times`));
+                }
+
+                called = true;
+                return dispatch(index + 1);
+            });
+        };
+
+        return dispatch(0);
+    }
 }
 // #endregion PluginManager
@@ -0,0 +1,463 @@
+/**
+ * Provides declarative, per-handler preconditions for the PeridotJS framework.
+ * Preconditions are named, reusable checks that run before a handler and can deny it from running.
+ *
+ * This module provides:
+ * - The precondition registry, accessible through the container as `container.preconditions`
+ * - Built-in preconditions for cooldowns, NSFW channels, channel types and permissions
+ * - Types for listing preconditions in handler definitions
+ *
+ * Every handler type (text commands, slash commands, context menu commands, buttons, select menus and modals)
+ * can list preconditions in its `preconditions` property. They run in order after the global preconditions and the other checks of the chain,
+ * and the first one to fail emits the chain's Denied event with a {@link PreconditionError}.
+ * The preconditions that passed before it are released, undoing side effects such as taking a cooldown use.
+ *
+ * @module structures/preconditions
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * const command: SlashCommand = {
+ *     data: { name: 'purge', description: 'Delete messages in bulk' },
+ *     guilds: 'global',
+ *     preconditions: [
+ *         'NSFW',
+ *         { name: 'Cooldown', options: { window: 10_000 } },
+ *         { name: 'UserPermissions', options: { permissions: PermissionFlagsBits.ManageMessages } },
+ *     ],
+ *     async run(interaction) {
+ *         // ...
+ *     },
+ * };
+ * ```
+ */
+
+import { Result } from '@sapphire/result';
+import type { Awaitable } from '@sapphire/utilities';
+import {
+    type AnySelectMenuInteraction,
+    BaseInteraction,
+    type ButtonInteraction,
+    type Channel,
+    ChannelType,
+    type ChatInputCommandInteraction,
+    type ContextMenuCommandInteraction,
+    type ModalSubmitInteraction,
+    type PermissionResolvable,
+    PermissionsBitField,
+    type SelectMenuType,
+} from 'discord.js';
+import type { Logger } from 'pino';
+
+import { Identifiers } from '../errors/Identifiers.js';
+import { PreconditionError } from '../errors/PreconditionError.js';
+import { UserError } from '../errors/UserError.js';
+import type {
+    ButtonComponent,
+    ContextMenuCommand,
+    ModalComponent,
+    SelectMenuComponent,
+    SlashCommand,
+    TextCommand,
+    TextCommandMessage,
+} from '../handlers/index.js';
+import { CooldownPrecondition, type CooldownPreconditionOptions } from './cooldowns.js';
+
+// #region Types
+/**
+ * Options for the built-in `RunIn` precondition.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface RunInPreconditionOptions {
+    /**
+     * The channel types the handler can be used in.
+     * @example [ChannelType.GuildText, ChannelType.PublicThread]
+     */
+    types: readonly ChannelType[];
+}
+
+/**
+ * Options for the built-in `ClientPermissions` and `UserPermissions` preconditions.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface PermissionsPreconditionOptions {
+    /**
+     * The permissions required in the channel the handler is used in.
+     * Only checked in guilds.
+     */
+    permissions: PermissionResolvable;
+}
+
+/**
+ * The available preconditions, mapped to the type of their options.
+ * Preconditions without options are mapped to `undefined`.
+ *
+ * Augment this interface to make custom preconditions type-safe:
+ * ```ts
+ * declare module '@peridotjs/framework' {
+ *     interface Preconditions {
+ *         BetaTester: undefined;
+ *         MinimumAccountAge: { days: number };
+ *     }
+ * }
+ * ```
+ *
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface Preconditions {
+    Cooldown: CooldownPreconditionOptions;
+    NSFW: undefined;
+    RunIn: RunInPreconditionOptions;
+    ClientPermissions: PermissionsPreconditionOptions;
+    UserPermissions: PermissionsPreconditionOptions;
+}
+
+/**
+ * An entry in the `preconditions` list of a handler.
+ * Preconditions without required options can be listed by name only.
+ * @since 0.4.0
+ * @category Types
+ */
+export type PreconditionEntry = {
+    [K in keyof Preconditions]: undefined extends Preconditions[K]
+        ? K | { name: K; options?: Preconditions[K] }
+        : { name: K; options: Preconditions[K] };
+}[keyof Preconditions];
+
+/**
+ * The payloads passed to preconditions, keyed by the kind of handler being checked.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface PreconditionPayloads {
+    textCommand: { trigger: TextCommandMessage; handler: TextCommand };
+    slashCommand: { trigger: ChatInputCommandInteraction; handler: SlashCommand };
+    contextMenuCommand: { trigger: ContextMenuCommandInteraction; handler: ContextMenuCommand };
+    buttonComponent: { trigger: ButtonInteraction; handler: ButtonComponent };
+    selectMenuComponent: { trigger: AnySelectMenuInteraction; handler: SelectMenuComponent<SelectMenuType> };
+    modalComponent: { trigger: ModalSubmitInteraction; handler: ModalComponent };
+}
+
+/**
+ * The payload passed to a {@link Precondition}, discriminated by `type`.
+ * @since 0.4.0
+ * @category Types
+ */
+export type PreconditionPayload = {
+    [K in keyof PreconditionPayloads]: { type: K; logger: Logger } & PreconditionPayloads[K];
+}[keyof PreconditionPayloads];
+
+/**
+ * The result of a precondition, either `ok` to allow the handler to run or `err` with the reason it was denied.
+ * @since 0.4.0
+ * @category Types
+ */
+export type PreconditionResult = Result<unknown, UserError>;
+
+/**
+ * A named, reusable precondition.
+ *
+ * @since 0.4.0
+ * @category Interfaces
+ * @typeParam Name - The name of the precondition in the {@link Preconditions} interface
+ * @example
+ * ```ts
+ * const betaTester = {
+ *     name: 'BetaTester',
+ *     run({ trigger }) {
+ *         const user = 'author' in trigger ? trigger.author : trigger.user;
+ *         return betaTesters.has(user.id)
+ *             ? Result.ok(undefined)
+ *             : Result.err(new UserError({ identifier: 'preconditionBetaTester', message: 'This is only available to beta testers.' }));
+ *     },
+ * } satisfies Precondition<'BetaTester'>;
+ *
+ * container.preconditions.register(betaTester);
+ * ```
+ */
+export interface Precondition<Name extends keyof Preconditions = keyof Preconditions> {
+    /** The name handlers use to list this precondition */
+    name: Name;
+    /**
+     * Checks whether the handler is allowed to run.
+     * Throwing a {@link UserError} is treated the same as returning it.
+     * @param payload - The handler being checked and what triggered it
+     * @param options - The options listed alongside the precondition in the handler
+     */
+    run(payload: PreconditionPayload, options: Preconditions[Name]): Awaitable<PreconditionResult>;
+    /**
+     * Undoes the side effects of a run that passed, called if the handler is denied afterwards anyway,
+     * by a later precondition or a check of the handler chain.
+     * @param payload - The payload the precondition ran with
+     * @param options - The options listed alongside the precondition in the handler
+     */
+    release?(payload: PreconditionPayload, options: Preconditions[Name]): Awaitable<void>;
+}
+// #endregion Types
+
+// #region Registry
+/**
+ * Registry for named preconditions.
+ * Handles registration and lookup of preconditions, and running the preconditions listed in a handler.
+ *
+ * The registry is accessible through the container object: `container.preconditions`
+ *
+ * @since 0.4.0
+ * @category Classes
+ */
+export class PreconditionRegistry {
+    private preconditions = new Map<string, Precondition>();
+
+    /**
+     * Register a precondition, replacing any precondition with the same name.
+     * @param precondition - The precondition to register
+     */
+    public register<Name extends keyof Preconditions>(precondition: Precondition<Name>): this {
+        this.preconditions.set(precondition.name, precondition as unknown as Precondition);
+        return this;
+    }
+
+    /**
+     * Unregister a precondition.
+     * @param name - The name of the precondition to unregister
+     */
+    public unregister(name: keyof Preconditions): this {
+        this.preconditions.delete(name);
+        return this;
+    }
+
+    /**
+     * Get all registered preconditions
+     * @returns Array of all registered preconditions
+     */
+    public getPreconditions(): Precondition[] {
+        return [...this.preconditions.values()];
+    }
+
+    /**
+     * Get a precondition by name
+     * @param name - The name of the precondition to get
+     * @returns Result containing either the precondition or an error
+     */
+    public getPrecondition<Name extends keyof Preconditions>(name: Name): Result<Precondition<Name>, Error> {
+        const precondition = this.preconditions.get(name);
+        if (precondition === undefined) {
+            return Result.err(new Error(`The precondition '${name}' does not exist.`));
+        }
+
+        return Result.ok(precondition as unknown as Precondition<Name>);
+    }
+
+    /**
+     * Runs the preconditions listed in a handler, in order, stopping at the first one that fails.
+     * Preconditions that are not registered fail with {@link Identifiers.PreconditionUnavailable}.
+     * If one fails, the preconditions that passed before it are released, see {@link Precondition.release}.
+     *
+     * @param entries - The preconditions listed in the handler
+     * @param payload - The payload passed to every precondition
+     * @returns `ok` if every precondition passed, otherwise `err` with the error of the failing precondition
+     */
+    public async run(entries: readonly PreconditionEntry[] | undefined, payload: PreconditionPayload): Promise<Result<unknown, PreconditionError>> {
+        const passed: { precondition: Precondition; options: unknown }[] = [];
+
+        for (const entry of entries ?? []) {
+            const { name, options } = typeof entry === 'string' ? { name: entry, options: undefined } : entry;
+
+            const precondition = this.preconditions.get(name);
+            if (precondition === undefined) {
+                await this.release(passed, payload);
+                return Result.err(
+                    new PreconditionError({
+                        precondition: name,
+                        identifier: Identifiers.PreconditionUnavailable,
+                        message: `The precondition '${name}' is not registered.`,
+                    }),
+                );
+            }
+
+            let result: PreconditionResult;
+            try {
+                result = await precondition.run(payload, options as never);
+            } catch (thrown) {
+                // Only user errors are denials, anything else is a bug in the precondition
+                if (!(thrown instanceof UserError)) throw thrown;
+                result = Result.err(thrown);
+            }
+
+            if (result.isOk()) {
+                passed.push({ precondition, options });
+                continue;
+            }
+
+            const error = result.unwrapErr();
+            payload.logger.trace({ precondition: name, identifier: error.identifier }, 'Precondition failed');
+            await this.release(passed, payload);
+
+            return Result.err(
+                error instanceof PreconditionError
+                    ? error
+                    : new PreconditionError({ precondition: name, identifier: error.identifier, message: error.message, context: error.context }),
+            );
+        }
+
+        return Result.ok(undefined);
+    }
+
+    /**
+     * Releases the preconditions that passed, in reverse order, after a later one failed.
+     * @param passed - The preconditions that passed, with their options
+     * @param payload - The payload the preconditions ran with
+     */
+    private async release(passed: readonly { precondition: Precondition; options: unknown }[], payload: PreconditionPayload): Promise<void> {
+        for (const { precondition, options } of [...passed].reverse()) {
+            try {
+                await precondition.release?.(payload, options as never);
+            } catch (err) {
+                // The handler is denied either way, a failed release only leaves the side effect in place
+                payload.logger.warn({ err, precondition: precondition.name }, 'Failed to release precondition');
+            }
+        }
+    }
+}
+// #endregion Registry
+
+// #region Built-in preconditions
+/**
+ * Whether a channel is marked as NSFW, threads inherit this from their parent channel.
+ * @param channel - The channel to check
+ */
+const isNSFWChannel = (channel: Channel | null): boolean => {
+    if (channel === null) return false;
+    if (channel.isThread()) return channel.parent?.nsfw ?? false;
+    return 'nsfw' in channel && channel.nsfw;
+};
+
+/**
+ * Built-in precondition only allowing a handler to be used in NSFW channels.
+ * Denies with {@link Identifiers.PreconditionNSFW}.
+ * @since 0.4.0
+ */
+export const NSFWPrecondition: Precondition<'NSFW'> = {
+    name: 'NSFW',
+    run({ trigger }) {
+        if (isNSFWChannel(trigger.channel)) return Result.ok(undefined);
+
+        return Result.err(
+            new UserError({
+                identifier: Identifiers.PreconditionNSFW,
+                message: 'This can only be used in NSFW channels.',
+            }),
+        );
+    },
+};
+
+/**
+ * Built-in precondition only allowing a handler to be used in specific channel types.
+ * Denies with {@link Identifiers.PreconditionRunIn}, the context contains the allowed `types`.
+ * @since 0.4.0
+ */
+export const RunInPrecondition: Precondition<'RunIn'> = {
+    name: 'RunIn',
+    run({ trigger }, { types }) {
+        // Uncached DM channels are not available on the trigger, but can only be DMs
+        const type = trigger.channel?.type ?? (trigger.guildId === null ? ChannelType.DM : null);
+        if (type !== null && types.includes(type)) return Result.ok(undefined);
+
+        return Result.err(
+            new UserError({
+                identifier: Identifiers.PreconditionRunIn,
+                message: 'This cannot be used in this channel.',
+                context: { types },
+            }),
+        );
+    },
+};
+
+/**
+ * Built-in precondition requiring the bot to have permissions in the channel.
+ * Denies with {@link Identifiers.PreconditionClientPermissions}, the context contains the `missing` permissions.
+ * @since 0.4.0
+ */
+export const ClientPermissionsPrecondition: Precondition<'ClientPermissions'> = {
+    name: 'ClientPermissions',
+    run({ trigger }, { permissions }) {
+        if (!trigger.inGuild()) return Result.ok(undefined);
+
+        let current: Readonly<PermissionsBitField> | null;
+        if (trigger instanceof BaseInteraction) {
+            current = trigger.appPermissions;
+        } else {
+            const me = trigger.guild.members.me;
+            if (me === null) {
+                return Result.err(
+                    new UserError({
+                        identifier: Identifiers.PreconditionClientPermissionsNoClient,
+                        message: 'Could not resolve the permissions of the bot.',
+                    }),
+                );
+            }
+
+            current = me.permissionsIn(trigger.channel);
+        }
+
+        const missing = current.missing(permissions);
+        if (missing.length === 0) return Result.ok(undefined);
+
+        return Result.err(
+            new UserError({
+                identifier: Identifiers.PreconditionClientPermissions,
+                message: `I am missing the following permissions: ${missing.join(', ')}`,
+                context: { missing },
+            }),
+        );
+    },
+};
+
+/**
+ * Built-in precondition requiring the user to have permissions in the channel.
+ * Denies with {@link Identifiers.PreconditionUserPermissions}, the context contains the `missing` permissions.
+ * @since 0.4.0
+ */
+export const UserPermissionsPrecondition: Precondition<'UserPermissions'> = {
+    name: 'UserPermissions',
+    run({ trigger }, { permissions }) {
+        if (!trigger.inGuild()) return Result.ok(undefined);
+
+        const current = trigger instanceof BaseInteraction ? trigger.memberPermissions : (trigger.member?.permissionsIn(trigger.channel) ?? null);
+        if (current === null) {
+            return Result.err(
+                new UserError({
+                    identifier: Identifiers.PreconditionUserPermissionsNoPermissions,
+                    message: 'Could not resolve your permissions.',
+                }),
+            );
+        }
+
+        const missing = new PermissionsBitField(current).missing(permissions);
+        if (missing.length === 0) return Result.ok(undefined);
+
+        return Result.err(
+            new UserError({
+                identifier: Identifiers.PreconditionUserPermissions,
+                message: `You are missing the following permissions: ${missing.join(', ')}`,
+                context: { missing },
+            }),
+        );
+    },
+};
+
+/**
+ * Used to register the built-in preconditions.
+ * @internal This is an internal function and should not be used directly.
+ * @since 0.4.0
+ */
+export const _registerBuiltInPreconditions = (registry: PreconditionRegistry) => {
+    registry.register(CooldownPrecondition);
+    registry.register(NSFWPrecondition);
+    registry.register(RunInPrecondition);
+    registry.register(ClientPermissionsPrecondition);
+    registry.register(UserPermissionsPrecondition);
+};
+// #endregion Built-in preconditions
@@ -0,0 +1,130 @@
+/**
+ * Provides the response renderer, turning the {@link UserError}s of handlers into replies to the user.
+ * The renderer is configured with the `responseRenderer` client option, and used by the listeners of {@link registerDefaultEventLoggers}
+ * for the errors and denials of text commands, slash commands, context menu commands and components.
+ *
+ * Replies to interactions are ephemeral by default, and follow up when the interaction was already deferred or replied to.
+ *
+ * The renderer is accessible through the container object: `container.responseRenderer`
+ *
+ * @module structures/responses
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * const client = new PeridotClient({
+ *     // ...
+ *     responseRenderer: (error, { kind }) => {
+ *         if (error.identifier === Identifiers.PreconditionCooldown) {
+ *             const { remaining } = error.context as { remaining: number };
+ *             return { content: `Slow down! Try again in ${Math.ceil(remaining / 1000)} seconds.` };
+ *         }
+ *
+ *         return defaultResponseRenderer(error, { kind });
+ *     },
+ * });
+ * ```
+ */
+
+import type { Awaitable } from '@sapphire/utilities';
+import {
+    type BaseMessageOptions,
+    Colors,
+    type CommandInteraction,
+    EmbedBuilder,
+    type Message,
+    type MessageComponentInteraction,
+    type ModalSubmitInteraction,
+} from 'discord.js';
+import type { Logger } from 'pino';
+
+import type { UserError } from '../errors/UserError.js';
+import { container } from './container.js';
+
+// #region Types
+/**
+ * Why a response is sent.
+ * - `denied`: The handler was denied before running, for example by a precondition
+ * - `error`: The handler threw a {@link UserError} while running
+ * @since 0.4.0
+ * @category Types
+ */
+export type ResponseKind = 'denied' | 'error';
+
+/**
+ * The message or interaction a response replies to.
+ * @since 0.4.0
+ * @category Types
+ */
+export type ResponseTrigger = Message | CommandInteraction | MessageComponentInteraction | ModalSubmitInteraction;
+
+/**
+ * The context passed to a {@link ResponseRenderer}.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface ResponseContext {
+    /** Why the response is sent */
+    kind: ResponseKind;
+    /** The message or interaction that invoked the handler, absent when rendering outside of a handler */
+    trigger?: ResponseTrigger;
+}
+
+/**
+ * The reply rendered for an error.
+ * @since 0.4.0
+ * @category Types
+ */
+export type ResponsePayload = Pick<BaseMessageOptions, 'content' | 'embeds' | 'components' | 'files' | 'allowedMentions'> & {
+    /**
+     * Whether the reply to an interaction is only visible to the user, ignored for messages.
+     * @default true
+     */
+    ephemeral?: boolean;
+};
+
+/**
+ * Maps an error, by its identifier and context, to the reply sent to the user.
+ * @since 0.4.0
+ * @category Types
+ * @returns The reply, or `null` to not reply
+ */
+export type ResponseRenderer = (error: UserError, ctx: ResponseContext) => Awaitable<ResponsePayload | null>;
+// #endregion Types
+
+// #region Rendering
+/**
+ * The default response renderer, replying with a red embed with the message of the error.
+ * @since 0.4.0
+ * @category Functions
+ */
+export const defaultResponseRenderer: ResponseRenderer = (error, { kind }) => ({
+    embeds: [
+        new EmbedBuilder()
+            .setTitle(kind === 'denied' ? 'Denied' : 'Error')
+            .setDescription(error.message)
+            .setColor(Colors.Red),
+    ],
+});
+
+/**
+ * Renders an error with the configured renderer, and replies with it.
+ * Interactions are answered ephemerally by default, following up if they were already deferred or replied to.
+ * @param trigger - The message or interaction that invoked the handler
+ * @param error - The error to render
+ * @param kind - Why the response is sent
+ * @param logger - The logger of the handler
+ */
+export const _sendResponse = async (trigger: ResponseTrigger, error: UserError, kind: ResponseKind, logger: Logger): Promise<void> => {
+    try {
+        const payload = await container.responseRenderer(error, { kind, trigger });
+        if (payload === null) return;
+
+        const { ephemeral = true, ...options } = payload;
+        if ('author' in trigger) await trigger.reply(options);
+        else if (trigger.replied || trigger.deferred) await trigger.followUp({ ...options, ephemeral });
+        else await trigger.reply({ ...options, ephemeral });
+    } catch (err) {
+        logger.error({ err, message: error.message }, 'Failed to send response');
+    }
+};
+// #endregion Rendering
@@ -0,0 +1,96 @@
+/**
+ * Provides the invocation scope, making the current handler invocation available anywhere in the code it runs.
+ * Every handler invocation runs inside an `AsyncLocalStorage` scope, from resolving the handler to its finish event,
+ * so helper modules can log with the correlated logger without being handed `ctx.logger`.
+ *
+ * The current scope is accessible through the container object: `container.scope`
+ *
+ * @module structures/scope
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * // utils/database.ts
+ * export const query = async (sql: string) => {
+ *     const logger = container.scope?.logger ?? container.logger;
+ *     logger.debug({ sql }, 'Running query');
+ *     // ...
+ * };
+ *
+ * // In a handler, or any code it calls
+ * container.scope?.values.set('tenant', tenantId);
+ * ```
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import type { Snowflake, User } from 'discord.js';
+import type { Logger } from 'pino';
+
+import type { PreHandlerRunPayloads } from './plugins.js';
+
+// #region Types
+/**
+ * The properties shared by every {@link InvocationScope}.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface BaseInvocationScope {
+    /** The ID of the invocation, the ID of the message or interaction that invoked the handler */
+    id: Snowflake;
+    /** The user that invoked the handler */
+    user: User;
+    /** The ID of the guild the handler was invoked in, `null` in direct messages */
+    guildId: Snowflake | null;
+    /** The logger of the invocation, the same as `ctx.logger` */
+    logger: Logger;
+    /** Arbitrary values scoped to the invocation */
+    values: Map<string, unknown>;
+}
+
+/**
+ * The current handler invocation, discriminated by `type`.
+ * @since 0.4.0
+ * @category Types
+ */
+export type InvocationScope = {
+    [K in keyof PreHandlerRunPayloads]: BaseInvocationScope & {
+        /** The type of the handler */
+        type: K;
+        /** The invoked handler */
+        handler: PreHandlerRunPayloads[K]['handler'];
+        /** The message or interaction that invoked the handler */
+        trigger: PreHandlerRunPayloads[K]['trigger'];
+    };
+}[keyof PreHandlerRunPayloads];
+// #endregion Types
+
+// #region Scope
+const storage = new AsyncLocalStorage<InvocationScope>();
+
+/**
+ * Gets the current handler invocation.
+ * @returns The scope, or `null` outside of a handler invocation
+ */
+export const _getInvocationScope = (): InvocationScope | null => storage.getStore() ?? null;
+
+/**
+ * Runs a function inside the scope of a handler invocation.
+ * @param type - The type of the handler
+ * @param trigger - The message or interaction that invoked the handler
+ * @param handler - The invoked handler
+ * @param logger - The logger of the invocation
+ * @param run - The function to run, usually emitting the next event of the chain
+ */
+export const _runInInvocationScope = <K extends keyof PreHandlerRunPayloads, T>(
+    type: K,
+    trigger: PreHandlerRunPayloads[K]['trigger'],
+    handler: PreHandlerRunPayloads[K]['handler'],
+    logger: Logger,
+    run: () => T,
+): T => {
+    const user = 'author' in trigger ? trigger.author : trigger.user;
+    const scope = { id: trigger.id, type, handler, trigger, user, guildId: trigger.guildId, logger, values: new Map() } as InvocationScope;
+
+    return storage.run(scope, run);
+};
+// #endregion Scope
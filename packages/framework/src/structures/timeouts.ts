@@ -0,0 +1,79 @@
+/**
+ * Provides handler timeouts, failing handlers that don't finish in time instead of leaving them hanging.
+ * Every handler context carries an `AbortSignal` as `ctx.signal`, and every handler accepts a `timeout` in milliseconds.
+ *
+ * Once the timeout runs out, the signal is aborted and the handler fails with a {@link Identifiers.HandlerTimeout} error,
+ * going through `onError` or the error event like any other error, which replies to the user by default.
+ * The handler keeps running until it checks the signal, but its late result, or error, is ignored.
+ *
+ * @module structures/timeouts
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * const weather: SlashCommand = {
+ *     data: { name: 'weather', description: 'Shows the weather' },
+ *     guilds: 'global',
+ *     timeout: 10_000,
+ *     async run(interaction, { signal }) {
+ *         const response = await fetch('https://api.example.com/weather', { signal });
+ *         await interaction.reply(await response.text());
+ *     },
+ * };
+ * ```
+ */
+
+import { Identifiers } from '../errors/Identifiers.js';
+import { UserError } from '../errors/UserError.js';
+
+/**
+ * The timeout of a handler invocation.
+ * @since 0.4.0
+ * @category Interfaces
+ */
+export interface HandlerTimeout {
+    /** The signal aborted once the timeout runs out, passed to the handler as `ctx.signal` */
+    signal: AbortSignal;
+    /**
+     * Runs the handler, rejecting with a {@link Identifiers.HandlerTimeout} error once the timeout runs out.
+     * @param run - The function running the handler
+     */
+    race<T>(run: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Creates the timeout of a handler invocation.
+ * @param timeout - The `timeout` property of the handler, the signal is never aborted if `undefined`
+ */
+export const _createHandlerTimeout = (timeout: number | undefined): HandlerTimeout => {
+    const controller = new AbortController();
+
+    const race = async <T>(run: () => Promise<T>): Promise<T> => {
+        const promise = run();
+        if (timeout === undefined) return promise;
+
+        // The handler can still settle after the timeout, its result is ignored
+        promise.catch(() => {});
+
+        let timer: NodeJS.Timeout | undefined;
+        const expired = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                const error = new UserError({
+                    identifier: Identifiers.HandlerTimeout,
+                    message: 'This took too long to respond, please try again later.',
+                    context: { timeout },
+                });
+
+                controller.abort(error);
+                reject(error);
+            }, timeout);
+        });
+
+        try {
+            return await Promise.race([promise, expired]);
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+
+    return { signal: controller.signal, race };
+};
@@ -0,0 +1,55 @@
+/**
+ * Provides the typing indicator of text commands, shown in the channel of the message while the command runs.
+ * Typing is enabled for every text command with the `typing` client option, and overridden per command with `data.typing`.
+ *
+ * Discord shows the indicator for 10 seconds, so it's refreshed until the command finishes.
+ * Failing to send it, for example without the permission to send messages, emits {@link Events.TextCommandTypingError} and stops refreshing.
+ *
+ * @module structures/typing
+ * @since 0.4.0
+ * @example
+ * ```ts
+ * const client = new PeridotClient({
+ *     // ...
+ *     typing: true,
+ * });
+ *
+ * const ping: TextCommand = {
+ *     data: { name: 'ping', description: 'Pong!', guilds: 'global', permission: PermissionLevel.REGULAR, typing: false },
+ *     async run(message) {
+ *         await message.reply('Pong!');
+ *     },
+ * };
+ * ```
+ */
+
+import type { TextCommand, TextCommandMessage } from '../handlers/TextCommand.js';
+import { container } from './container.js';
+
+/** The interval the typing indicator is refreshed at, shorter than the 10 seconds Discord shows it for */
+const TypingRefreshInterval = 9_000;
+
+/**
+ * Whether a text command shows the typing indicator while it runs.
+ * @param command - The text command
+ */
+export const _shouldType = (command: TextCommand): boolean => command.data.typing ?? container.client.options.typing ?? false;
+
+/**
+ * Sends the typing indicator in the channel of a message, refreshing it until stopped.
+ * @param message - The message that invoked the command
+ * @param onError - Called when the indicator fails to be sent, after which it stops refreshing
+ * @returns A function stopping the indicator
+ */
+export const _startTyping = (message: TextCommandMessage, onError: (error: unknown) => void): (() => void) => {
+    const send = () =>
+        message.channel.sendTyping().catch((error: unknown) => {
+            clearInterval(interval);
+            onError(error);
+        });
+
+    const interval = setInterval(send, TypingRefreshInterval);
+    void send();
+
+    return () => clearInterval(interval);
+};
@@ -0,0 +1,34 @@
+import type { Server } from 'node:http';
+
+import type { MetricsRegistry, MetricsRegistryOptions } from './lib/MetricsRegistry.js';
+import type { MetricsServerOptions } from './lib/server.js';
+
+export * from './lib/index.js';
+
+/**
+ * Options for the metrics plugin.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface MetricsOptions extends MetricsRegistryOptions, MetricsServerOptions {
+    /**
+     * Whether to serve the metrics over HTTP after logging in.
+     * Disable it to serve `container.metrics.render()` from your own server.
+     * @default true
+     */
+    server?: boolean;
+}
+
+declare module '@peridotjs/framework' {
+    interface Container {
+        metrics: MetricsRegistry;
+        /** The server serving the metrics, `null` until logged in or when disabled */
+        metricsServer: Server | null;
+    }
+}
+
+declare module 'discord.js' {
+    export interface ClientOptions {
+        metrics?: MetricsOptions;
+    }
+}
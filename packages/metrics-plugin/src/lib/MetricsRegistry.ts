@@ -0,0 +1,345 @@
+/**
+ * The type of a metric in the Prometheus text format.
+ * @since 0.1.0
+ * @category Types
+ */
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * The values of the labels of a metric, keyed by label name.
+ * @since 0.1.0
+ * @category Types
+ */
+export type MetricLabels<LabelName extends string = string> = Record<LabelName, string>;
+
+/**
+ * The default buckets of histograms, in seconds.
+ * @since 0.1.0
+ * @category Constants
+ */
+export const DefaultHistogramBuckets: readonly number[] = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// #region Formatting
+const escapeHelp = (help: string) => help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+
+const escapeLabelValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatValue = (value: number) => {
+    if (Number.isNaN(value)) return 'NaN';
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+};
+
+const formatLabels = (labels: MetricLabels) => {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+
+    return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+};
+
+/**
+ * Gets the key of a series, identifying it by the values of its labels in declaration order.
+ */
+const getSeriesKey = (labelNames: readonly string[], labels: MetricLabels) => JSON.stringify(labelNames.map((name) => labels[name] ?? ''));
+
+const pickLabels = (labelNames: readonly string[], labels: MetricLabels): MetricLabels =>
+    Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? '']));
+// #endregion Formatting
+
+// #region Metrics
+/**
+ * The base of every metric, rendering its samples in the Prometheus text format.
+ * @since 0.1.0
+ * @category Classes
+ */
+export abstract class Metric<LabelName extends string = string> {
+    public abstract readonly type: MetricType;
+
+    public constructor(
+        /** The name of the metric, including the prefix of the registry */
+        public readonly name: string,
+        /** The description of the metric */
+        public readonly help: string,
+        /** The names of the labels of the metric */
+        public readonly labelNames: readonly LabelName[] = [],
+    ) {}
+
+    /**
+     * Removes every series of the metric.
+     */
+    public abstract reset(): void;
+
+    /**
+     * Renders the samples of the metric, without the `HELP` and `TYPE` lines.
+     */
+    protected abstract samples(): string[];
+
+    /**
+     * Renders the metric in the Prometheus text format.
+     */
+    public render(): string {
+        return [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+    }
+}
+
+/**
+ * A value that only goes up, such as the number of handled interactions.
+ * @since 0.1.0
+ * @category Classes
+ */
+export class Counter<LabelName extends string = string> extends Metric<LabelName> {
+    public readonly type = 'counter';
+
+    private readonly series = new Map<string, { labels: MetricLabels; value: number }>();
+
+    /**
+     * Increments the series of the labels.
+     * @param labels - The values of the labels
+     * @param value - The amount to increment by, must not be negative
+     */
+    public inc(labels: MetricLabels<LabelName>, value = 1): void {
+        if (value < 0) throw new RangeError(`Counter ${this.name} cannot be decremented, received ${value}`);
+
+        const key = getSeriesKey(this.labelNames, labels);
+        const series = this.series.get(key);
+
+        if (series) series.value += value;
+        else this.series.set(key, { labels: pickLabels(this.labelNames, labels), value });
+    }
+
+    /**
+     * Gets the value of the series of the labels.
+     */
+    public get(labels: MetricLabels<LabelName>): number {
+        return this.series.get(getSeriesKey(this.labelNames, labels))?.value ?? 0;
+    }
+
+    public reset(): void {
+        this.series.clear();
+    }
+
+    protected samples(): string[] {
+        return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+    }
+}
+
+/**
+ * A value that goes up and down, such as the gateway ping.
+ * Gauges can either be set directly, or collected when the metrics are rendered.
+ * @since 0.1.0
+ * @category Classes
+ */
+export class Gauge<LabelName extends string = string> extends Metric<LabelName> {
+    public readonly type = 'gauge';
+
+    private readonly series = new Map<string, { labels: MetricLabels; value: number }>();
+
+    public constructor(
+        name: string,
+        help: string,
+        labelNames: readonly LabelName[] = [],
+        /** Called before rendering to update the gauge */
+        private readonly collect?: (gauge: Gauge<LabelName>) => void,
+    ) {
+        super(name, help, labelNames);
+    }
+
+    /**
+     * Sets the series of the labels.
+     */
+    public set(labels: MetricLabels<LabelName>, value: number): void {
+        const key = getSeriesKey(this.labelNames, labels);
+        const series = this.series.get(key);
+
+        if (series) series.value = value;
+        else this.series.set(key, { labels: pickLabels(this.labelNames, labels), value });
+    }
+
+    /**
+     * Increments the series of the labels, decrementing with a negative value.
+     */
+    public inc(labels: MetricLabels<LabelName>, value = 1): void {
+        this.set(labels, this.get(labels) + value);
+    }
+
+    /**
+     * Gets the value of the series of the labels.
+     */
+    public get(labels: MetricLabels<LabelName>): number {
+        return this.series.get(getSeriesKey(this.labelNames, labels))?.value ?? 0;
+    }
+
+    public reset(): void {
+        this.series.clear();
+    }
+
+    protected samples(): string[] {
+        this.collect?.(this);
+        return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+    }
+}
+
+/**
+ * The distribution of observed values in buckets, such as the duration of handlers.
+ * @since 0.1.0
+ * @category Classes
+ */
+export class Histogram<LabelName extends string = string> extends Metric<LabelName> {
+    public readonly type = 'histogram';
+
+    /** The upper bounds of the buckets, in ascending order */
+    public readonly buckets: readonly number[];
+
+    private readonly series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+
+    public constructor(name: string, help: string, labelNames: readonly LabelName[] = [], buckets: readonly number[] = DefaultHistogramBuckets) {
+        super(name, help, labelNames);
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    /**
+     * Observes a value for the series of the labels.
+     */
+    public observe(labels: MetricLabels<LabelName>, value: number): void {
+        const key = getSeriesKey(this.labelNames, labels);
+        let series = this.series.get(key);
+
+        if (!series) {
+            series = { labels: pickLabels(this.labelNames, labels), counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, series);
+        }
+
+        const index = this.buckets.findIndex((bucket) => value <= bucket);
+        if (index !== -1) series.counts[index]! += 1;
+
+        series.sum += value;
+        series.count += 1;
+    }
+
+    public reset(): void {
+        this.series.clear();
+    }
+
+    protected samples(): string[] {
+        return [...this.series.values()].flatMap(({ labels, counts, sum, count }) => {
+            let cumulative = 0;
+            const buckets = this.buckets.map((bucket, index) => {
+                cumulative += counts[index]!;
+                return `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bucket) })} ${cumulative}`;
+            });
+
+            return [
+                ...buckets,
+                `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+                `${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+                `${this.name}_count${formatLabels(labels)} ${count}`,
+            ];
+        });
+    }
+}
+// #endregion Metrics
+
+// #region Registry
+/**
+ * Options for the {@link MetricsRegistry}.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface MetricsRegistryOptions {
+    /**
+     * The prefix of the name of every metric.
+     * @default 'peridot_'
+     */
+    prefix?: string;
+}
+
+/**
+ * Holds the metrics of the bot, and renders them in the Prometheus text format.
+ * @since 0.1.0
+ * @category Classes
+ * @example
+ * ```ts
+ * const votes = container.metrics.counter('poll_votes_total', 'The number of poll votes', ['poll']);
+ * votes.inc({ poll: 'favorite-color' });
+ * ```
+ */
+export class MetricsRegistry {
+    /** The prefix of the name of every metric */
+    public readonly prefix: string;
+
+    private readonly metrics = new Map<string, Metric>();
+
+    public constructor({ prefix = 'peridot_' }: MetricsRegistryOptions = {}) {
+        this.prefix = prefix;
+    }
+
+    /**
+     * Creates a counter, or gets it if it was already created.
+     * @param name - The name of the metric, without the prefix
+     * @param help - The description of the metric
+     * @param labelNames - The names of the labels of the metric
+     */
+    public counter<LabelName extends string = never>(name: string, help: string, labelNames: readonly LabelName[] = []): Counter<LabelName> {
+        return this.getOrCreate(name, 'counter', () => new Counter(this.prefix + name, help, labelNames));
+    }
+
+    /**
+     * Creates a gauge, or gets it if it was already created.
+     * @param name - The name of the metric, without the prefix
+     * @param help - The description of the metric
+     * @param labelNames - The names of the labels of the metric
+     * @param collect - Called before rendering to update the gauge
+     */
+    public gauge<LabelName extends string = never>(
+        name: string,
+        help: string,
+        labelNames: readonly LabelName[] = [],
+        collect?: (gauge: Gauge<LabelName>) => void,
+    ): Gauge<LabelName> {
+        return this.getOrCreate(name, 'gauge', () => new Gauge(this.prefix + name, help, labelNames, collect));
+    }
+
+    /**
+     * Creates a histogram, or gets it if it was already created.
+     * @param name - The name of the metric, without the prefix
+     * @param help - The description of the metric
+     * @param labelNames - The names of the labels of the metric
+     * @param buckets - The upper bounds of the buckets
+     */
+    public histogram<LabelName extends string = never>(
+        name: string,
+        help: string,
+        labelNames: readonly LabelName[] = [],
+        buckets?: readonly number[],
+    ): Histogram<LabelName> {
+        return this.getOrCreate(name, 'histogram', () => new Histogram(this.prefix + name, help, labelNames, buckets));
+    }
+
+    /**
+     * Removes the series of every metric, keeping the metrics themselves.
+     */
+    public reset(): void {
+        for (const metric of this.metrics.values()) metric.reset();
+    }
+
+    /**
+     * Renders every metric in the Prometheus text format.
+     */
+    public render(): string {
+        return `${[...this.metrics.values()].map((metric) => metric.render()).join('\n')}\n`;
+    }
+
+    private getOrCreate<T extends Metric>(name: string, type: MetricType, create: () => T): T {
+        const existing = this.metrics.get(name);
+        if (existing) {
+            if (existing.type !== type) throw new TypeError(`The metric ${this.prefix + name} is already registered as a ${existing.type}`);
+            return existing as T;
+        }
+
+        const metric = create();
+        this.metrics.set(name, metric);
+        return metric;
+    }
+}
+// #endregion Registry
@@ -0,0 +1,3 @@
+export * from './listeners.js';
+export * from './MetricsRegistry.js';
+export * from './server.js';
@@ -0,0 +1,185 @@
+import { container, Events, type UserError } from '@peridotjs/framework';
+import type {} from '@peridotjs/plugin-tasks';
+
+/**
+ * The type of a handler, used as the `type` label of the handler metrics.
+ * @since 0.1.0
+ * @category Types
+ */
+export type HandlerMetricType =
+    'textCommand' | 'slashCommand' | 'autocomplete' | 'contextMenuCommand' | 'buttonComponent' | 'selectMenuComponent' | 'modalComponent';
+
+/**
+ * The outcome of a handler, used as the `outcome` label of the handler metrics.
+ * @since 0.1.0
+ * @category Types
+ */
+export type HandlerMetricOutcome = 'success' | 'error' | 'denied';
+
+/** The guild label of handlers invoked outside of a guild */
+const DirectMessageGuild = 'dm';
+
+/** The milliseconds in a second, as the framework measures durations in milliseconds */
+const MillisecondsPerSecond = 1_000;
+
+export const registerMetricsListeners = () => {
+    const { client, metrics } = container;
+
+    // #region Handlers
+    const handlerRuns = metrics.counter('handler_runs_total', 'The number of handler runs, by outcome', ['type', 'name', 'outcome', 'guild']);
+    const handlerDuration = metrics.histogram('handler_duration_seconds', 'The duration of handler runs, in seconds', [
+        'type',
+        'name',
+        'outcome',
+        'guild',
+    ]);
+    const handlerDenials = metrics.counter('handler_denials_total', 'The number of denied handlers, by precondition identifier', [
+        'type',
+        'name',
+        'identifier',
+    ]);
+
+    const onFinish = (type: HandlerMetricType, name: string, guildId: string | null, success: boolean) => {
+        handlerRuns.inc({ type, name, outcome: success ? 'success' : 'error', guild: guildId ?? DirectMessageGuild });
+    };
+
+    const onDuration = (
+        type: HandlerMetricType,
+        name: string,
+        guildId: string | null,
+        outcome: Exclude<HandlerMetricOutcome, 'denied'>,
+        duration: number,
+    ) => {
+        // Runs the framework couldn't time, such as failed autocompletes, report a negative duration
+        if (duration < 0) return;
+        handlerDuration.observe({ type, name, outcome, guild: guildId ?? DirectMessageGuild }, duration / MillisecondsPerSecond);
+    };
+
+    const onDenied = (type: HandlerMetricType, name: string, guildId: string | null, error: UserError) => {
+        handlerRuns.inc({ type, name, outcome: 'denied', guild: guildId ?? DirectMessageGuild });
+        handlerDenials.inc({ type, name, identifier: error.identifier });
+    };
+
+    // Runs are counted when they finish, as errors handled by `onError` emit neither the success nor the error event
+    client.on(Events.TextCommandFinish, (message, command, { success }) => onFinish('textCommand', command.data.name, message.guildId, success));
+    client.on(Events.TextCommandSuccess, ({ message, command, duration }) =>
+        onDuration('textCommand', command.data.name, message.guildId, 'success', duration),
+    );
+    client.on(Events.TextCommandError, (_, { message, command, duration }) =>
+        onDuration('textCommand', command.data.name, message.guildId, 'error', duration),
+    );
+    client.on(Events.TextCommandDenied, (error, { message, command }) => onDenied('textCommand', command.data.name, message.guildId, error));
+
+    client.on(Events.SlashCommandFinish, (interaction, command, { success }) =>
+        onFinish('slashCommand', command.data.name, interaction.guildId, success),
+    );
+    client.on(Events.SlashCommandSuccess, ({ interaction, command, duration }) =>
+        onDuration('slashCommand', command.data.name, interaction.guildId, 'success', duration),
+    );
+    client.on(Events.SlashCommandError, (_, { interaction, command, duration }) =>
+        onDuration('slashCommand', command.data.name, interaction.guildId, 'error', duration),
+    );
+    client.on(Events.SlashCommandDenied, (error, { interaction, command }) =>
+        onDenied('slashCommand', command.data.name, interaction.guildId, error),
+    );
+
+    // Autocompletes have no finish event, nor an `onError`
+    client.on(Events.AutocompleteInteractionSuccess, ({ interaction, command, duration }) => {
+        onFinish('autocomplete', command.data.name, interaction.guildId, true);
+        onDuration('autocomplete', command.data.name, interaction.guildId, 'success', duration);
+    });
+    client.on(Events.AutocompleteInteractionError, (_, { interaction, command, duration }) => {
+        onFinish('autocomplete', command.data.name, interaction.guildId, false);
+        onDuration('autocomplete', command.data.name, interaction.guildId, 'error', duration);
+    });
+
+    client.on(Events.ContextMenuCommandFinish, (interaction, command, { success }) =>
+        onFinish('contextMenuCommand', command.data.name, interaction.guildId, success),
+    );
+    client.on(Events.ContextMenuCommandSuccess, ({ interaction, command, duration }) =>
+        onDuration('contextMenuCommand', command.data.name, interaction.guildId, 'success', duration),
+    );
+    client.on(Events.ContextMenuCommandError, (_, { interaction, command, duration }) =>
+        onDuration('contextMenuCommand', command.data.name, interaction.guildId, 'error', duration),
+    );
+    client.on(Events.ContextMenuCommandDenied, (error, { interaction, command }) =>
+        onDenied('contextMenuCommand', command.data.name, interaction.guildId, error),
+    );
+
+    // Components are named by their custom ID matcher, as the custom IDs of interactions can contain parameters
+    client.on(Events.ButtonInteractionFinish, (interaction, component, { success }) =>
+        onFinish('buttonComponent', String(component.customId), interaction.guildId, success),
+    );
+    client.on(Events.ButtonInteractionSuccess, ({ interaction, component, duration }) =>
+        onDuration('buttonComponent', String(component.customId), interaction.guildId, 'success', duration),
+    );
+    client.on(Events.ButtonInteractionError, (_, { interaction, component, duration }) =>
+        onDuration('buttonComponent', String(component.customId), interaction.guildId, 'error', duration),
+    );
+    client.on(Events.ButtonInteractionDenied, (error, { interaction, component }) =>
+        onDenied('buttonComponent', String(component.customId), interaction.guildId, error),
+    );
+
+    client.on(Events.SelectMenuInteractionFinish, (interaction, component, { success }) =>
+        onFinish('selectMenuComponent', String(component.customId), interaction.guildId, success),
+    );
+    client.on(Events.SelectMenuInteractionSuccess, ({ interaction, component, duration }) =>
+        onDuration('selectMenuComponent', String(component.customId), interaction.guildId, 'success', duration),
+    );
+    client.on(Events.SelectMenuInteractionError, (_, { interaction, component, duration }) =>
+        onDuration('selectMenuComponent', String(component.customId), interaction.guildId, 'error', duration),
+    );
+    client.on(Events.SelectMenuInteractionDenied, (error, { interaction, component }) =>
+        onDenied('selectMenuComponent', String(component.customId), interaction.guildId, error),
+    );
+
+    client.on(Events.ModalSubmitInteractionFinish, (interaction, component, { success }) =>
+        onFinish('modalComponent', String(component.customId), interaction.guildId, success),
+    );
+    client.on(Events.ModalSubmitInteractionSuccess, ({ interaction, component, duration }) =>
+        onDuration('modalComponent', String(component.customId), interaction.guildId, 'success', duration),
+    );
+    client.on(Events.ModalSubmitInteractionError, (_, { interaction, component, duration }) =>
+        onDuration('modalComponent', String(component.customId), interaction.guildId, 'error', duration),
+    );
+    client.on(Events.ModalSubmitInteractionDenied, (error, { interaction, component }) =>
+        onDenied('modalComponent', String(component.customId), interaction.guildId, error),
+    );
+    // #endregion Handlers
+
+    // #region Gateway
+    metrics.gauge('gateway_ping_milliseconds', 'The average heartbeat ping of the gateway shards, in milliseconds', [], (gauge) =>
+        gauge.set({}, client.ws.ping),
+    );
+    // #endregion Gateway
+
+    // #region Tasks
+    // The tasks plugin is optional, without it these events are never emitted
+    // The event names are those of `TaskEvents`, which can't be imported without requiring the plugin
+    const jobs = metrics.counter('task_jobs_total', 'The number of finished task jobs, by outcome', ['queue', 'outcome']);
+    const jobDuration = metrics.histogram('task_job_duration_seconds', 'The processing duration of task jobs, in seconds', ['queue', 'outcome']);
+    const activeJobs = metrics.gauge('task_jobs_active', 'The number of task jobs being processed', ['queue']);
+    const stalledJobs = metrics.counter('task_jobs_stalled_total', 'The number of stalled task jobs', ['queue']);
+    const workerErrors = metrics.counter('task_worker_errors_total', 'The number of task worker errors', ['queue']);
+
+    const onJobFinished = (queue: string, job: { processedOn?: number; finishedOn?: number } | undefined, outcome: 'completed' | 'failed') => {
+        jobs.inc({ queue, outcome });
+        if (job?.processedOn !== undefined && job.finishedOn !== undefined) {
+            jobDuration.observe({ queue, outcome }, (job.finishedOn - job.processedOn) / MillisecondsPerSecond);
+        }
+    };
+
+    client.on('taskWorkerActive', (queue) => activeJobs.inc({ queue }));
+    client.on('taskWorkerCompleted', (queue, job) => {
+        activeJobs.inc({ queue }, -1);
+        onJobFinished(queue, job, 'completed');
+    });
+    client.on('taskWorkerFailed', (queue, job) => {
+        // Jobs that failed before becoming active, such as missing locks, have no job
+        if (job) activeJobs.inc({ queue }, -1);
+        onJobFinished(queue, job, 'failed');
+    });
+    client.on('taskWorkerStalled', (queue) => stalledJobs.inc({ queue }));
+    client.on('taskWorkerError', (queue) => workerErrors.inc({ queue }));
+    // #endregion Tasks
+};
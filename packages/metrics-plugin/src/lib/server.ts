@@ -0,0 +1,75 @@
+import { createServer, type Server } from 'node:http';
+
+import type { MetricsRegistry } from './MetricsRegistry.js';
+
+/**
+ * The content type of the Prometheus text format.
+ * @since 0.1.0
+ * @category Constants
+ */
+export const PrometheusContentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Options for the metrics server.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface MetricsServerOptions {
+    /**
+     * The host the server listens on, local only by default.
+     * @default '127.0.0.1'
+     */
+    host?: string;
+    /**
+     * The port the server listens on.
+     * @default 9464
+     */
+    port?: number;
+    /**
+     * The path the metrics are served on.
+     * @default '/metrics'
+     */
+    path?: string;
+}
+
+/**
+ * Starts an HTTP server serving the metrics of a registry in the Prometheus text format.
+ * Requests to any other path are answered with a 404.
+ * @since 0.1.0
+ * @category Functions
+ * @param registry - The registry to serve
+ * @param options - The options of the server
+ * @returns The listening server
+ */
+export const startMetricsServer = async (
+    registry: MetricsRegistry,
+    { host = '127.0.0.1', port = 9464, path = '/metrics' }: MetricsServerOptions = {},
+): Promise<Server> => {
+    const server = createServer((request, response) => {
+        const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+
+        if (pathname !== path) {
+            response.writeHead(404).end();
+            return;
+        }
+
+        if (request.method !== 'GET' && request.method !== 'HEAD') {
+            response.writeHead(405, { Allow: 'GET, HEAD' }).end();
+            return;
+        }
+
+        const body = registry.render();
+        response.writeHead(200, { 'Content-Type': PrometheusContentType, 'Content-Length': Buffer.byteLength(body) });
+        response.end(request.method === 'HEAD' ? undefined : body);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+            server.off('error', reject);
+            resolve();
+        });
+    });
+
+    return server;
+};
@@ -0,0 +1,30 @@
+import './index.js';
+
+import { container, PeridotClient, Plugin, postLogin, preGenericsInitialization } from '@peridotjs/framework';
+import type { ClientOptions } from 'discord.js';
+
+import { registerMetricsListeners } from './lib/listeners.js';
+import { MetricsRegistry } from './lib/MetricsRegistry.js';
+import { startMetricsServer } from './lib/server.js';
+
+export class MetricsPlugin extends Plugin {
+    public static override [preGenericsInitialization](this: PeridotClient, options: ClientOptions): void {
+        container.metrics = new MetricsRegistry(options.metrics);
+        container.metricsServer = null;
+
+        registerMetricsListeners();
+    }
+
+    public static override async [postLogin](this: PeridotClient, options: ClientOptions): Promise<void> {
+        if (options.metrics?.server === false) return;
+
+        try {
+            container.metricsServer = await startMetricsServer(container.metrics, options.metrics);
+        } catch (error) {
+            container.logger.error({ err: error }, 'Failed to start the metrics server');
+        }
+    }
+}
+
+PeridotClient.plugins.registerPostInitializationHook(MetricsPlugin[preGenericsInitialization], 'Metrics-PreGenericsInitialization');
+PeridotClient.plugins.registerPostLoginHook(MetricsPlugin[postLogin], 'Metrics-PostLogin');
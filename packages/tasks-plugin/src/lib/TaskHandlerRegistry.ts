@@ -6,6 +6,16 @@ import { TaskEvents } from './types/Events.js';
 import type { QueueName, Queues } from './types/Queue.js';
 import type { TaskWorker } from './types/TaskWorker.js';
 
+/**
+ * The key of the job data the invocation ID is stored under, by {@link TaskHandlerRegistry.create}.
+ */
+export const InvocationIdDataKey = '__peridotInvocationId';
+
+/**
+ * The job data added by {@link TaskHandlerRegistry.create}, removed from `job.data` before the job reaches its worker.
+ */
+export type InvocationIdData = { [InvocationIdDataKey]?: string };
+
 // @ts-expect-error When no queues are defined, the queue keys will be inferred as never which breaks the types
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export class TaskHandlerRegistry implements HandlerRegistry<TaskWorker<any>> {
@@ -86,20 +96,24 @@ export class TaskHandlerRegistry implements HandlerRegistry<TaskWorker<any>> {
         return Promise.all([...this.executors.values()].map((executor) => this._unregister(executor as unknown as TaskWorker<any>))).then(() => this);
     }
 
-    private async run(job: Job) {
+    private async run(job: Job, _token?: string, signal?: AbortSignal) {
         const executor = this.executors.get(job.queueName);
 
         if (!executor) {
             throw new Error(`No executor found for queue ${job.queueName}`);
         }
 
+        const invocationId = this.takeInvocationId(job);
         const context = {
             logger: container.logger.child({
                 type: 'task',
                 queue: executor.queue,
                 jobName: job.name,
                 jobId: job.id,
+                ...(invocationId === null ? {} : { invocation: invocationId }),
             }),
+            signal: signal ?? new AbortController().signal,
+            invocationId,
         };
 
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -109,14 +123,14 @@ export class TaskHandlerRegistry implements HandlerRegistry<TaskWorker<any>> {
     public getQueue<QueueT extends QueueName>(
         queueName: QueueT,
         options?: Omit<QueueOptions, 'connection'>,
-    ): Queue<Queues[QueueT]['_payload'], Queues[QueueT]['_response'], Queues[QueueT]['_jobName']> {
+    ): Queue<Queues[QueueT]['_payload'] & InvocationIdData, Queues[QueueT]['_response'], Queues[QueueT]['_jobName']> {
         let queue = this.queues.get(queueName);
 
         if (!queue) {
             queue = this.createQueue(queueName, options);
             this.queues.set(queueName, queue);
         }
-        return queue as Queue<Queues[QueueT]['_payload'], Queues[QueueT]['_response'], Queues[QueueT]['_jobName']>;
+        return queue as Queue<Queues[QueueT]['_payload'] & InvocationIdData, Queues[QueueT]['_response'], Queues[QueueT]['_jobName']>;
     }
 
     public getWorker(queueName: QueueName): Worker | undefined {
@@ -145,7 +159,32 @@ export class TaskHandlerRegistry implements HandlerRegistry<TaskWorker<any>> {
         options?: JobsOptions,
     ) {
         const queue = this.getQueue(queueName);
-        return queue.add(jobName, data, options);
+        return queue.add(jobName, this.withInvocationId(data), options);
+    }
+
+    /**
+     * Adds the ID of the current handler invocation to object job data, so the job correlates with the handler that created it
+     * @param data The data of the job
+     */
+    private withInvocationId<T>(data: T): T & InvocationIdData {
+        const scope = container.scope;
+        if (!scope || typeof data !== 'object' || data === null || Array.isArray(data)) return data as T & InvocationIdData;
+
+        return { ...data, [InvocationIdDataKey]: scope.id };
+    }
+
+    /**
+     * Gets the ID of the handler invocation that created a job, and removes it from the job data so the worker receives its payload as created
+     * @param job The job
+     */
+    private takeInvocationId(job: Job): string | null {
+        const data: unknown = job.data;
+        if (typeof data !== 'object' || data === null || !(InvocationIdDataKey in data)) return null;
+
+        const { [InvocationIdDataKey]: invocationId, ...payload } = data as InvocationIdData;
+        job.data = payload;
+
+        return typeof invocationId === 'string' ? invocationId : null;
     }
 
     /**
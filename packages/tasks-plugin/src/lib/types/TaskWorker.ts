@@ -3,7 +3,13 @@ import type { Job, JobsOptions, RepeatOptions, WorkerOptions } from 'bullmq';
 
 import type { QueueEntry, QueueName, Queues } from './Queue.js';
 
-export type TaskWorkerContext = CommonContext;
+export type TaskWorkerContext = CommonContext & {
+    /**
+     * The ID of the handler invocation that created the job, `null` if it was created outside of a handler invocation.
+     * The job logger carries it as `invocation`.
+     */
+    invocationId: string | null;
+};
 
 export type TaskWorker<
     Queue extends QueueName,
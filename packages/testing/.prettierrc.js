@@ -0,0 +1,6 @@
+import prettierBase from '@peridotjs/base/prettier.js';
+
+export default {
+    ...prettierBase,
+    // Add your overrides here
+};
@@ -0,0 +1,476 @@
+import {
+    type APIMessage,
+    type APIUser,
+    type Client,
+    InteractionResponseType,
+    type Message,
+    MessageFlags,
+    type Snowflake,
+    type TextBasedChannel,
+} from 'discord.js';
+
+import { createRawMessage, createSnowflake, type RawMessageContent, toRawMember, toRawUser } from './payloads.js';
+
+// #region Types
+/**
+ * A request made to the Discord API.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface RecordedRequest {
+    /** The HTTP method, such as `POST` */
+    method: string;
+    /** The route, without the API prefix, such as `/channels/123/messages` */
+    path: string;
+    /** The JSON body, or the `payload_json` of requests with files */
+    body: Record<string, unknown> | null;
+}
+
+/**
+ * The kinds of responses recorded by the harness.
+ * - `reply`: An interaction reply, or a message reply to a message
+ * - `deferReply`: A deferred interaction reply
+ * - `deferUpdate`: A deferred update of the message of a component
+ * - `update`: An update of the message of a component
+ * - `showModal`: A modal shown in response to an interaction
+ * - `autocomplete`: The choices of an autocomplete interaction
+ * - `followUp`: A follow-up message of an interaction
+ * - `editReply`: An edit of an interaction reply or follow-up
+ * - `deleteReply`: A deletion of an interaction reply or follow-up
+ * - `send`: A message sent to a channel
+ * - `edit`: An edit of a message
+ * - `delete`: A deletion of a message
+ * - `react`: A reaction added to a message
+ * - `typing`: A typing indicator
+ * @since 0.1.0
+ * @category Types
+ */
+export type RecordedResponseType =
+    | 'reply'
+    | 'deferReply'
+    | 'deferUpdate'
+    | 'update'
+    | 'showModal'
+    | 'autocomplete'
+    | 'followUp'
+    | 'editReply'
+    | 'deleteReply'
+    | 'send'
+    | 'edit'
+    | 'delete'
+    | 'react'
+    | 'typing';
+
+/**
+ * A response of the bot, to an interaction or in a channel.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface RecordedResponse {
+    /** The kind of response */
+    type: RecordedResponseType;
+    /** The ID of the interaction responded to, `null` for responses to messages */
+    interactionId: Snowflake | null;
+    /** The ID of the channel the response was sent in */
+    channelId: Snowflake;
+    /** The message sent or edited by the response, `null` for responses without a message, such as modals */
+    message: Message | null;
+    /** Whether the response is only visible to the user that invoked the interaction */
+    ephemeral: boolean;
+    /** The data of the response, such as the content of a reply, the modal or the autocomplete choices */
+    data: Record<string, unknown>;
+}
+
+/**
+ * An interaction created by the harness, tracked to route its responses.
+ */
+export interface TrackedInteraction {
+    id: Snowflake;
+    token: string;
+    type: number;
+    user: APIUser;
+    channelId: Snowflake;
+    guildId: Snowflake | null;
+    /** The message of a component interaction */
+    messageId: Snowflake | null;
+    /** The reply of the interaction */
+    originalId: Snowflake | null;
+}
+// #endregion Types
+
+// #region Routes
+type RouteHandler = (match: RegExpExecArray, request: RecordedRequest, query: URLSearchParams) => unknown;
+
+/**
+ * Returned by route handlers to respond with a `204 No Content`.
+ */
+const NoContent = Symbol('NoContent');
+
+/**
+ * Thrown by route handlers to respond with a `404 Not Found`.
+ */
+class NotFound extends Error {}
+
+const json = (status: number, body: unknown) => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+// #endregion Routes
+
+/**
+ * Fakes the parts of the Discord API used by handlers, recording every request and response of the bot.
+ * Messages sent by the bot are created from the request bodies, and members, users and messages are fetched from the cache of the client.
+ * Requests to other routes fail with a `404 Not Found`.
+ * @since 0.1.0
+ * @category Classes
+ */
+export class FakeRest {
+    /** Every request made to the API */
+    public readonly requests: RecordedRequest[] = [];
+    /** The responses of the bot */
+    public readonly responses: RecordedResponse[] = [];
+    /** The number of requests being handled */
+    public pending = 0;
+
+    private readonly messages = new Map<Snowflake, APIMessage>();
+    private readonly interactions = new Map<string, TrackedInteraction>();
+
+    private readonly routes: [method: string, pattern: RegExp, handler: RouteHandler][] = [
+        ['POST', /^\/interactions\/(\d+)\/([^/]+)\/callback$/, (match, request, query) => this.callback(match, request, query)],
+        ['POST', /^\/webhooks\/\d+\/([^/]+)$/, (match, request) => this.followUp(match, request)],
+        ['GET', /^\/webhooks\/\d+\/([^/]+)\/messages\/([^/]+)$/, (match) => this.getMessage(this.resolveWebhookMessage(match))],
+        ['PATCH', /^\/webhooks\/\d+\/([^/]+)\/messages\/([^/]+)$/, (match, request) => this.editReply(match, request)],
+        ['DELETE', /^\/webhooks\/\d+\/([^/]+)\/messages\/([^/]+)$/, (match, request) => this.deleteReply(match, request)],
+        ['POST', /^\/channels\/(\d+)\/messages$/, (match, request) => this.send(match, request)],
+        ['GET', /^\/channels\/\d+\/messages\/(\d+)$/, (match) => this.getMessage(match[1]!)],
+        ['PATCH', /^\/channels\/(\d+)\/messages\/(\d+)$/, (match, request) => this.edit(match, request)],
+        ['DELETE', /^\/channels\/(\d+)\/messages\/(\d+)$/, (match, request) => this.delete(match, request)],
+        ['PUT', /^\/channels\/(\d+)\/messages\/(\d+)\/reactions\/([^/]+)\/@me$/, (match) => this.react(match)],
+        ['POST', /^\/channels\/(\d+)\/typing$/, (match) => this.typing(match)],
+        ['GET', /^\/guilds\/(\d+)\/members\/(\d+)$/, (match) => this.getMember(match[1]!, match[2]!)],
+        ['GET', /^\/users\/(\d+)$/, (match) => this.getUser(match[1]!)],
+    ];
+
+    /**
+     * @param client - The client the responses are created for
+     */
+    public constructor(private readonly client: Client) {}
+
+    /**
+     * Handles a request of the REST manager of the client, passed as its `makeRequest` option.
+     */
+    public readonly makeRequest = async (url: string, init: { method?: string; body?: unknown }): Promise<Response> => {
+        const { pathname, searchParams } = new URL(url);
+        const request: RecordedRequest = {
+            method: init.method ?? 'GET',
+            path: decodeURIComponent(pathname.replace(/^\/api\/v\d+/, '')),
+            body: parseBody(init.body),
+        };
+
+        this.requests.push(request);
+        this.pending++;
+
+        try {
+            for (const [method, pattern, handler] of this.routes) {
+                const match = method === request.method ? pattern.exec(request.path) : null;
+                if (!match) continue;
+
+                const body = await handler(match, request, searchParams);
+                return body === NoContent ? new Response(null, { status: 204 }) : json(200, body);
+            }
+
+            return json(404, { message: `No fake route for ${request.method} ${request.path}`, code: 0 });
+        } catch (error) {
+            if (error instanceof NotFound) return json(404, { message: error.message, code: 10_008 });
+            throw error;
+        } finally {
+            this.pending--;
+        }
+    };
+
+    // #region Tracking
+    /**
+     * Tracks a message sent by a user or the bot, so it can be fetched and referenced by interactions.
+     * @returns The message, added to the cache of its channel
+     */
+    public _trackMessage(data: APIMessage): Message {
+        this.messages.set(data.id, data);
+        return this.addMessage(data);
+    }
+
+    /**
+     * Gets the data of a tracked message.
+     */
+    public _getRawMessage(id: Snowflake): APIMessage | null {
+        return this.messages.get(id) ?? null;
+    }
+
+    /**
+     * Tracks an interaction, so its responses can be routed.
+     */
+    public _trackInteraction(interaction: TrackedInteraction) {
+        this.interactions.set(interaction.id, interaction);
+        this.interactions.set(interaction.token, interaction);
+    }
+    // #endregion Tracking
+
+    // #region Interaction responses
+    private callback(match: RegExpExecArray, request: RecordedRequest, query: URLSearchParams) {
+        const interaction = this.getInteraction(match[1]!);
+        const { type, data = {} } = request.body as { type: InteractionResponseType; data?: RawMessageContent & Record<string, unknown> };
+
+        let responseType: RecordedResponseType;
+        let message: APIMessage | null = null;
+
+        switch (type) {
+            case InteractionResponseType.ChannelMessageWithSource:
+                responseType = 'reply';
+                message = this.createReply(interaction, data);
+                interaction.originalId = message.id;
+                break;
+            case InteractionResponseType.DeferredChannelMessageWithSource:
+                responseType = 'deferReply';
+                message = this.createReply(interaction, { flags: (data.flags ?? 0) | MessageFlags.Loading });
+                interaction.originalId = message.id;
+                break;
+            case InteractionResponseType.DeferredMessageUpdate:
+                responseType = 'deferUpdate';
+                message = this.messages.get(interaction.messageId!) ?? null;
+                interaction.originalId = interaction.messageId;
+                break;
+            case InteractionResponseType.UpdateMessage:
+                responseType = 'update';
+                message = this.updateMessage(interaction.messageId!, data);
+                interaction.originalId = interaction.messageId;
+                break;
+            case InteractionResponseType.Modal:
+                responseType = 'showModal';
+                break;
+            case InteractionResponseType.ApplicationCommandAutocompleteResult:
+                responseType = 'autocomplete';
+                break;
+            default:
+                throw new Error(`Unsupported interaction response type: ${type}`);
+        }
+
+        this.record(responseType, interaction, message, data);
+
+        if (query.get('with_response') !== 'true') return NoContent;
+        return {
+            interaction: {
+                id: interaction.id,
+                type: interaction.type,
+                response_message_id: message?.id,
+                response_message_loading: type === InteractionResponseType.DeferredChannelMessageWithSource,
+                response_message_ephemeral: isEphemeral(message?.flags),
+            },
+            resource: { type, message: message ?? undefined },
+        };
+    }
+
+    private followUp(match: RegExpExecArray, request: RecordedRequest) {
+        const interaction = this.getInteraction(match[1]!);
+        const data = (request.body ?? {}) as RawMessageContent;
+        const message = this.createReply(interaction, data);
+
+        this.record('followUp', interaction, message, data);
+        return message;
+    }
+
+    private editReply(match: RegExpExecArray, request: RecordedRequest) {
+        const interaction = this.getInteraction(match[1]!);
+        const data = (request.body ?? {}) as RawMessageContent;
+
+        const id = this.resolveWebhookMessage(match);
+        const existing = this.messages.get(id);
+        // Editing a deferred reply clears its loading state
+        if (existing) existing.flags = (existing.flags ?? 0) & ~MessageFlags.Loading;
+
+        const message = this.updateMessage(id, data);
+        this.record('editReply', interaction, message, data);
+        return message;
+    }
+
+    private deleteReply(match: RegExpExecArray, request: RecordedRequest) {
+        const interaction = this.getInteraction(match[1]!);
+        const message = this.getMessage(this.resolveWebhookMessage(match));
+
+        this.messages.delete(message.id);
+        this.record('deleteReply', interaction, message, request.body ?? {});
+        return NoContent;
+    }
+
+    private createReply(interaction: TrackedInteraction, data: RawMessageContent) {
+        const message = createRawMessage({ id: interaction.channelId, guildId: interaction.guildId }, this.botUser, {
+            ...pickContent(data),
+            interaction_metadata: {
+                id: interaction.id,
+                type: interaction.type,
+                user: interaction.user,
+                authorizing_integration_owners: {},
+            },
+            webhook_id: this.client.application!.id,
+            application_id: this.client.application!.id,
+        } as RawMessageContent);
+
+        this.messages.set(message.id, message);
+        return message;
+    }
+
+    private getInteraction(idOrToken: string) {
+        const interaction = this.interactions.get(idOrToken);
+        if (!interaction) throw new NotFound('Unknown interaction');
+
+        return interaction;
+    }
+
+    private resolveWebhookMessage(match: RegExpExecArray): Snowflake {
+        if (match[2] !== '@original') return match[2]!;
+
+        const { originalId } = this.getInteraction(match[1]!);
+        if (!originalId) throw new NotFound('Unknown message');
+
+        return originalId;
+    }
+    // #endregion Interaction responses
+
+    // #region Channel messages
+    private send(match: RegExpExecArray, request: RecordedRequest) {
+        const channel = this.getChannel(match[1]!);
+        const data = (request.body ?? {}) as RawMessageContent;
+        const message = createRawMessage({ id: channel.id, guildId: 'guildId' in channel ? channel.guildId : null }, this.botUser, pickContent(data));
+
+        this.messages.set(message.id, message);
+        this.record(data.message_reference ? 'reply' : 'send', channel.id, message, data);
+        return message;
+    }
+
+    private edit(match: RegExpExecArray, request: RecordedRequest) {
+        const data = (request.body ?? {}) as RawMessageContent;
+        const message = this.updateMessage(match[2]!, data);
+
+        this.record('edit', match[1]!, message, data);
+        return message;
+    }
+
+    private delete(match: RegExpExecArray, request: RecordedRequest) {
+        const message = this.getMessage(match[2]!);
+
+        this.messages.delete(message.id);
+        this.record('delete', match[1]!, message, request.body ?? {});
+        return NoContent;
+    }
+
+    private react(match: RegExpExecArray) {
+        const message = this.getMessage(match[2]!);
+
+        this.record('react', match[1]!, message, { emoji: match[3]! });
+        return NoContent;
+    }
+
+    private typing(match: RegExpExecArray) {
+        this.record('typing', this.getChannel(match[1]!).id, null, {});
+        return NoContent;
+    }
+
+    private updateMessage(id: Snowflake, data: RawMessageContent) {
+        const message = this.getMessage(id);
+        Object.assign(message, pickContent(data), { edited_timestamp: new Date().toISOString() });
+
+        return message;
+    }
+    // #endregion Channel messages
+
+    // #region Fetching
+    private getMessage(id: Snowflake) {
+        const message = this.messages.get(id);
+        if (!message) throw new NotFound('Unknown message');
+
+        return message;
+    }
+
+    private getMember(guildId: Snowflake, userId: Snowflake) {
+        const member = this.client.guilds.cache.get(guildId)?.members.cache.get(userId);
+        if (!member) throw new NotFound('Unknown member');
+
+        return toRawMember(member);
+    }
+
+    private getUser(id: Snowflake) {
+        const user = this.client.users.cache.get(id);
+        if (!user) throw new NotFound('Unknown user');
+
+        return toRawUser(user);
+    }
+
+    private getChannel(id: Snowflake) {
+        const channel = this.client.channels.cache.get(id);
+        if (!channel?.isTextBased()) throw new NotFound('Unknown channel');
+
+        return channel;
+    }
+
+    private get botUser() {
+        return toRawUser(this.client.user!);
+    }
+    // #endregion Fetching
+
+    /**
+     * Records a response, adding its message to the cache of its channel.
+     * @param target - The interaction responded to, or the ID of the channel
+     */
+    private record(type: RecordedResponseType, target: TrackedInteraction | Snowflake, message: APIMessage | null, data: Record<string, unknown>) {
+        const interaction = typeof target === 'string' ? null : target;
+
+        this.responses.push({
+            type,
+            interactionId: interaction?.id ?? null,
+            channelId: interaction?.channelId ?? (target as Snowflake),
+            message: message && type !== 'delete' && type !== 'deleteReply' ? this.addMessage(message) : null,
+            ephemeral: isEphemeral(message?.flags ?? (data.flags as number | undefined)),
+            data,
+        });
+    }
+
+    private addMessage(data: APIMessage): Message {
+        const channel = this.client.channels.cache.get(data.channel_id) as TextBasedChannel | undefined;
+        if (!channel) throw new Error(`The channel '${data.channel_id}' of the message isn't cached.`);
+
+        // Adding a cached message patches it with the new data
+        return (channel.messages as unknown as { _add(data: APIMessage): Message })._add(structuredClone(data));
+    }
+}
+
+/**
+ * Picks the content of a message from a request body.
+ */
+const pickContent = (data: RawMessageContent): RawMessageContent => {
+    const content: Record<string, unknown> = {};
+    for (const key of ['content', 'embeds', 'components', 'flags', 'message_reference', 'interaction_metadata', 'webhook_id', 'application_id']) {
+        if (key in data) content[key] = (data as Record<string, unknown>)[key];
+    }
+
+    if ('attachments' in data) {
+        content.attachments = (data.attachments ?? []).map(({ filename }) => ({
+            id: createSnowflake(),
+            filename,
+            size: 0,
+            url: `https://cdn.discordapp.com/attachments/${filename}`,
+            proxy_url: `https://media.discordapp.net/attachments/${filename}`,
+        }));
+    }
+
+    return content as RawMessageContent;
+};
+
+const isEphemeral = (flags: number | undefined) => ((flags ?? 0) & MessageFlags.Ephemeral) !== 0;
+
+/**
+ * Parses the body of a request, a JSON string or form data with a `payload_json` part when sending files.
+ */
+const parseBody = (body: unknown): Record<string, unknown> | null => {
+    if (typeof body === 'string') return JSON.parse(body) as Record<string, unknown>;
+    if (body instanceof FormData) {
+        const payload = body.get('payload_json');
+        return typeof payload === 'string' ? (JSON.parse(payload) as Record<string, unknown>) : {};
+    }
+
+    return null;
+};
@@ -0,0 +1,751 @@
+import { randomBytes } from 'node:crypto';
+
+import { container, Events, type HandlerExport, type HandlerExportSymbol, PeridotClient, registerDefaultEventLoggers } from '@peridotjs/framework';
+import {
+    type AnySelectMenuInteraction,
+    type APIMessage,
+    ApplicationCommandType,
+    AutocompleteInteraction,
+    ButtonInteraction,
+    ChannelSelectMenuInteraction,
+    ChannelType,
+    ChatInputCommandInteraction,
+    ClientApplication,
+    type ClientEvents,
+    type ClientOptions,
+    ClientUser,
+    ComponentType,
+    type DMChannel,
+    GatewayIntentBits,
+    type Guild,
+    type GuildBasedChannel,
+    type GuildMember,
+    type Interaction,
+    InteractionType,
+    MentionableSelectMenuInteraction,
+    type Message,
+    MessageContextMenuCommandInteraction,
+    ModalSubmitInteraction,
+    type OmitPartialGroupDMChannel,
+    PermissionsBitField,
+    type Role,
+    RoleSelectMenuInteraction,
+    Status,
+    StringSelectMenuInteraction,
+    type TextBasedChannel,
+    type TextChannel,
+    type User,
+    UserContextMenuCommandInteraction,
+    UserSelectMenuInteraction,
+} from 'discord.js';
+import { pino } from 'pino';
+
+import { FakeRest, type RecordedRequest, type RecordedResponse, type RecordedResponseType } from './FakeRest.js';
+import { _buildCommandOptions, _buildSelectMenuValues, type CommandOptions, type SelectMenuValue } from './options.js';
+import {
+    createRawMessage,
+    createRawRole,
+    createRawTextChannel,
+    createRawUser,
+    createSnowflake,
+    toRawInteractionMember,
+    toRawMember,
+    toRawUser,
+    type UserOptions,
+} from './payloads.js';
+
+// #region Types
+/**
+ * Options for {@link TestHarness}, the options of the client with defaults for testing.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface TestHarnessOptions extends Partial<ClientOptions> {
+    /**
+     * Whether to register the default event loggers, which reply to the denials and errors of handlers.
+     * @default true
+     */
+    defaultEventLoggers?: boolean;
+    /**
+     * The time in milliseconds to wait for the handlers of a dispatch to settle.
+     * @default 5_000
+     */
+    settleTimeout?: number;
+}
+
+/**
+ * An event emitted by the client.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface RecordedEvent {
+    /** The name of the event */
+    name: string | symbol;
+    /** The arguments of the event */
+    args: unknown[];
+}
+
+/**
+ * Options shared by the factories of interactions.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface InteractionOptions {
+    /**
+     * The user invoking the interaction, a member of the guild of the channel for guild channels.
+     * @default harness.member
+     */
+    user?: User | GuildMember;
+    /**
+     * The channel the interaction is invoked in.
+     * @default harness.channel, or the channel of the message for component interactions
+     */
+    channel?: TextChannel | DMChannel;
+}
+
+/**
+ * Options for {@link TestHarness.createGuild}.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface GuildOptions {
+    /** @default 'Test Guild' */
+    name?: string;
+    /**
+     * The owner of the guild, added as a member.
+     * @default A new user
+     */
+    owner?: User;
+    /**
+     * The permissions of the `@everyone` role.
+     * @default PermissionsBitField.Default
+     */
+    permissions?: bigint;
+}
+
+/**
+ * Options for {@link TestHarness.createMember}.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface MemberOptions extends UserOptions {
+    /** @default harness.guild */
+    guild?: Guild;
+    /** The roles of the member, in addition to `@everyone` */
+    roles?: Role[];
+    /** @default null */
+    nickname?: string | null;
+}
+
+/**
+ * Options for {@link TestHarness.createMessage}.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface MessageOptions {
+    /** @default '' */
+    content?: string;
+    /**
+     * The author of the message, a member of the guild of the channel for guild channels.
+     * @default harness.member
+     */
+    author?: User | GuildMember;
+    /** @default harness.channel */
+    channel?: TextChannel | DMChannel;
+}
+
+/**
+ * Options for {@link TestHarness.createChatInputInteraction}.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface ChatInputInteractionOptions extends InteractionOptions, CommandOptions {
+    /** The name of the command */
+    commandName: string;
+}
+
+/**
+ * Options for {@link TestHarness.createAutocompleteInteraction}.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface AutocompleteInteractionOptions extends ChatInputInteractionOptions {
+    /** The name of the focused option, which must have a value in `options` */
+    focused: string;
+}
+
+/**
+ * Options for {@link TestHarness.createContextMenuInteraction}.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface ContextMenuInteractionOptions extends InteractionOptions {
+    /** The name of the command */
+    commandName: string;
+    /** The target of the command, a message created by the harness for message commands */
+    target: User | GuildMember | Message;
+}
+
+/**
+ * Options shared by the factories of component interactions.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface ComponentInteractionOptions extends InteractionOptions {
+    /** The custom ID of the component */
+    customId: string;
+    /**
+     * The message with the component, created by the harness or sent by the bot.
+     * @default A new message sent by the bot
+     */
+    message?: Message;
+}
+
+/**
+ * Options for {@link TestHarness.createSelectMenuInteraction}.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface SelectMenuInteractionOptions extends ComponentInteractionOptions {
+    /** The selected values, users, members, roles or channels for the corresponding select menus */
+    values: SelectMenuValue[];
+    /** @default ComponentType.StringSelect */
+    componentType?:
+        | ComponentType.StringSelect
+        | ComponentType.UserSelect
+        | ComponentType.RoleSelect
+        | ComponentType.MentionableSelect
+        | ComponentType.ChannelSelect;
+}
+
+/**
+ * Options for {@link TestHarness.createModalSubmitInteraction}.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface ModalSubmitInteractionOptions extends InteractionOptions {
+    /** The custom ID of the modal */
+    customId: string;
+    /** The values of the text inputs, keyed by custom ID */
+    fields: Record<string, string>;
+    /** The message with the component the modal was shown from, if any */
+    message?: Message;
+}
+// #endregion Types
+
+/**
+ * Adds raw data to a cache of the client, like the gateway does.
+ */
+const add = <T>(manager: unknown, data: unknown, ...extras: unknown[]): T => (manager as { _add(...args: unknown[]): T })._add(data, ...extras);
+
+/**
+ * A class of interactions, whose constructor isn't public.
+ */
+type InteractionClass<T> = { prototype: T };
+
+/**
+ * The number of consecutive idle turns of the event loop after which the handlers are considered settled.
+ */
+const SettledTurns = 3;
+
+const SelectMenuInteractions = {
+    [ComponentType.StringSelect]: StringSelectMenuInteraction,
+    [ComponentType.UserSelect]: UserSelectMenuInteraction,
+    [ComponentType.RoleSelect]: RoleSelectMenuInteraction,
+    [ComponentType.MentionableSelect]: MentionableSelectMenuInteraction,
+    [ComponentType.ChannelSelect]: ChannelSelectMenuInteraction,
+};
+
+// #region Results
+/**
+ * The events and responses of a dispatched message or interaction.
+ * @since 0.1.0
+ * @category Classes
+ */
+export class DispatchResult {
+    /**
+     * @param events - The events emitted while the handlers ran, in order
+     * @param responses - The responses of the bot, in order
+     */
+    public constructor(
+        public readonly events: readonly RecordedEvent[],
+        public readonly responses: readonly RecordedResponse[],
+    ) {}
+
+    /**
+     * Gets the arguments of the first emission of an event.
+     * @param event - The event, such as `Events.TextCommandDenied`
+     * @returns The arguments, or `null` if the event wasn't emitted
+     */
+    public emitted<Event extends keyof ClientEvents>(event: Event): ClientEvents[Event] | null {
+        const recorded = this.events.find(({ name }) => name === event);
+        return recorded ? (recorded.args as ClientEvents[Event]) : null;
+    }
+
+    /**
+     * Gets the first response of a type.
+     * @param type - The type of response, such as `reply`
+     * @returns The response, or `null` if the bot didn't respond this way
+     */
+    public response(type: RecordedResponseType): RecordedResponse | null {
+        return this.responses.find((response) => response.type === type) ?? null;
+    }
+}
+// #endregion Results
+
+/**
+ * Boots a {@link PeridotClient} without logging in, to drive the event chains of the framework with fake messages and interactions.
+ * The Discord API is faked, recording every reply, defer and follow-up of the bot, and every event emitted by the client.
+ *
+ * The harness creates a guild with a text channel and a member, used by default by the factories.
+ * Only one harness can exist at a time, as the client is global: call {@link TestHarness.destroy} once done.
+ * @since 0.1.0
+ * @category Classes
+ */
+export class TestHarness {
+    /** The client, ready but not logged in */
+    public readonly client: PeridotClient<true>;
+    /** The fake Discord API */
+    public readonly rest: FakeRest;
+    /** Every event emitted by the client */
+    public readonly events: RecordedEvent[] = [];
+
+    /** The default guild */
+    public readonly guild: Guild;
+    /** The default channel, a text channel of the default guild */
+    public readonly channel: TextChannel;
+    /** The default member of the default guild, invoking the handlers */
+    public readonly member: GuildMember;
+
+    private readonly settleTimeout: number;
+
+    public constructor({ defaultEventLoggers = true, settleTimeout = 5_000, ...options }: TestHarnessOptions = {}) {
+        this.settleTimeout = settleTimeout;
+
+        let rest: FakeRest | null = null;
+        this.client = new PeridotClient({
+            intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildMessages, GatewayIntentBits.DirectMessages, GatewayIntentBits.MessageContent],
+            logger: pino({ level: 'silent' }),
+            i18n: undefined,
+            ...options,
+            rest: {
+                ...options.rest,
+                makeRequest: (url, init) => rest!.makeRequest(url, init),
+                hashSweepInterval: 0,
+                handlerSweepInterval: 0,
+            },
+        }) as PeridotClient<true>;
+        this.rest = rest = new FakeRest(this.client);
+
+        const emit = this.client.emit.bind(this.client);
+        this.client.emit = ((event: string | symbol, ...args: unknown[]) => {
+            this.events.push({ name: event, args });
+            return emit(event, ...args);
+        }) as typeof this.client.emit;
+
+        this.boot();
+        if (defaultEventLoggers) registerDefaultEventLoggers();
+        this.client.emit(Events.ClientReady, this.client);
+
+        this.guild = this.createGuild();
+        this.channel = this.guild.channels.cache.find((channel): channel is TextChannel => channel.type === ChannelType.GuildText)!;
+        this.member = this.createMember();
+    }
+
+    /** The user of the default member */
+    public get user(): User {
+        return this.member.user;
+    }
+
+    /** Every request made to the Discord API */
+    public get requests(): readonly RecordedRequest[] {
+        return this.rest.requests;
+    }
+
+    /** Every response of the bot */
+    public get responses(): readonly RecordedResponse[] {
+        return this.rest.responses;
+    }
+
+    // #region Lifecycle
+    /**
+     * Registers handlers in their registries.
+     * @param handlers - The handlers, keyed by registry like a handler export
+     */
+    public async register(handlers: Omit<HandlerExport, typeof HandlerExportSymbol>): Promise<this> {
+        for (const [name, registry] of container.handlers.registries) {
+            for (const handler of handlers[name] ?? []) {
+                await registry._register(handler as never);
+            }
+        }
+
+        return this;
+    }
+
+    /**
+     * Dispatches a message or interaction like the gateway does, and waits for the handlers to settle.
+     * @param target - The message or interaction, created by the factories of the harness
+     * @returns The events and responses of the dispatch
+     */
+    public async dispatch(target: Message | Interaction): Promise<DispatchResult> {
+        const events = this.events.length;
+        const responses = this.rest.responses.length;
+
+        if ('author' in target) this.client.emit(Events.MessageCreate, target as OmitPartialGroupDMChannel<Message>);
+        else this.client.emit(Events.InteractionCreate, target);
+
+        await this.settle();
+        return new DispatchResult(this.events.slice(events), this.rest.responses.slice(responses));
+    }
+
+    /**
+     * Waits until no event is emitted and no request is made for a few turns of the event loop.
+     * Handlers waiting on timers, such as awaiters, are considered settled.
+     * @throws If the handlers are still active after the settle timeout
+     */
+    public async settle(): Promise<void> {
+        const deadline = Date.now() + this.settleTimeout;
+        let idle = 0;
+        let last = -1;
+
+        while (idle < SettledTurns) {
+            if (Date.now() > deadline) throw new Error(`The handlers didn't settle within ${this.settleTimeout}ms.`);
+
+            await new Promise((resolve) => setImmediate(resolve));
+            const activity = this.events.length + this.rest.requests.length;
+            idle = this.rest.pending === 0 && activity === last ? idle + 1 : 0;
+            last = activity;
+        }
+    }
+
+    /**
+     * Destroys the client, allowing another harness to be created.
+     */
+    public async destroy(): Promise<void> {
+        await this.client.destroy();
+        this.client.removeAllListeners();
+        Reflect.deleteProperty(container, 'client');
+    }
+
+    /**
+     * Marks the client as ready, with a bot user and application, like the `READY` gateway event does.
+     */
+    private boot() {
+        const { client } = this;
+        const user = createRawUser({ username: 'Peridot', bot: true });
+
+        client.token = 'peridot-testing';
+        client.rest.setToken(client.token);
+        client.user = Reflect.construct(ClientUser, [client, user]) as ClientUser;
+        client.users.cache.set(user.id, client.user);
+        client.application = Reflect.construct(ClientApplication, [
+            client,
+            { id: user.id, name: user.username, icon: null, description: '', flags: 0 },
+        ]) as ClientApplication;
+        client.ws.status = Status.Ready;
+        client.readyTimestamp = Date.now();
+    }
+    // #endregion Lifecycle
+
+    // #region Structures
+    /**
+     * Creates a user.
+     */
+    public createUser(options: UserOptions = {}): User {
+        return add(this.client.users, createRawUser(options));
+    }
+
+    /**
+     * Creates a guild with a `general` text channel, its owner and the bot as members.
+     */
+    public createGuild({
+        name = 'Test Guild',
+        owner = this.createUser({ username: 'owner' }),
+        permissions = PermissionsBitField.Default,
+    }: GuildOptions = {}): Guild {
+        const id = createSnowflake();
+        const channel = createRawTextChannel(id, 'general', 0);
+        const member = (user: User) => ({
+            user: toRawUser(user),
+            roles: [],
+            joined_at: new Date().toISOString(),
+            deaf: false,
+            mute: false,
+            flags: 0,
+        });
+
+        return add(this.client.guilds, {
+            id,
+            name,
+            icon: null,
+            owner_id: owner.id,
+            features: [],
+            emojis: [],
+            stickers: [],
+            roles: [createRawRole(id, '@everyone', permissions, 0)],
+            channels: [channel],
+            members: [member(this.client.user), member(owner)],
+            member_count: 2,
+            system_channel_id: channel.id,
+            preferred_locale: 'en-US',
+        });
+    }
+
+    /**
+     * Creates a role.
+     */
+    public createRole({ guild = this.guild, name = 'role', permissions = 0n }: { guild?: Guild; name?: string; permissions?: bigint } = {}): Role {
+        return add(guild.roles, createRawRole(createSnowflake(), name, permissions, guild.roles.cache.size));
+    }
+
+    /**
+     * Creates a member, and its user.
+     */
+    public createMember({ guild = this.guild, roles = [], nickname = null, ...options }: MemberOptions = {}): GuildMember {
+        return add(guild.members, {
+            user: createRawUser(options),
+            nick: nickname,
+            roles: roles.map((role) => role.id),
+            joined_at: new Date().toISOString(),
+            deaf: false,
+            mute: false,
+            flags: 0,
+        });
+    }
+
+    /**
+     * Creates a text channel.
+     */
+    public createTextChannel({ guild = this.guild, name = 'channel' }: { guild?: Guild; name?: string } = {}): TextChannel {
+        return add(this.client.channels, createRawTextChannel(guild.id, name, guild.channels.cache.size), guild);
+    }
+
+    /**
+     * Creates the DM channel of a user.
+     */
+    public createDMChannel(user: User = this.user): DMChannel {
+        return add(this.client.channels, { id: createSnowflake(), type: ChannelType.DM, recipients: [toRawUser(user)], last_message_id: null });
+    }
+
+    /**
+     * Creates a message sent by a user.
+     */
+    public createMessage({ content = '', author = this.member, channel = this.channel }: MessageOptions = {}): Message {
+        const user = 'user' in author ? author.user : author;
+        const member = this.getMember(user, channel);
+
+        const data = createRawMessage({ id: channel.id, guildId: member?.guild.id ?? null }, toRawUser(user), { content });
+        if (member) Object.assign(data, { member: toRawMember(member) });
+
+        return this.rest._trackMessage(data);
+    }
+    // #endregion Structures
+
+    // #region Interactions
+    /**
+     * Creates a slash command interaction.
+     * The types of the options are taken from the registered command.
+     */
+    public createChatInputInteraction({ commandName, ...options }: ChatInputInteractionOptions): ChatInputCommandInteraction {
+        const command = container.handlers.getRegistry('slashCommands').unwrap().getHandler(commandName).unwrapOr(null);
+        const data = _buildCommandOptions(command?.data.options, options);
+
+        return this.createInteraction(ChatInputCommandInteraction, InteractionType.ApplicationCommand, options, {
+            id: createSnowflake(),
+            name: commandName,
+            type: ApplicationCommandType.ChatInput,
+            ...data,
+        });
+    }
+
+    /**
+     * Creates an autocomplete interaction.
+     * The types of the options are taken from the registered command.
+     */
+    public createAutocompleteInteraction({ commandName, focused, ...options }: AutocompleteInteractionOptions): AutocompleteInteraction {
+        const command = container.handlers.getRegistry('slashCommands').unwrap().getHandler(commandName).unwrapOr(null);
+        const data = _buildCommandOptions(command?.data.options, options, focused);
+
+        return this.createInteraction(AutocompleteInteraction, InteractionType.ApplicationCommandAutocomplete, options, {
+            id: createSnowflake(),
+            name: commandName,
+            type: ApplicationCommandType.ChatInput,
+            ...data,
+        });
+    }
+
+    /**
+     * Creates a user or message context menu command interaction, depending on the target.
+     */
+    public createContextMenuInteraction({
+        commandName,
+        target,
+        ...options
+    }: ContextMenuInteractionOptions): UserContextMenuCommandInteraction | MessageContextMenuCommandInteraction {
+        const base = { id: createSnowflake(), name: commandName, target_id: target.id };
+
+        if ('author' in target) {
+            return this.createInteraction(MessageContextMenuCommandInteraction, InteractionType.ApplicationCommand, options, {
+                ...base,
+                type: ApplicationCommandType.Message,
+                resolved: { messages: { [target.id]: this.getRawMessage(target) } },
+            });
+        }
+
+        const user = 'user' in target ? target.user : target;
+        const member = 'user' in target ? target : null;
+        return this.createInteraction(UserContextMenuCommandInteraction, InteractionType.ApplicationCommand, options, {
+            ...base,
+            type: ApplicationCommandType.User,
+            resolved: {
+                users: { [user.id]: toRawUser(user) },
+                ...(member ? { members: { [user.id]: toRawInteractionMember(member, null) } } : {}),
+            },
+        });
+    }
+
+    /**
+     * Creates a button interaction.
+     */
+    public createButtonInteraction({ customId, ...options }: ComponentInteractionOptions): ButtonInteraction {
+        return this.createComponentInteraction(ButtonInteraction, options, { custom_id: customId, component_type: ComponentType.Button });
+    }
+
+    /**
+     * Creates a select menu interaction.
+     */
+    public createSelectMenuInteraction({
+        customId,
+        values,
+        componentType = ComponentType.StringSelect,
+        ...options
+    }: SelectMenuInteractionOptions): AnySelectMenuInteraction {
+        return this.createComponentInteraction<AnySelectMenuInteraction>(SelectMenuInteractions[componentType], options, {
+            custom_id: customId,
+            component_type: componentType,
+            ..._buildSelectMenuValues(values),
+        });
+    }
+
+    /**
+     * Creates a modal submit interaction.
+     */
+    public createModalSubmitInteraction({ customId, fields, message, ...options }: ModalSubmitInteractionOptions): ModalSubmitInteraction {
+        const raw = message ? this.getRawMessage(message) : null;
+
+        return this.createInteraction(
+            ModalSubmitInteraction,
+            InteractionType.ModalSubmit,
+            { channel: message?.channel as TextChannel | DMChannel | undefined, ...options },
+            {
+                custom_id: customId,
+                components: Object.entries(fields).map(([id, value]) => ({
+                    type: ComponentType.ActionRow,
+                    components: [{ type: ComponentType.TextInput, custom_id: id, value }],
+                })),
+            },
+            raw,
+        );
+    }
+
+    private createComponentInteraction<T>(
+        Interaction: InteractionClass<T>,
+        { message, ...options }: Omit<ComponentInteractionOptions, 'customId'>,
+        data: Record<string, unknown>,
+    ): T {
+        const channel = (message?.channel as TextChannel | DMChannel | undefined) ?? options.channel ?? this.channel;
+        const raw = message
+            ? this.getRawMessage(message)
+            : createRawMessage({ id: channel.id, guildId: 'guildId' in channel ? channel.guildId : null }, toRawUser(this.client.user));
+
+        if (!message) this.rest._trackMessage(raw);
+        return this.createInteraction(Interaction, InteractionType.MessageComponent, { ...options, channel }, data, raw);
+    }
+
+    /**
+     * Creates an interaction, and tracks it to route its responses.
+     * @param Interaction - The class of the interaction
+     * @param type - The type of the interaction
+     * @param options - The user and channel of the interaction
+     * @param data - The data of the interaction
+     * @param message - The message of component interactions
+     */
+    private createInteraction<T>(
+        Interaction: InteractionClass<T>,
+        type: InteractionType,
+        { user = this.member, channel = this.channel }: InteractionOptions,
+        data: Record<string, unknown>,
+        message: APIMessage | null = null,
+    ): T {
+        const author = 'user' in user ? user.user : user;
+        const member = this.getMember(author, channel);
+        const guildChannel = member ? (channel as GuildBasedChannel) : null;
+
+        const id = createSnowflake();
+        const token = randomBytes(24).toString('base64url');
+        const interaction = {
+            id,
+            application_id: this.client.application.id,
+            type,
+            token,
+            version: 1,
+            data,
+            channel_id: channel.id,
+            channel: { id: channel.id, type: channel.type },
+            ...(member
+                ? {
+                      guild_id: member.guild.id,
+                      guild_locale: member.guild.preferredLocale,
+                      member: { ...toRawInteractionMember(member, guildChannel), user: toRawUser(author) },
+                  }
+                : { user: toRawUser(author) }),
+            ...(message ? { message } : {}),
+            locale: 'en-US',
+            app_permissions: (
+                guildChannel?.permissionsFor(this.client.user) ?? new PermissionsBitField(PermissionsBitField.Default)
+            ).bitfield.toString(),
+            entitlements: [],
+            authorizing_integration_owners: {},
+            context: member ? 0 : 1,
+            attachment_size_limit: 8 * 1024 * 1024,
+        };
+
+        this.rest._trackInteraction({
+            id,
+            token,
+            type,
+            user: toRawUser(author),
+            channelId: channel.id,
+            guildId: member?.guild.id ?? null,
+            messageId: message?.id ?? null,
+            originalId: null,
+        });
+
+        // The constructors of interactions are private, they are only created by the client
+        return Reflect.construct(Interaction as unknown as new (...args: unknown[]) => T, [this.client, interaction]);
+    }
+    // #endregion Interactions
+
+    /**
+     * Gets the member of a user in the guild of a channel.
+     * @throws If the user isn't a member of the guild
+     */
+    private getMember(user: User, channel: TextBasedChannel): GuildMember | null {
+        if (!('guild' in channel) || !channel.guild) return null;
+
+        const member = channel.guild.members.cache.get(user.id);
+        if (!member) throw new Error(`The user '${user.id}' isn't a member of the guild '${channel.guild.id}'.`);
+
+        return member;
+    }
+
+    /**
+     * Gets the data of a message created by the harness or sent by the bot.
+     */
+    private getRawMessage(message: Message): APIMessage {
+        const raw = this.rest._getRawMessage(message.id);
+        if (!raw) throw new Error(`The message '${message.id}' wasn't created by the test harness.`);
+
+        return raw;
+    }
+}
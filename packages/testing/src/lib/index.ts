@@ -0,0 +1,4 @@
+export * from './FakeRest.js';
+export * from './options.js';
+export { createSnowflake, type UserOptions } from './payloads.js';
+export * from './TestHarness.js';
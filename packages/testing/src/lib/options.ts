@@ -0,0 +1,156 @@
+import {
+    type APIApplicationCommandInteractionDataOption,
+    type APIInteractionDataResolved,
+    type ApplicationCommandOptionData,
+    ApplicationCommandOptionType,
+    type GuildBasedChannel,
+    type GuildMember,
+    type Role,
+    type User,
+} from 'discord.js';
+
+import { toRawInteractionMember, toRawResolvedChannel, toRawRole, toRawUser } from './payloads.js';
+
+/**
+ * The value of a command option in a fake interaction.
+ * Users, members, roles and channels are added to the resolved data of the interaction.
+ * @since 0.1.0
+ * @category Types
+ */
+export type CommandOptionValue = string | number | boolean | User | GuildMember | Role | GuildBasedChannel;
+
+/**
+ * The options of a fake command interaction.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface CommandOptions {
+    /** The subcommand group to invoke */
+    subcommandGroup?: string;
+    /** The subcommand to invoke */
+    subcommand?: string;
+    /**
+     * The values of the options, keyed by option name.
+     * The types of the options are taken from the registered command, or inferred from the values if it isn't registered.
+     */
+    options?: Record<string, CommandOptionValue>;
+}
+
+/**
+ * A value of a fake select menu interaction.
+ * Users, members, roles and channels are added to the resolved data of the interaction.
+ * @since 0.1.0
+ * @category Types
+ */
+export type SelectMenuValue = string | User | GuildMember | Role | GuildBasedChannel;
+
+type Resolved = Required<Pick<APIInteractionDataResolved, 'users' | 'members' | 'roles' | 'channels'>>;
+
+const isMember = (value: object): value is GuildMember => 'joinedTimestamp' in value;
+const isRole = (value: object): value is Role => 'hoist' in value;
+const isChannel = (value: object): value is GuildBasedChannel => 'isTextBased' in value;
+
+/**
+ * Infers the type of an option that isn't declared by a registered command.
+ */
+const inferType = (value: CommandOptionValue): ApplicationCommandOptionType => {
+    switch (typeof value) {
+        case 'string':
+            return ApplicationCommandOptionType.String;
+        case 'number':
+            return Number.isInteger(value) ? ApplicationCommandOptionType.Integer : ApplicationCommandOptionType.Number;
+        case 'boolean':
+            return ApplicationCommandOptionType.Boolean;
+    }
+
+    if (isRole(value)) return ApplicationCommandOptionType.Role;
+    if (isChannel(value)) return ApplicationCommandOptionType.Channel;
+    return ApplicationCommandOptionType.User;
+};
+
+/**
+ * Gets the declared options of the invoked subcommand, or of the command itself.
+ */
+const getDeclaredOptions = (declared: readonly ApplicationCommandOptionData[] | undefined, { subcommandGroup, subcommand }: CommandOptions) => {
+    let options = declared;
+    for (const [name, type] of [
+        [subcommandGroup, ApplicationCommandOptionType.SubcommandGroup],
+        [subcommand, ApplicationCommandOptionType.Subcommand],
+    ] as const) {
+        if (name === undefined) continue;
+
+        const option = options?.find((option) => option.name === name && option.type === type);
+        options = option && 'options' in option ? (option.options as readonly ApplicationCommandOptionData[] | undefined) : undefined;
+    }
+
+    return options ?? [];
+};
+
+/**
+ * Adds a user, member, role or channel to the resolved data.
+ * @returns The ID of the value
+ */
+const resolve = (resolved: Resolved, value: User | GuildMember | Role | GuildBasedChannel) => {
+    if (isRole(value)) {
+        resolved.roles[value.id] = toRawRole(value);
+    } else if (isChannel(value)) {
+        resolved.channels[value.id] = toRawResolvedChannel(value);
+    } else if (isMember(value)) {
+        resolved.users[value.id] = toRawUser(value.user);
+        resolved.members[value.id] = toRawInteractionMember(value, null);
+    } else {
+        resolved.users[value.id] = toRawUser(value);
+    }
+
+    return value.id;
+};
+
+/**
+ * Builds the options and resolved data of a command interaction.
+ * @param declared - The options declared by the registered command
+ * @param options - The invoked subcommand and the values of the options
+ * @param focused - The name of the focused option, for autocomplete interactions
+ */
+export const _buildCommandOptions = (
+    declared: readonly ApplicationCommandOptionData[] | undefined,
+    options: CommandOptions,
+    focused?: string,
+): { options: APIApplicationCommandInteractionDataOption[]; resolved: Resolved } => {
+    const resolved: Resolved = { users: {}, members: {}, roles: {}, channels: {} };
+    const types = new Map(getDeclaredOptions(declared, options).map((option) => [option.name, option.type]));
+
+    let built = Object.entries(options.options ?? {}).map(([name, value]) => {
+        const type = types.get(name) ?? inferType(value);
+        const raw = typeof value === 'object' ? resolve(resolved, value) : value;
+
+        return { name, type, value: raw, ...(name === focused ? { focused: true } : {}) } as APIApplicationCommandInteractionDataOption;
+    });
+
+    if (options.subcommand !== undefined) {
+        built = [
+            { name: options.subcommand, type: ApplicationCommandOptionType.Subcommand, options: built } as APIApplicationCommandInteractionDataOption,
+        ];
+    }
+
+    if (options.subcommandGroup !== undefined) {
+        built = [
+            {
+                name: options.subcommandGroup,
+                type: ApplicationCommandOptionType.SubcommandGroup,
+                options: built,
+            } as APIApplicationCommandInteractionDataOption,
+        ];
+    }
+
+    return { options: built, resolved };
+};
+
+/**
+ * Builds the values of a select menu interaction, adding the selected users, members, roles and channels to the resolved data.
+ */
+export const _buildSelectMenuValues = (values: readonly SelectMenuValue[]) => {
+    const resolved: Resolved = { users: {}, members: {}, roles: {}, channels: {} };
+    const ids = values.map((value) => (typeof value === 'string' ? value : resolve(resolved, value)));
+
+    return { values: ids, resolved };
+};
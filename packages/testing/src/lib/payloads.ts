@@ -0,0 +1,161 @@
+import {
+    type APIGuildMember,
+    type APIInteractionDataResolvedChannel,
+    type APIInteractionDataResolvedGuildMember,
+    type APIMessage,
+    type APIRole,
+    type APIUser,
+    ChannelType,
+    type GuildBasedChannel,
+    type GuildMember,
+    type MessageFlags,
+    MessageType,
+    type Role,
+    type RoleFlags,
+    type Snowflake,
+    SnowflakeUtil,
+    type User,
+} from 'discord.js';
+
+/**
+ * Generates a snowflake for the current time.
+ * @since 0.1.0
+ * @category Functions
+ */
+export const createSnowflake = (): Snowflake => SnowflakeUtil.generate().toString();
+
+// #region Users and members
+/**
+ * Options for creating a user.
+ * @since 0.1.0
+ * @category Interfaces
+ */
+export interface UserOptions {
+    /** @default A generated snowflake */
+    id?: Snowflake;
+    /** @default `user-<id>` */
+    username?: string;
+    /** @default null */
+    globalName?: string | null;
+    /** @default false */
+    bot?: boolean;
+}
+
+export const createRawUser = ({ id = createSnowflake(), username = `user-${id}`, globalName = null, bot = false }: UserOptions = {}): APIUser => ({
+    id,
+    username,
+    discriminator: '0',
+    global_name: globalName,
+    avatar: null,
+    bot,
+});
+
+export const toRawUser = (user: User): APIUser => ({
+    id: user.id,
+    username: user.username,
+    discriminator: user.discriminator,
+    global_name: user.globalName,
+    avatar: user.avatar,
+    bot: user.bot,
+});
+
+export const toRawMember = (member: GuildMember): APIGuildMember => ({
+    user: toRawUser(member.user),
+    nick: member.nickname,
+    avatar: member.avatar,
+    banner: null,
+    roles: member.roles.cache.filter((role) => role.id !== member.guild.id).map((role) => role.id),
+    joined_at: new Date(member.joinedTimestamp ?? Date.now()).toISOString(),
+    deaf: false,
+    mute: false,
+    flags: member.flags.bitfield,
+});
+
+/**
+ * Converts a member to the data of an interaction, which carries the permissions of the member in the channel.
+ */
+export const toRawInteractionMember = (member: GuildMember, channel: GuildBasedChannel | null): APIInteractionDataResolvedGuildMember => {
+    const { user: _, ...data } = toRawMember(member);
+    const permissions = channel?.permissionsFor(member) ?? member.permissions;
+
+    return { ...data, permissions: permissions.bitfield.toString() };
+};
+// #endregion Users and members
+
+// #region Guilds
+export const toRawRole = (role: Role): APIRole => ({
+    id: role.id,
+    name: role.name,
+    color: role.color,
+    colors: { primary_color: role.color, secondary_color: null, tertiary_color: null },
+    hoist: role.hoist,
+    position: role.rawPosition,
+    permissions: role.permissions.bitfield.toString(),
+    managed: role.managed,
+    mentionable: role.mentionable,
+    flags: role.flags.bitfield,
+});
+
+export const createRawRole = (id: Snowflake, name: string, permissions: bigint, position: number): APIRole => ({
+    id,
+    name,
+    color: 0,
+    colors: { primary_color: 0, secondary_color: null, tertiary_color: null },
+    hoist: false,
+    position,
+    permissions: permissions.toString(),
+    managed: false,
+    mentionable: false,
+    flags: 0 as RoleFlags,
+});
+
+export const createRawTextChannel = (guildId: Snowflake, name: string, position: number) => ({
+    id: createSnowflake(),
+    type: ChannelType.GuildText,
+    guild_id: guildId,
+    name,
+    position,
+    permission_overwrites: [],
+    parent_id: null,
+    nsfw: false,
+    topic: null,
+    last_message_id: null,
+    rate_limit_per_user: 0,
+    flags: 0,
+});
+
+export const toRawResolvedChannel = (channel: { id: Snowflake; type: ChannelType; name?: string | null }): APIInteractionDataResolvedChannel =>
+    ({ id: channel.id, type: channel.type, name: channel.name ?? null, permissions: '0' }) as APIInteractionDataResolvedChannel;
+// #endregion Guilds
+
+// #region Messages
+/**
+ * The parts of a message that are set from a request body.
+ */
+export type RawMessageContent = Partial<Pick<APIMessage, 'content' | 'embeds' | 'components' | 'flags' | 'attachments' | 'message_reference'>>;
+
+export const createRawMessage = (
+    channel: { id: Snowflake; guildId: Snowflake | null },
+    author: APIUser,
+    content: RawMessageContent = {},
+): APIMessage & { guild_id?: Snowflake } => ({
+    id: createSnowflake(),
+    channel_id: channel.id,
+    ...(channel.guildId ? { guild_id: channel.guildId } : {}),
+    author,
+    content: '',
+    timestamp: new Date().toISOString(),
+    edited_timestamp: null,
+    tts: false,
+    mention_everyone: false,
+    mentions: [],
+    mention_roles: [],
+    attachments: [],
+    embeds: [],
+    components: [],
+    pinned: false,
+    type: content.message_reference ? MessageType.Reply : MessageType.Default,
+    flags: 0 as MessageFlags,
+    ...content,
+});
+// #endregion Messages